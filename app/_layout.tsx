@@ -1,43 +1,141 @@
-import { Stack, useRouter } from 'expo-router';
+import { Stack, useRouter, usePathname } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Platform, StatusBar as RNStatusBar, TouchableOpacity } from 'react-native';
+import { Platform, StatusBar as RNStatusBar, StyleSheet, TouchableOpacity, View, Modal } from 'react-native';
 import React, { useEffect, useState } from 'react';
 import { Ionicons } from '@expo/vector-icons';
 import AuthScreen from '../components/AuthScreen';
 import PINSetupScreen from '../components/PINSetupScreen';
 import ForgotPINScreen from '../components/ForgotPINScreen';
-import { hasPINSetup } from '../services/storage';
+import ReauthProvider from '../components/ReauthProvider';
+import ProfilePickerScreen from '../components/ProfilePickerScreen';
+import ErrorState from '../components/ErrorState';
+import { hasPINSetup, getProfiles, getActiveProfile } from '../services/storage';
+import { runMigrations } from '../services/migrations';
+import { initStorageBackend } from '../services/storageBackend';
+import { setActiveProfileId } from '../services/profiles';
+import { lockStorage } from '../services/encryption';
+import { clearReauthGrace } from '../services/reauth';
+import { clearStore, notifyStoreChanged } from '../services/store';
+import { attempt } from '../services/errors';
+import { useAutoLock } from '../hooks/useAutoLock';
+import { ProfileSwitchContext } from '../hooks/useProfileSwitch';
+import { Profile } from '../types/profile';
+import { Result, StorageError, ok } from '../types/result';
 
 export default function RootLayout() {
     const router = useRouter();
-    const [hasSetupPIN, setHasSetupPIN] = useState<boolean | null>(null); // null = loading
+    const pathname = usePathname();
+    const [isStorageReady, setIsStorageReady] = useState(false);
+    const [startupError, setStartupError] = useState<StorageError | null>(null);
+    const [migrationError, setMigrationError] = useState<StorageError | null>(null);
+    const [profile, setProfile] = useState<Profile | null>(null); // null = picking a profile
+    const [setupCheck, setSetupCheck] = useState<Result<boolean> | null>(null); // null = loading
     const [isAuthenticated, setIsAuthenticated] = useState(false);
     const [showForgotPIN, setShowForgotPIN] = useState(false);
+    // Relocked after the main app was shown. The navigator stays mounted underneath the
+    // lock screen, so the user comes back to the same screen after unlocking.
+    const [isLocked, setIsLocked] = useState(false);
     const insets = useSafeAreaInsets();
 
-    // Check if PIN is already setup on mount
+    const handleLock = () => {
+        lockStorage();
+        clearStore();
+        clearReauthGrace();
+        setShowForgotPIN(false);
+        setIsLocked(true);
+        // Pick up a rename from Settings for the lock screen
+        getActiveProfile().then((result) => result.ok && result.value && setProfile(result.value));
+    };
+
+    const { recordActivity } = useAutoLock(isAuthenticated && !isLocked, handleLock);
+
+    // Open storage on mount. With a single profile there is nothing to pick, so go straight to it.
     useEffect(() => {
-        checkPINSetup();
+        prepareStorage();
     }, []);
 
-    const checkPINSetup = async () => {
-        const hasSetup = await hasPINSetup();
-        setHasSetupPIN(hasSetup);
+    const prepareStorage = async () => {
+        // Nothing else can run until storage opens - never carry on with a different backend
+        const opened = await attempt('opening storage', () => initStorageBackend());
+        if (!opened.ok) {
+            setStartupError(opened.error);
+            return;
+        }
+        const profiles = await getProfiles();
+        if (!profiles.ok) {
+            setStartupError(profiles.error);
+            return;
+        }
+        setStartupError(null);
+        if (profiles.value.length === 1) {
+            await handleSelectProfile(profiles.value[0]);
+        }
+        setIsStorageReady(true);
+    };
+
+    // Screens can't work on a half-migrated schema, so a failed migration covers the app
+    // until a retry gets through. The version is only bumped on success, so each retry
+    // resumes at the step that failed.
+    const migrate = async () => {
+        const result = await attempt('migrating data', runMigrations);
+        setMigrationError(result.ok ? null : result.error);
+    };
+
+    // Point storage at the chosen profile, upgrade its data, then check if its PIN is already setup.
+    // A failure here doesn't stop unlocking: the step runs again once unlocked, where it
+    // blocks the app, and an unreadable collection can only be repaired once unlocked.
+    const handleSelectProfile = async (selected: Profile) => {
+        setActiveProfileId(selected.id);
+        await migrate();
+        setSetupCheck(await hasPINSetup());
+        setProfile(selected);
+    };
+
+    // Forget the current profile's data key and go back to the picker
+    const handleSwitchProfile = () => {
+        lockStorage();
+        clearStore();
+        clearReauthGrace();
+        setShowForgotPIN(false);
+        setIsAuthenticated(false);
+        setIsLocked(false);
+        setSetupCheck(null);
+        setMigrationError(null);
+        setProfile(null);
     };
 
     const handleSetupComplete = () => {
-        setHasSetupPIN(true);
+        setSetupCheck(ok(true));
+    };
+
+    // Storage is unlocked by now, so finish any migrations that needed the data key
+    // and let screens still mounted under the lock screen re-read their data
+    const finishMigrations = async () => {
+        await migrate();
+        notifyStoreChanged();
     };
 
-    const handleAuthSuccess = () => {
+    const handleAuthSuccess = async () => {
+        await finishMigrations();
         setIsAuthenticated(true);
+        setIsLocked(false);
         setShowForgotPIN(false);
     };
 
-    const handleForgotPINSuccess = () => {
+    // Too many failed attempts erased everything - start over from PIN setup
+    const handleDataWiped = () => {
+        setShowForgotPIN(false);
+        setIsAuthenticated(false);
+        setIsLocked(false);
+        setSetupCheck(ok(false));
+    };
+
+    const handleForgotPINSuccess = async () => {
+        await finishMigrations();
         setShowForgotPIN(false);
         setIsAuthenticated(true);
+        setIsLocked(false);
     };
 
     // Calculate safe top padding
@@ -57,118 +155,233 @@ export default function RootLayout() {
         paddingTop: TOTAL_TOP_PADDING,
     } as any;
 
+    const renderError = (error: StorageError, onRetry: () => void) => (
+        <View style={{ flex: 1, backgroundColor: '#f8fafc' }}>
+            <StatusBar style="dark" />
+            <ErrorState error={error} onRetry={onRetry} />
+        </View>
+    );
+
+    if (startupError) {
+        return renderError(startupError, prepareStorage);
+    }
+
     // Loading state
-    if (hasSetupPIN === null) {
+    if (!isStorageReady) {
         return null; // Or a loading screen
     }
 
+    // State 0: No profile chosen yet - Show profile picker
+    if (!profile) {
+        return (
+            <>
+                <StatusBar style="light" />
+                <ProfilePickerScreen onSelect={handleSelectProfile} />
+            </>
+        );
+    }
+
+    if (setupCheck === null) {
+        return null;
+    }
+
+    // Couldn't tell whether a PIN exists - offering setup could replace the data key
+    if (!setupCheck.ok) {
+        return renderError(setupCheck.error, () => handleSelectProfile(profile));
+    }
+
     // State 1: No PIN setup - Show setup screen
-    if (!hasSetupPIN) {
+    if (!setupCheck.value) {
         return (
             <>
                 <StatusBar style="light" />
-                <PINSetupScreen onComplete={handleSetupComplete} />
+                <PINSetupScreen
+                    onComplete={handleSetupComplete}
+                    onSwitchProfile={handleSwitchProfile}
+                    profileName={profile.name}
+                />
             </>
         );
     }
 
+    const lockScreen = showForgotPIN ? (
+        <ForgotPINScreen
+            onSuccess={handleForgotPINSuccess}
+            onCancel={() => setShowForgotPIN(false)}
+            onDataWiped={handleDataWiped}
+        />
+    ) : (
+        <AuthScreen
+            onAuthenticate={handleAuthSuccess}
+            onForgotPIN={() => setShowForgotPIN(true)}
+            onDataWiped={handleDataWiped}
+            onSwitchProfile={handleSwitchProfile}
+            profileName={profile.name}
+        />
+    );
+
     // State 2: PIN setup but not authenticated - Show auth or forgot PIN
     if (!isAuthenticated) {
-        if (showForgotPIN) {
-            return (
-                <>
-                    <StatusBar style="light" />
-                    <ForgotPINScreen
-                        onSuccess={handleForgotPINSuccess}
-                        onCancel={() => setShowForgotPIN(false)}
-                    />
-                </>
-            );
-        }
-
         return (
             <>
                 <StatusBar style="light" />
-                <AuthScreen
-                    onAuthenticate={handleAuthSuccess}
-                    onForgotPIN={() => setShowForgotPIN(true)}
-                />
+                {lockScreen}
             </>
         );
     }
 
-    // State 3: Authenticated - Show main app
+    // State 3: Authenticated - Show main app, covered by the lock screen after auto-lock
     return (
-        <>
+        <View style={{ flex: 1 }} onTouchStart={recordActivity}>
             <StatusBar style="light" />
-            <Stack
-                screenOptions={{
-                    headerStyle: headerStyle,
-                    headerTintColor: '#fff',
-                    headerTitleStyle: {
-                        fontWeight: 'bold',
-                    },
-                    headerTitleAlign: 'center',
-                }}
-            >
-                <Stack.Screen
-                    name="index"
-                    options={{
-                        title: 'Expense Tracker',
-                        headerRight: () => (
-                            <TouchableOpacity
-                                onPress={() => router.push('/settings')}
-                                style={{ marginRight: 15 }}
-                                activeOpacity={0.7}
-                            >
-                                <Ionicons name="settings-outline" size={24} color="#fff" />
-                            </TouchableOpacity>
-                        ),
-                    }}
-                />
-                <Stack.Screen
-                    name="add-expense"
-                    options={{
-                        title: 'Add Expense',
-                        presentation: 'modal',
-                        headerStyle: {
-                            ...headerStyle,
-                            backgroundColor: '#ef4444',
-                        },
-                    }}
-                />
-                <Stack.Screen
-                    name="add-income"
-                    options={{
-                        title: 'Add Income',
-                        presentation: 'modal',
-                        headerStyle: {
-                            ...headerStyle,
-                            backgroundColor: '#10b981',
-                        },
-                    }}
-                />
-                <Stack.Screen
-                    name="all-transactions"
-                    options={{
-                        title: 'All Transactions',
-                    }}
-                />
-                <Stack.Screen
-                    name="periods"
-                    options={{
-                        title: 'Periods',
-                        headerStyle: headerStyle,
-                    }}
-                />
-                <Stack.Screen
-                    name="settings"
-                    options={{
-                        title: 'Settings',
-                        headerStyle: headerStyle,
-                    }}
-                />
-            </Stack>
-        </>
+            <ProfileSwitchContext.Provider value={handleSwitchProfile}>
+                <ReauthProvider locked={isLocked}>
+                    <Stack
+                        screenOptions={{
+                            headerStyle: headerStyle,
+                            headerTintColor: '#fff',
+                            headerTitleStyle: {
+                                fontWeight: 'bold',
+                            },
+                            headerTitleAlign: 'center',
+                        }}
+                    >
+                        <Stack.Screen
+                            name="index"
+                            options={{
+                                title: 'Expense Tracker',
+                                headerLeft: () => (
+                                    <TouchableOpacity
+                                        onPress={() => router.push('/accounts')}
+                                        style={{ marginLeft: 15 }}
+                                        activeOpacity={0.7}
+                                    >
+                                        <Ionicons name="wallet-outline" size={24} color="#fff" />
+                                    </TouchableOpacity>
+                                ),
+                                headerRight: () => (
+                                    <TouchableOpacity
+                                        onPress={() => router.push('/settings')}
+                                        style={{ marginRight: 15 }}
+                                        activeOpacity={0.7}
+                                    >
+                                        <Ionicons name="settings-outline" size={24} color="#fff" />
+                                    </TouchableOpacity>
+                                ),
+                            }}
+                        />
+                        <Stack.Screen
+                            name="add-expense"
+                            options={{
+                                title: 'Add Expense',
+                                presentation: 'modal',
+                                headerStyle: {
+                                    ...headerStyle,
+                                    backgroundColor: '#ef4444',
+                                },
+                            }}
+                        />
+                        <Stack.Screen
+                            name="add-income"
+                            options={{
+                                title: 'Add Income',
+                                presentation: 'modal',
+                                headerStyle: {
+                                    ...headerStyle,
+                                    backgroundColor: '#10b981',
+                                },
+                            }}
+                        />
+                        <Stack.Screen
+                            name="add-transfer"
+                            options={{
+                                title: 'Transfer',
+                                presentation: 'modal',
+                                headerStyle: headerStyle,
+                            }}
+                        />
+                        <Stack.Screen
+                            name="all-transactions"
+                            options={{
+                                title: 'All Transactions',
+                            }}
+                        />
+                        <Stack.Screen
+                            name="periods"
+                            options={{
+                                title: 'Periods',
+                                headerStyle: headerStyle,
+                            }}
+                        />
+                        <Stack.Screen
+                            name="accounts"
+                            options={{
+                                title: 'Accounts',
+                                headerStyle: headerStyle,
+                            }}
+                        />
+                        <Stack.Screen
+                            name="account-ledger"
+                            options={{
+                                title: 'Account',
+                                headerStyle: headerStyle,
+                            }}
+                        />
+                        <Stack.Screen
+                            name="settings"
+                            options={{
+                                title: 'Settings',
+                                headerStyle: headerStyle,
+                            }}
+                        />
+                        <Stack.Screen
+                            name="categories"
+                            options={{
+                                title: 'Categories',
+                                headerStyle: headerStyle,
+                            }}
+                        />
+                        <Stack.Screen
+                            name="exchange-rates"
+                            options={{
+                                title: 'Exchange Rates',
+                                headerStyle: headerStyle,
+                            }}
+                        />
+                        <Stack.Screen
+                            name="security-log"
+                            options={{
+                                title: 'Security Log',
+                                headerStyle: headerStyle,
+                            }}
+                        />
+                        <Stack.Screen
+                            name="diagnostics"
+                            options={{
+                                title: 'Diagnostics',
+                                headerStyle: headerStyle,
+                            }}
+                        />
+                        <Stack.Screen
+                            name="repair"
+                            options={{
+                                title: 'Repair Data',
+                                headerStyle: headerStyle,
+                            }}
+                        />
+                    </Stack>
+                </ReauthProvider>
+            </ProfileSwitchContext.Provider>
+            {/* Left uncovered on the repair screen, which is how an unreadable collection gets past it */}
+            {migrationError && pathname !== '/repair' && (
+                <View style={StyleSheet.absoluteFill}>
+                    {renderError(migrationError, finishMigrations)}
+                </View>
+            )}
+            {/* Back button can't dismiss it */}
+            <Modal visible={isLocked} animationType="fade" onRequestClose={() => {}}>
+                {lockScreen}
+            </Modal>
+        </View>
     );
 }
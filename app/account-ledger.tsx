@@ -0,0 +1,195 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, FlatList, RefreshControl } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { reloadStore } from '../services/store';
+import { useAccounts, useAccountLedger } from '../hooks/useAccounts';
+import ErrorState from '../components/ErrorState';
+import { ACCOUNT_KIND_LABELS, LedgerEntry, describeTransfer } from '../types/account';
+import { formatMoney } from '../types/money';
+import { getTransactionLabel } from '../types/transaction';
+
+export default function AccountLedgerScreen() {
+    const { accountId } = useLocalSearchParams<{ accountId: string }>();
+    const [refreshing, setRefreshing] = useState(false);
+    const ledgerResult = useAccountLedger(accountId);
+    const accountsResult = useAccounts();
+    const accounts = accountsResult?.ok ? accountsResult.value : [];
+
+    const onRefresh = useCallback(async () => {
+        setRefreshing(true);
+        await reloadStore();
+        setRefreshing(false);
+    }, []);
+
+    const formatDate = (dateString: string) => {
+        const date = new Date(dateString);
+        return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    };
+
+    if (ledgerResult && !ledgerResult.ok) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <ErrorState error={ledgerResult.error} onRetry={reloadStore} />
+            </SafeAreaView>
+        );
+    }
+
+    const ledger = ledgerResult?.value;
+
+    const renderEntry = ({ item }: { item: LedgerEntry }) => {
+        const { transaction } = item;
+        // Transfers in count toward this account like income does
+        const isIncome = transaction.type === 'income'
+            || (transaction.type === 'transfer' && transaction.toAccountId === accountId);
+        return (
+            <View style={styles.entryCard}>
+                <View style={styles.entryInfo}>
+                    <Text style={styles.entryDescription}>{transaction.description}</Text>
+                    <Text style={styles.entryMeta}>
+                        {transaction.type === 'transfer' ? describeTransfer(transaction, accounts) : getTransactionLabel(transaction)}
+                        {' · '}{formatDate(transaction.date)}
+                    </Text>
+                </View>
+                <View style={styles.entryAmounts}>
+                    <Text style={[styles.entryChange, isIncome ? styles.incomeText : styles.expenseText]}>
+                        {item.change
+                            ? `${isIncome ? '+' : ''}${formatMoney(item.change)}`
+                            : `${isIncome ? '+' : '-'}${formatMoney(transaction.amount)}`}
+                    </Text>
+                    <Text style={styles.entryBalance}>{formatMoney(item.runningBalance)}</Text>
+                </View>
+            </View>
+        );
+    };
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <FlatList
+                data={ledger?.entries ?? []}
+                keyExtractor={(item) => item.transaction.id}
+                renderItem={renderEntry}
+                contentContainerStyle={styles.listContent}
+                refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+                ListHeaderComponent={ledger ? (
+                    <View style={styles.balanceCard}>
+                        <Text style={styles.balanceLabel}>
+                            {ledger.account.name} · {ACCOUNT_KIND_LABELS[ledger.account.kind]}
+                        </Text>
+                        <Text style={styles.balanceAmount}>{formatMoney(ledger.balance)}</Text>
+                        <Text style={styles.balanceSubtext}>
+                            Opening balance {formatMoney(ledger.account.openingBalance)}
+                        </Text>
+                        {ledger.missingRates.length > 0 && (
+                            <Text style={styles.missingRatesText}>
+                                Amounts in {ledger.missingRates.join(', ')} are left out until exchange rates are added
+                            </Text>
+                        )}
+                    </View>
+                ) : null}
+                ListEmptyComponent={ledger ? (
+                    <View style={styles.emptyState}>
+                        <Text style={styles.emptyStateText}>No transactions in this account</Text>
+                    </View>
+                ) : null}
+            />
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8fafc',
+    },
+    listContent: {
+        padding: 20,
+    },
+    balanceCard: {
+        backgroundColor: '#6366f1',
+        borderRadius: 20,
+        padding: 20,
+        marginBottom: 20,
+        shadowColor: '#6366f1',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 12,
+        elevation: 8,
+    },
+    balanceLabel: {
+        fontSize: 14,
+        color: '#c7d2fe',
+        fontWeight: '600',
+        marginBottom: 6,
+    },
+    balanceAmount: {
+        fontSize: 32,
+        fontWeight: 'bold',
+        color: '#ffffff',
+        marginBottom: 6,
+    },
+    balanceSubtext: {
+        fontSize: 13,
+        color: '#c7d2fe',
+    },
+    missingRatesText: {
+        fontSize: 12,
+        color: '#fde68a',
+        marginTop: 8,
+    },
+    entryCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#fff',
+        borderRadius: 12,
+        padding: 14,
+        marginBottom: 8,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.05,
+        shadowRadius: 2,
+        elevation: 2,
+    },
+    entryInfo: {
+        flex: 1,
+        marginRight: 12,
+    },
+    entryDescription: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#1f2937',
+        marginBottom: 2,
+    },
+    entryMeta: {
+        fontSize: 13,
+        color: '#6b7280',
+    },
+    entryAmounts: {
+        alignItems: 'flex-end',
+    },
+    entryChange: {
+        fontSize: 16,
+        fontWeight: '700',
+    },
+    entryBalance: {
+        fontSize: 12,
+        color: '#9ca3af',
+        marginTop: 2,
+    },
+    incomeText: {
+        color: '#10b981',
+    },
+    expenseText: {
+        color: '#ef4444',
+    },
+    emptyState: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingVertical: 40,
+    },
+    emptyStateText: {
+        fontSize: 18,
+        fontWeight: '600',
+        color: '#9ca3af',
+    },
+});
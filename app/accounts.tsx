@@ -0,0 +1,491 @@
+import React, { useState, useCallback } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    TextInput,
+    Alert,
+    RefreshControl,
+    Modal,
+    KeyboardAvoidingView,
+    Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { addAccount, updateAccount, deleteAccount, getHomeCurrency } from '../services/storage';
+import { reloadStore } from '../services/store';
+import { useReauth } from '../hooks/useReauth';
+import { useAccountLedgers } from '../hooks/useAccounts';
+import ErrorState from '../components/ErrorState';
+import CurrencyPicker from '../components/CurrencyPicker';
+import {
+    Account,
+    AccountKind,
+    AccountLedger,
+    ACCOUNT_KINDS,
+    ACCOUNT_KIND_LABELS,
+    MAX_ACCOUNT_NAME_LENGTH,
+    validateAccountName,
+} from '../types/account';
+import { CurrencyCode, DEFAULT_CURRENCY, createMoney, formatMoney, formatMoneyInput, parseMoney } from '../types/money';
+import { STORAGE_ERROR_TITLES } from '../types/result';
+
+const ACCOUNT_KIND_ICONS: Record<AccountKind, keyof typeof Ionicons.glyphMap> = {
+    cash: 'cash-outline',
+    checking: 'card-outline',
+    savings: 'wallet-outline',
+    'credit-card': 'card',
+};
+
+export default function AccountsScreen() {
+    const router = useRouter();
+    const [refreshing, setRefreshing] = useState(false);
+    const [isModalVisible, setIsModalVisible] = useState(false);
+    const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+    const [name, setName] = useState('');
+    const [kind, setKind] = useState<AccountKind>('checking');
+    const [openingBalance, setOpeningBalance] = useState('');
+    const [currency, setCurrency] = useState<CurrencyCode>(DEFAULT_CURRENCY);
+    const { requireReauth } = useReauth();
+    const ledgersResult = useAccountLedgers();
+
+    const ledgers = ledgersResult?.ok ? ledgersResult.value : [];
+    const loadError = ledgersResult && !ledgersResult.ok ? ledgersResult.error : null;
+
+    const onRefresh = useCallback(async () => {
+        setRefreshing(true);
+        await reloadStore();
+        setRefreshing(false);
+    }, []);
+
+    const openAddModal = async () => {
+        const homeCurrency = await getHomeCurrency();
+        if (!homeCurrency.ok) {
+            Alert.alert(STORAGE_ERROR_TITLES[homeCurrency.error.category], homeCurrency.error.message);
+            return;
+        }
+        setEditingAccount(null);
+        setName('');
+        setKind('checking');
+        setOpeningBalance('');
+        setCurrency(homeCurrency.value);
+        setIsModalVisible(true);
+    };
+
+    const openEditModal = (account: Account) => {
+        setEditingAccount(account);
+        setName(account.name);
+        setKind(account.kind);
+        setOpeningBalance(formatMoneyInput(account.openingBalance));
+        setCurrency(account.openingBalance.currency);
+        setIsModalVisible(true);
+    };
+
+    const handleSave = async () => {
+        const accounts = ledgers.map(ledger => ledger.account);
+        const nameError = validateAccountName(name, accounts, editingAccount?.id);
+        if (nameError) {
+            Alert.alert('Invalid Name', nameError);
+            return;
+        }
+
+        // A leading minus marks money owed, e.g. a credit card carrying a balance
+        const input = openingBalance.trim();
+        const negative = input.startsWith('-');
+        const parsed = parseMoney(negative ? input.slice(1) : input || '0', currency);
+        if (!parsed) {
+            Alert.alert('Invalid Amount', 'Please enter a valid opening balance');
+            return;
+        }
+        const balance = negative ? createMoney(-parsed.minor, currency) : parsed;
+
+        const result = editingAccount
+            ? await updateAccount({ ...editingAccount, name, kind, openingBalance: balance })
+            : await addAccount({ name, kind, openingBalance: balance });
+        if (!result.ok) {
+            Alert.alert(STORAGE_ERROR_TITLES[result.error.category], result.error.message);
+            return;
+        }
+        setIsModalVisible(false);
+    };
+
+    const handleDeleteAccount = (ledger: AccountLedger) => {
+        if (ledgers.length <= 1) {
+            Alert.alert('Cannot Delete', 'You need at least one account to record transactions.');
+            return;
+        }
+        if (ledger.entries.length > 0) {
+            Alert.alert(
+                'Cannot Delete',
+                `"${ledger.account.name}" still has ${ledger.entries.length} transaction(s). Move or delete them first.`
+            );
+            return;
+        }
+
+        Alert.alert('Delete Account', `Are you sure you want to delete "${ledger.account.name}"?`, [
+            { text: 'Cancel', style: 'cancel' },
+            {
+                text: 'Delete',
+                style: 'destructive',
+                onPress: async () => {
+                    if (!(await requireReauth(`Confirm to delete "${ledger.account.name}"`))) return;
+                    const result = await deleteAccount(ledger.account.id);
+                    if (!result.ok) {
+                        Alert.alert(STORAGE_ERROR_TITLES[result.error.category], result.error.message);
+                    }
+                },
+            },
+        ]);
+    };
+
+    if (loadError) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <ErrorState error={loadError} onRetry={reloadStore} />
+            </SafeAreaView>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <ScrollView
+                style={styles.scrollView}
+                refreshControl={
+                    <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+                }
+                showsVerticalScrollIndicator={false}
+                contentContainerStyle={{ paddingBottom: 100 }}
+            >
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Accounts</Text>
+                    {ledgers.map((ledger) => (
+                        <TouchableOpacity
+                            key={ledger.account.id}
+                            style={styles.accountCard}
+                            onPress={() => router.push({ pathname: '/account-ledger', params: { accountId: ledger.account.id } })}
+                            onLongPress={() => handleDeleteAccount(ledger)}
+                            activeOpacity={0.7}
+                        >
+                            <View style={styles.accountHeader}>
+                                <View style={styles.iconCircle}>
+                                    <Ionicons name={ACCOUNT_KIND_ICONS[ledger.account.kind]} size={22} color="#6366f1" />
+                                </View>
+                                <View style={styles.accountInfo}>
+                                    <Text style={styles.accountName}>{ledger.account.name}</Text>
+                                    <Text style={styles.accountMeta}>
+                                        {ACCOUNT_KIND_LABELS[ledger.account.kind]} · {ledger.entries.length} transaction(s)
+                                    </Text>
+                                </View>
+                                <TouchableOpacity
+                                    onPress={() => openEditModal(ledger.account)}
+                                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                                >
+                                    <Text style={styles.editButton}>Edit</Text>
+                                </TouchableOpacity>
+                            </View>
+                            <Text style={[styles.accountBalance, ledger.balance.minor < 0 && styles.negativeText]}>
+                                {formatMoney(ledger.balance)}
+                            </Text>
+                            {ledger.missingRates.length > 0 && (
+                                <Text style={styles.missingRatesText}>
+                                    Leaves out amounts in {ledger.missingRates.join(', ')} until exchange rates are added
+                                </Text>
+                            )}
+                        </TouchableOpacity>
+                    ))}
+                    <Text style={styles.hintText}>Long press an account to delete it</Text>
+                </View>
+            </ScrollView>
+
+            {/* Floating Action Button */}
+            <TouchableOpacity
+                style={styles.fab}
+                onPress={openAddModal}
+                activeOpacity={0.8}
+            >
+                <Text style={styles.fabText}>+</Text>
+            </TouchableOpacity>
+
+            {/* Add / Edit Account Modal */}
+            <Modal
+                animationType="slide"
+                transparent={true}
+                visible={isModalVisible}
+                onRequestClose={() => setIsModalVisible(false)}
+            >
+                <KeyboardAvoidingView
+                    behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+                    style={styles.modalOverlay}
+                >
+                    <View style={styles.modalContent}>
+                        <View style={styles.modalHeader}>
+                            <Text style={styles.modalTitle}>{editingAccount ? 'Edit Account' : 'New Account'}</Text>
+                            <TouchableOpacity onPress={() => setIsModalVisible(false)}>
+                                <Text style={styles.closeButton}>✕</Text>
+                            </TouchableOpacity>
+                        </View>
+
+                        <ScrollView showsVerticalScrollIndicator={false}>
+                            <Text style={styles.inputLabel}>Name</Text>
+                            <TextInput
+                                style={styles.input}
+                                placeholder="e.g., Everyday Checking"
+                                placeholderTextColor="#9ca3af"
+                                value={name}
+                                onChangeText={setName}
+                                maxLength={MAX_ACCOUNT_NAME_LENGTH}
+                            />
+
+                            <Text style={styles.inputLabel}>Type</Text>
+                            <View style={styles.kindRow}>
+                                {ACCOUNT_KINDS.map((option) => (
+                                    <TouchableOpacity
+                                        key={option}
+                                        style={[styles.kindChip, kind === option && styles.kindChipActive]}
+                                        onPress={() => setKind(option)}
+                                    >
+                                        <Text style={[styles.kindChipText, kind === option && styles.kindChipTextActive]}>
+                                            {ACCOUNT_KIND_LABELS[option]}
+                                        </Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+
+                            <Text style={styles.inputLabel}>Opening Balance ({currency})</Text>
+                            <TextInput
+                                style={styles.input}
+                                placeholder="0.00"
+                                placeholderTextColor="#9ca3af"
+                                keyboardType="numbers-and-punctuation"
+                                value={openingBalance}
+                                onChangeText={setOpeningBalance}
+                            />
+                            <Text style={styles.inputHint}>Start with a minus sign for money owed</Text>
+
+                            <Text style={styles.inputLabel}>Currency</Text>
+                            <View style={styles.currencyPicker}>
+                                <CurrencyPicker value={currency} onChange={setCurrency} />
+                            </View>
+
+                            <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+                                <Text style={styles.saveButtonText}>
+                                    {editingAccount ? 'Save Changes' : 'Add Account'}
+                                </Text>
+                            </TouchableOpacity>
+                        </ScrollView>
+                    </View>
+                </KeyboardAvoidingView>
+            </Modal>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8fafc',
+    },
+    scrollView: {
+        flex: 1,
+    },
+    section: {
+        paddingHorizontal: 20,
+        marginBottom: 24,
+        marginTop: 16,
+    },
+    sectionTitle: {
+        fontSize: 22,
+        fontWeight: 'bold',
+        marginBottom: 16,
+        color: '#1f2937',
+    },
+    accountCard: {
+        backgroundColor: '#fff',
+        borderRadius: 16,
+        padding: 16,
+        marginBottom: 12,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.08,
+        shadowRadius: 8,
+        elevation: 3,
+    },
+    accountHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginBottom: 12,
+    },
+    iconCircle: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        backgroundColor: 'rgba(99, 102, 241, 0.1)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        marginRight: 12,
+    },
+    accountInfo: {
+        flex: 1,
+    },
+    accountName: {
+        fontSize: 18,
+        fontWeight: '700',
+        color: '#1f2937',
+    },
+    accountMeta: {
+        fontSize: 13,
+        color: '#6b7280',
+        marginTop: 2,
+    },
+    editButton: {
+        color: '#6366f1',
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    accountBalance: {
+        fontSize: 24,
+        fontWeight: 'bold',
+        color: '#1f2937',
+    },
+    negativeText: {
+        color: '#ef4444',
+    },
+    missingRatesText: {
+        fontSize: 12,
+        color: '#f59e0b',
+        marginTop: 6,
+    },
+    hintText: {
+        fontSize: 13,
+        color: '#9ca3af',
+        textAlign: 'center',
+        marginTop: 8,
+    },
+    fab: {
+        position: 'absolute',
+        bottom: 30,
+        right: 30,
+        width: 60,
+        height: 60,
+        borderRadius: 30,
+        backgroundColor: '#6366f1',
+        justifyContent: 'center',
+        alignItems: 'center',
+        shadowColor: '#6366f1',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+        elevation: 8,
+    },
+    fabText: {
+        color: '#ffffff',
+        fontSize: 32,
+        fontWeight: '400',
+        marginTop: -2,
+    },
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'flex-end',
+    },
+    modalContent: {
+        backgroundColor: '#fff',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        padding: 24,
+        paddingBottom: 40,
+        maxHeight: '90%',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: -2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 10,
+        elevation: 10,
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 24,
+    },
+    modalTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#1f2937',
+    },
+    closeButton: {
+        fontSize: 24,
+        color: '#9ca3af',
+        padding: 4,
+    },
+    inputLabel: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#374151',
+        marginBottom: 8,
+        marginTop: 4,
+    },
+    input: {
+        backgroundColor: '#f9fafb',
+        borderWidth: 2,
+        borderColor: '#e5e7eb',
+        borderRadius: 12,
+        padding: 12,
+        marginBottom: 16,
+        fontSize: 16,
+        color: '#1f2937',
+    },
+    inputHint: {
+        fontSize: 12,
+        color: '#9ca3af',
+        marginTop: -10,
+        marginBottom: 16,
+    },
+    kindRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginBottom: 16,
+    },
+    kindChip: {
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 20,
+        backgroundColor: '#fff',
+        borderWidth: 2,
+        borderColor: '#e5e7eb',
+    },
+    kindChipActive: {
+        backgroundColor: '#6366f1',
+        borderColor: '#6366f1',
+    },
+    kindChipText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#6b7280',
+    },
+    kindChipTextActive: {
+        color: '#fff',
+    },
+    currencyPicker: {
+        marginBottom: 20,
+    },
+    saveButton: {
+        backgroundColor: '#6366f1',
+        borderRadius: 12,
+        padding: 16,
+        alignItems: 'center',
+        shadowColor: '#6366f1',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+        elevation: 4,
+    },
+    saveButtonText: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: '700',
+    },
+});
@@ -1,44 +1,77 @@
 import React, { useState } from 'react';
-import { View, Text, StyleSheet, TextInput, TouchableOpacity, ScrollView } from 'react-native';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, ScrollView, Switch } from 'react-native';
 import { useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { addExpense } from '../services/storage';
+import { addTransaction } from '../services/storage';
 import Toast from '../components/Toast';
 import { useToast } from '../hooks/useToast';
-
-const CATEGORIES = ['Food', 'Transport', 'Shopping', 'Bills', 'Entertainment', 'Other'];
+import { parseMoney, DEFAULT_CURRENCY } from '../types/money';
+import CurrencyPicker from '../components/CurrencyPicker';
+import AccountPicker from '../components/AccountPicker';
+import CategoryPicker from '../components/CategoryPicker';
+import SplitEditor, { SplitLineInput, createSplitLines, parseSplitLines } from '../components/SplitEditor';
+import { Account } from '../types/account';
+import { CategorySplit, validateSplits } from '../types/transaction';
 
 export default function AddExpenseScreen() {
     const router = useRouter();
     const [amount, setAmount] = useState('');
     const [description, setDescription] = useState('');
-    const [category, setCategory] = useState('Food');
+    const [category, setCategory] = useState(''); // Filled with the first category once they load
+    const [isSplit, setIsSplit] = useState(false);
+    const [splitLines, setSplitLines] = useState<SplitLineInput[]>(createSplitLines());
+    const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+    const [accountId, setAccountId] = useState<string | null>(null);
     const { toast, showToast, hideToast } = useToast();
 
+    // Default to the account's own currency; it can still be changed for this transaction
+    const handleAccountChange = (account: Account) => {
+        setAccountId(account.id);
+        setCurrency(account.openingBalance.currency);
+    };
+
     const handleSubmit = async () => {
-        if (!amount || !description) {
+        if (!amount || !description || (!isSplit && !category)) {
             showToast('Please fill in all fields', 'error');
             return;
         }
 
-        const amountNum = parseFloat(amount);
-        if (isNaN(amountNum) || amountNum <= 0) {
+        if (!accountId) {
+            showToast('Please choose an account', 'error');
+            return;
+        }
+
+        const money = parseMoney(amount, currency);
+        if (!money || money.minor <= 0) {
             showToast('Please enter a valid amount', 'error');
             return;
         }
 
-        try {
-            await addExpense({
-                amount: amountNum,
-                description,
-                category,
-                date: new Date().toISOString(),
-            });
-            showToast('Expense added successfully!', 'success');
-            setTimeout(() => router.back(), 1500);
-        } catch (error) {
-            showToast('Failed to add expense', 'error');
+        let splits: CategorySplit[] | undefined;
+        if (isSplit) {
+            splits = parseSplitLines(splitLines, currency) ?? undefined;
+            const splitError = splits ? validateSplits(splits, money) : 'Please enter a valid amount on every line';
+            if (splitError) {
+                showToast(splitError, 'error');
+                return;
+            }
         }
+
+        const result = await addTransaction({
+            type: 'expense',
+            accountId,
+            amount: money,
+            description,
+            category: splits ? splits[0].category : category,
+            splits,
+            date: new Date().toISOString(),
+        });
+        if (!result.ok) {
+            showToast(result.error.message, 'error');
+            return;
+        }
+        showToast('Expense added successfully!', 'success');
+        setTimeout(() => router.back(), 1500);
     };
 
     return (
@@ -53,7 +86,7 @@ export default function AddExpenseScreen() {
                 <View style={styles.form}>
                     {/* Amount Input */}
                     <View style={styles.inputGroup}>
-                        <Text style={styles.label}>Amount ($)</Text>
+                        <Text style={styles.label}>Amount ({currency})</Text>
                         <TextInput
                             style={styles.input}
                             placeholder="0.00"
@@ -63,6 +96,18 @@ export default function AddExpenseScreen() {
                         />
                     </View>
 
+                    {/* Account Selection */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>Account</Text>
+                        <AccountPicker value={accountId} onChange={handleAccountChange} activeColor="#ef4444" />
+                    </View>
+
+                    {/* Currency Selection */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>Currency</Text>
+                        <CurrencyPicker value={currency} onChange={setCurrency} activeColor="#ef4444" />
+                    </View>
+
                     {/* Description Input */}
                     <View style={styles.inputGroup}>
                         <Text style={styles.label}>Description</Text>
@@ -76,29 +121,28 @@ export default function AddExpenseScreen() {
 
                     {/* Category Selection */}
                     <View style={styles.inputGroup}>
-                        <Text style={styles.label}>Category</Text>
-                        <View style={styles.categoryContainer}>
-                            {CATEGORIES.map((cat) => (
-                                <TouchableOpacity
-                                    key={cat}
-                                    style={[
-                                        styles.categoryButton,
-                                        category === cat && styles.categoryButtonActive,
-                                    ]}
-                                    onPress={() => setCategory(cat)}
-                                    activeOpacity={0.7}
-                                >
-                                    <Text
-                                        style={[
-                                            styles.categoryButtonText,
-                                            category === cat && styles.categoryButtonTextActive,
-                                        ]}
-                                    >
-                                        {cat}
-                                    </Text>
-                                </TouchableOpacity>
-                            ))}
+                        <View style={styles.labelRow}>
+                            <Text style={styles.label}>Category</Text>
+                            <View style={styles.splitToggle}>
+                                <Text style={styles.splitToggleText}>Split</Text>
+                                <Switch
+                                    value={isSplit}
+                                    onValueChange={setIsSplit}
+                                    trackColor={{ false: '#d1d5db', true: '#a5b4fc' }}
+                                    thumbColor={isSplit ? '#6366f1' : '#f9fafb'}
+                                />
+                            </View>
                         </View>
+                        {isSplit ? (
+                            <SplitEditor
+                                lines={splitLines}
+                                onChange={setSplitLines}
+                                currency={currency}
+                                total={parseMoney(amount, currency)}
+                            />
+                        ) : (
+                            <CategoryPicker value={category} onChange={setCategory} />
+                        )}
                     </View>
 
                     {/* Submit Button */}
@@ -129,6 +173,22 @@ const styles = StyleSheet.create({
     inputGroup: {
         marginBottom: 24,
     },
+    labelRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    splitToggle: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        marginBottom: 8,
+    },
+    splitToggleText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#6b7280',
+    },
     label: {
         fontSize: 16,
         fontWeight: '600',
@@ -143,31 +203,6 @@ const styles = StyleSheet.create({
         borderWidth: 1,
         borderColor: '#e5e7eb',
     },
-    categoryContainer: {
-        flexDirection: 'row',
-        flexWrap: 'wrap',
-        gap: 8,
-    },
-    categoryButton: {
-        paddingHorizontal: 16,
-        paddingVertical: 10,
-        borderRadius: 20,
-        backgroundColor: '#fff',
-        borderWidth: 2,
-        borderColor: '#e5e7eb',
-    },
-    categoryButtonActive: {
-        backgroundColor: '#6366f1',
-        borderColor: '#6366f1',
-    },
-    categoryButtonText: {
-        fontSize: 14,
-        fontWeight: '600',
-        color: '#6b7280',
-    },
-    categoryButtonTextActive: {
-        color: '#fff',
-    },
     submitButton: {
         backgroundColor: '#ef4444',
         padding: 18,
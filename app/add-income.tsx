@@ -2,42 +2,61 @@ import React, { useState } from 'react';
 import { View, Text, StyleSheet, TextInput, TouchableOpacity, ScrollView } from 'react-native';
 import { useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { addIncome } from '../services/storage';
-import { INCOME_SOURCES } from '../types/income';
+import { addTransaction } from '../services/storage';
+import { INCOME_SOURCES } from '../types/transaction';
 import Toast from '../components/Toast';
 import { useToast } from '../hooks/useToast';
+import { parseMoney, DEFAULT_CURRENCY } from '../types/money';
+import CurrencyPicker from '../components/CurrencyPicker';
+import AccountPicker from '../components/AccountPicker';
+import { Account } from '../types/account';
 
 export default function AddIncomeScreen() {
     const router = useRouter();
     const [amount, setAmount] = useState('');
     const [description, setDescription] = useState('');
     const [source, setSource] = useState('Salary');
+    const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+    const [accountId, setAccountId] = useState<string | null>(null);
     const { toast, showToast, hideToast } = useToast();
 
+    // Default to the account's own currency; it can still be changed for this transaction
+    const handleAccountChange = (account: Account) => {
+        setAccountId(account.id);
+        setCurrency(account.openingBalance.currency);
+    };
+
     const handleSubmit = async () => {
         if (!amount || !description) {
             showToast('Please fill in all fields', 'error');
             return;
         }
 
-        const amountNum = parseFloat(amount);
-        if (isNaN(amountNum) || amountNum <= 0) {
+        if (!accountId) {
+            showToast('Please choose an account', 'error');
+            return;
+        }
+
+        const money = parseMoney(amount, currency);
+        if (!money || money.minor <= 0) {
             showToast('Please enter a valid amount', 'error');
             return;
         }
 
-        try {
-            await addIncome({
-                amount: amountNum,
-                description,
-                source,
-                date: new Date().toISOString(),
-            });
-            showToast('Income added successfully!', 'success');
-            setTimeout(() => router.back(), 1500);
-        } catch (error) {
-            showToast('Failed to add income', 'error');
+        const result = await addTransaction({
+            type: 'income',
+            accountId,
+            amount: money,
+            description,
+            source,
+            date: new Date().toISOString(),
+        });
+        if (!result.ok) {
+            showToast(result.error.message, 'error');
+            return;
         }
+        showToast('Income added successfully!', 'success');
+        setTimeout(() => router.back(), 1500);
     };
 
     return (
@@ -52,7 +71,7 @@ export default function AddIncomeScreen() {
                 <View style={styles.form}>
                     {/* Amount Input */}
                     <View style={styles.inputGroup}>
-                        <Text style={styles.label}>Amount ($)</Text>
+                        <Text style={styles.label}>Amount ({currency})</Text>
                         <TextInput
                             style={styles.input}
                             placeholder="0.00"
@@ -62,6 +81,18 @@ export default function AddIncomeScreen() {
                         />
                     </View>
 
+                    {/* Account Selection */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>Account</Text>
+                        <AccountPicker value={accountId} onChange={handleAccountChange} activeColor="#10b981" />
+                    </View>
+
+                    {/* Currency Selection */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>Currency</Text>
+                        <CurrencyPicker value={currency} onChange={setCurrency} activeColor="#10b981" />
+                    </View>
+
                     {/* Description Input */}
                     <View style={styles.inputGroup}>
                         <Text style={styles.label}>Description</Text>
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, ScrollView } from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { addTransaction } from '../services/storage';
+import Toast from '../components/Toast';
+import { useToast } from '../hooks/useToast';
+import { parseMoney, DEFAULT_CURRENCY } from '../types/money';
+import CurrencyPicker from '../components/CurrencyPicker';
+import AccountPicker from '../components/AccountPicker';
+import { Account } from '../types/account';
+
+export default function AddTransferScreen() {
+    const router = useRouter();
+    const [amount, setAmount] = useState('');
+    const [description, setDescription] = useState('');
+    const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+    const [fromAccountId, setFromAccountId] = useState<string | null>(null);
+    const [toAccountId, setToAccountId] = useState<string | null>(null);
+    const { toast, showToast, hideToast } = useToast();
+
+    // Transfers default to the currency of the account the money leaves
+    const handleFromAccountChange = (account: Account) => {
+        setFromAccountId(account.id);
+        setCurrency(account.openingBalance.currency);
+    };
+
+    const handleSubmit = async () => {
+        if (!amount) {
+            showToast('Please enter an amount', 'error');
+            return;
+        }
+
+        if (!fromAccountId || !toAccountId || fromAccountId === toAccountId) {
+            showToast('Please choose two different accounts', 'error');
+            return;
+        }
+
+        const money = parseMoney(amount, currency);
+        if (!money || money.minor <= 0) {
+            showToast('Please enter a valid amount', 'error');
+            return;
+        }
+
+        const result = await addTransaction({
+            type: 'transfer',
+            accountId: fromAccountId,
+            toAccountId,
+            amount: money,
+            description: description.trim() || 'Transfer',
+            date: new Date().toISOString(),
+        });
+        if (!result.ok) {
+            showToast(result.error.message, 'error');
+            return;
+        }
+        showToast('Transfer added successfully!', 'success');
+        setTimeout(() => router.back(), 1500);
+    };
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <Toast
+                message={toast.message}
+                type={toast.type}
+                visible={toast.visible}
+                onHide={hideToast}
+            />
+            <ScrollView style={styles.content}>
+                <View style={styles.form}>
+                    <Text style={styles.hint}>
+                        Transfers move money between your accounts. They aren't counted as income or expenses.
+                    </Text>
+
+                    {/* Amount Input */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>Amount ({currency})</Text>
+                        <TextInput
+                            style={styles.input}
+                            placeholder="0.00"
+                            keyboardType="decimal-pad"
+                            value={amount}
+                            onChangeText={setAmount}
+                        />
+                    </View>
+
+                    {/* From Account */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>From</Text>
+                        <AccountPicker value={fromAccountId} onChange={handleFromAccountChange} />
+                    </View>
+
+                    {/* To Account */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>To</Text>
+                        <AccountPicker
+                            value={toAccountId}
+                            onChange={(account) => setToAccountId(account.id)}
+                            autoSelect={false}
+                        />
+                    </View>
+
+                    {/* Currency Selection */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>Currency</Text>
+                        <CurrencyPicker value={currency} onChange={setCurrency} />
+                    </View>
+
+                    {/* Description Input */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>Description (Optional)</Text>
+                        <TextInput
+                            style={styles.input}
+                            placeholder="e.g., Credit card payment"
+                            value={description}
+                            onChangeText={setDescription}
+                        />
+                    </View>
+
+                    {/* Submit Button */}
+                    <TouchableOpacity
+                        style={styles.submitButton}
+                        onPress={handleSubmit}
+                        activeOpacity={0.8}
+                    >
+                        <Text style={styles.submitButtonText}>Add Transfer</Text>
+                    </TouchableOpacity>
+                </View>
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8fafc',
+    },
+    content: {
+        flex: 1,
+    },
+    form: {
+        padding: 16,
+    },
+    hint: {
+        fontSize: 14,
+        color: '#6b7280',
+        marginBottom: 24,
+    },
+    inputGroup: {
+        marginBottom: 24,
+    },
+    label: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#1f2937',
+        marginBottom: 8,
+    },
+    input: {
+        backgroundColor: '#fff',
+        padding: 16,
+        borderRadius: 12,
+        fontSize: 16,
+        borderWidth: 1,
+        borderColor: '#e5e7eb',
+    },
+    submitButton: {
+        backgroundColor: '#6366f1',
+        padding: 18,
+        borderRadius: 12,
+        alignItems: 'center',
+        marginTop: 16,
+        shadowColor: '#6366f1',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+        elevation: 5,
+    },
+    submitButtonText: {
+        color: '#fff',
+        fontSize: 18,
+        fontWeight: '600',
+    },
+});
@@ -13,23 +13,28 @@ import {
     ScrollView,
     Animated,
     Dimensions,
+    Switch,
 } from 'react-native';
-import { useFocusEffect } from '@react-navigation/native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import {
-    getExpensesForCurrentMonth,
-    getIncomeForCurrentMonth,
-    calculateMonthlyTotals,
-    deleteExpense,
-    deleteIncome,
-    updateExpense,
-    updateIncome,
+    deleteTransaction,
+    updateTransaction,
 } from '../services/storage';
-import { Expense } from '../types/expense';
-import { Income } from '../types/income';
-
-type Transaction = (Expense | Income) & { type: 'income' | 'expense' };
+import { reloadStore } from '../services/store';
+import { useReauth } from '../hooks/useReauth';
+import { useTransactions } from '../hooks/useTransactions';
+import { usePeriodStats } from '../hooks/usePeriodStats';
+import { useAccounts } from '../hooks/useAccounts';
+import ErrorState from '../components/ErrorState';
+import AccountPicker from '../components/AccountPicker';
+import CategoryPicker from '../components/CategoryPicker';
+import SplitEditor, { SplitLineInput, createSplitLines, parseSplitLines } from '../components/SplitEditor';
+import { createEmptyStats } from '../types/monthPeriod';
+import { formatMoney, formatMoneyInput, parseMoney } from '../types/money';
+import { firstError } from '../types/result';
+import { Transaction, CategorySplit, TRANSACTION_SIGNS, getTransactionLabel, validateSplits } from '../types/transaction';
+import { describeTransfer } from '../types/account';
 
 // --- Toast Component ---
 const Toast = ({ message, type, visible, onHide }: { message: string, type: 'success' | 'error', visible: boolean, onHide: () => void }) => {
@@ -122,15 +127,15 @@ const OptionsModal = ({ visible, onClose, onEdit, onDelete }: { visible: boolean
 };
 
 export default function AllTransactionsScreen() {
-    const [transactions, setTransactions] = useState<Transaction[]>([]);
-    const [totals, setTotals] = useState({
-        totalIncome: 0,
-        totalExpenses: 0,
-        balance: 0,
-        incomeCount: 0,
-        expenseCount: 0,
-    });
     const [refreshing, setRefreshing] = useState(false);
+    const transactionsResult = useTransactions();
+    const statsResult = usePeriodStats();
+    const accountsResult = useAccounts();
+
+    const transactions = transactionsResult?.ok ? transactionsResult.value : [];
+    const accounts = accountsResult?.ok ? accountsResult.value : [];
+    const totals = statsResult?.ok ? statsResult.value : createEmptyStats();
+    const loadError = transactionsResult && statsResult ? firstError(transactionsResult, statsResult) : null;
 
     // Edit Modal State
     const [isEditModalVisible, setIsEditModalVisible] = useState(false);
@@ -139,6 +144,10 @@ export default function AllTransactionsScreen() {
     const [editDescription, setEditDescription] = useState('');
     const [editCategory, setEditCategory] = useState('');
     const [editDate, setEditDate] = useState(new Date());
+    const [editAccountId, setEditAccountId] = useState<string | null>(null);
+    const [editToAccountId, setEditToAccountId] = useState<string | null>(null);
+    const [editIsSplit, setEditIsSplit] = useState(false);
+    const [editSplitLines, setEditSplitLines] = useState<SplitLineInput[]>(createSplitLines());
     const [showDatePicker, setShowDatePicker] = useState(false);
 
     // Interaction State
@@ -148,38 +157,17 @@ export default function AllTransactionsScreen() {
 
     // Toast State
     const [toast, setToast] = useState({ visible: false, message: '', type: 'success' as 'success' | 'error' });
+    const { requireReauth } = useReauth();
 
     const showToast = (message: string, type: 'success' | 'error') => {
         setToast({ visible: true, message, type });
     };
 
-    const loadData = useCallback(async () => {
-        const [expenses, income, monthlyTotals] = await Promise.all([
-            getExpensesForCurrentMonth(),
-            getIncomeForCurrentMonth(),
-            calculateMonthlyTotals(),
-        ]);
-
-        const combinedTransactions: Transaction[] = [
-            ...income.map(item => ({ ...item, type: 'income' as const })),
-            ...expenses.map(item => ({ ...item, type: 'expense' as const })),
-        ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-        setTransactions(combinedTransactions);
-        setTotals(monthlyTotals);
-    }, []);
-
-    useFocusEffect(
-        useCallback(() => {
-            loadData();
-        }, [loadData])
-    );
-
     const onRefresh = useCallback(async () => {
         setRefreshing(true);
-        await loadData();
+        await reloadStore();
         setRefreshing(false);
-    }, [loadData]);
+    }, []);
 
     const handleLongPress = (item: Transaction) => {
         setSelectedTransaction(item);
@@ -201,70 +189,84 @@ export default function AllTransactionsScreen() {
     const handleConfirmDelete = async () => {
         if (!selectedTransaction) return;
 
-        try {
-            if (selectedTransaction.type === 'income') {
-                await deleteIncome(selectedTransaction.id);
-            } else {
-                await deleteExpense(selectedTransaction.id);
-            }
-            setIsDeleteConfirmVisible(false);
-            showToast('Transaction deleted', 'success');
-            await loadData();
-        } catch (error) {
-            console.error('Error deleting transaction:', error);
-            setIsDeleteConfirmVisible(false);
-            showToast('Failed to delete transaction', 'error');
+        setIsDeleteConfirmVisible(false);
+        if (!(await requireReauth('Confirm to delete this transaction'))) return;
+
+        const result = await deleteTransaction(selectedTransaction.id);
+        if (!result.ok) {
+            showToast(result.error.message, 'error');
+            return;
         }
+        showToast('Transaction deleted', 'success');
     };
 
     const openEditModal = (item: Transaction) => {
         setEditingTransaction(item);
-        setEditAmount(item.amount.toString());
+        setEditAmount(formatMoneyInput(item.amount));
         setEditDescription(item.description);
-        setEditCategory(item.type === 'income' ? (item as Income).source : (item as Expense).category);
+        setEditCategory(item.type === 'expense' ? item.category : getTransactionLabel(item));
         setEditDate(new Date(item.date));
+        setEditAccountId(item.accountId);
+        setEditToAccountId(item.type === 'transfer' ? item.toAccountId : null);
+        setEditIsSplit(item.type === 'expense' && !!item.splits);
+        setEditSplitLines(createSplitLines(item.type === 'expense' ? item.splits : undefined));
         setIsEditModalVisible(true);
     };
 
     const handleSaveEdit = async () => {
-        if (!editingTransaction || !editAmount || !editDescription || !editCategory) {
+        const isTransfer = editingTransaction?.type === 'transfer';
+        if (!editingTransaction || !editAmount || !editDescription || (!isTransfer && !editCategory) || !editAccountId) {
             showToast('Please fill in all fields', 'error');
             return;
         }
 
-        const amount = parseFloat(editAmount);
-        if (isNaN(amount) || amount <= 0) {
+        if (isTransfer && (!editToAccountId || editToAccountId === editAccountId)) {
+            showToast('Please choose two different accounts', 'error');
+            return;
+        }
+
+        const amount = parseMoney(editAmount, editingTransaction.amount.currency);
+        if (!amount || amount.minor <= 0) {
             showToast('Please enter a valid amount', 'error');
             return;
         }
 
-        try {
-            if (editingTransaction.type === 'income') {
-                const updatedIncome: Income = {
-                    id: editingTransaction.id,
-                    amount,
-                    description: editDescription,
-                    source: editCategory,
-                    date: editDate.toISOString(),
-                };
-                await updateIncome(updatedIncome);
-            } else {
-                const updatedExpense: Expense = {
-                    id: editingTransaction.id,
-                    amount,
-                    description: editDescription,
-                    category: editCategory,
-                    date: editDate.toISOString(),
-                };
-                await updateExpense(updatedExpense);
+        let splits: CategorySplit[] | undefined;
+        if (editingTransaction.type === 'expense' && editIsSplit) {
+            splits = parseSplitLines(editSplitLines, amount.currency) ?? undefined;
+            const splitError = splits ? validateSplits(splits, amount) : 'Please enter a valid amount on every line';
+            if (splitError) {
+                showToast(splitError, 'error');
+                return;
             }
-            setIsEditModalVisible(false);
-            showToast('Transaction updated', 'success');
-            await loadData();
-        } catch (error) {
-            console.error('Error updating transaction:', error);
-            showToast('Failed to update transaction', 'error');
         }
+
+        const details = {
+            id: editingTransaction.id,
+            accountId: editAccountId,
+            amount,
+            description: editDescription,
+            date: editDate.toISOString(),
+        };
+        let updated: Transaction;
+        switch (editingTransaction.type) {
+            case 'income':
+                updated = { ...details, type: 'income', source: editCategory };
+                break;
+            case 'expense':
+                updated = { ...details, type: 'expense', category: splits ? splits[0].category : editCategory, splits };
+                break;
+            case 'transfer':
+                updated = { ...details, type: 'transfer', toAccountId: editToAccountId! };
+                break;
+        }
+        const result = await updateTransaction(updated);
+        if (!result.ok) {
+            showToast(result.error.message, 'error');
+            return;
+        }
+        setIsEditModalVisible(false);
+        showToast('Transaction updated', 'success');
     };
 
     const onDateChange = (event: any, date?: Date) => {
@@ -281,9 +283,13 @@ export default function AllTransactionsScreen() {
         return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
     };
 
-    const formatAmount = (amount: number) => {
-        return `$${amount.toFixed(2)}`;
-    };
+    if (loadError) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <ErrorState error={loadError} onRetry={reloadStore} />
+            </SafeAreaView>
+        );
+    }
 
     return (
         <SafeAreaView style={styles.container}>
@@ -295,7 +301,7 @@ export default function AllTransactionsScreen() {
                             <View style={styles.totalCard}>
                                 <Text style={styles.totalCardLabel}>Income</Text>
                                 <Text style={[styles.totalCardAmount, styles.incomeText]}>
-                                    {formatAmount(totals.totalIncome)}
+                                    {formatMoney(totals.totalIncome)}
                                 </Text>
                                 <Text style={styles.totalCardCount}>{totals.incomeCount} entries</Text>
                             </View>
@@ -303,15 +309,15 @@ export default function AllTransactionsScreen() {
                             <View style={styles.totalCard}>
                                 <Text style={styles.totalCardLabel}>Expenses</Text>
                                 <Text style={[styles.totalCardAmount, styles.expenseText]}>
-                                    {formatAmount(totals.totalExpenses)}
+                                    {formatMoney(totals.totalExpenses)}
                                 </Text>
                                 <Text style={styles.totalCardCount}>{totals.expenseCount} entries</Text>
                             </View>
                         </View>
 
-                        <View style={[styles.balanceCard, totals.balance >= 0 ? styles.positiveBalance : styles.negativeBalance]}>
+                        <View style={[styles.balanceCard, totals.balance.minor >= 0 ? styles.positiveBalance : styles.negativeBalance]}>
                             <Text style={styles.balanceLabel}>Balance</Text>
-                            <Text style={styles.balanceAmount}>{formatAmount(totals.balance)}</Text>
+                            <Text style={styles.balanceAmount}>{formatMoney(totals.balance)}</Text>
                         </View>
                     </View>
                 )}
@@ -332,30 +338,21 @@ export default function AllTransactionsScreen() {
                         }
                         renderItem={({ item }) => (
                             <TouchableOpacity
-                                style={[styles.transactionCard, item.type === 'income' && styles.incomeCard]}
+                                style={[styles.transactionCard, styles[`${item.type}Card`]]}
                                 onLongPress={() => handleLongPress(item)}
                                 activeOpacity={0.9} // Slight feedback but no action on tap
                                 delayLongPress={300}
                             >
                                 <View style={styles.transactionHeader}>
                                     <Text style={styles.transactionDescription}>{item.description}</Text>
-                                    <Text style={[
-                                        styles.transactionAmount,
-                                        item.type === 'income' ? styles.incomeAmount : styles.expenseAmount
-                                    ]}>
-                                        {item.type === 'income' ? '+' : '-'}{formatAmount(item.amount)}
+                                    <Text style={[styles.transactionAmount, styles[`${item.type}Amount`]]}>
+                                        {TRANSACTION_SIGNS[item.type]}{formatMoney(item.amount)}
                                     </Text>
                                 </View>
                                 <View style={styles.transactionFooter}>
-                                    <View style={[
-                                        styles.categoryBadge,
-                                        item.type === 'income' ? styles.incomeBadge : styles.expenseBadge
-                                    ]}>
-                                        <Text style={[
-                                            styles.categoryText,
-                                            item.type === 'income' ? styles.incomeBadgeText : styles.expenseBadgeText
-                                        ]}>
-                                            {item.type === 'income' ? (item as Income).source : (item as Expense).category}
+                                    <View style={[styles.categoryBadge, styles[`${item.type}Badge`]]}>
+                                        <Text style={[styles.categoryText, styles[`${item.type}BadgeText`]]}>
+                                            {item.type === 'transfer' ? describeTransfer(item, accounts) : getTransactionLabel(item)}
                                         </Text>
                                     </View>
                                     <Text style={styles.transactionDate}>{formatDate(item.date)}</Text>
@@ -386,7 +383,7 @@ export default function AllTransactionsScreen() {
                         </View>
 
                         <ScrollView showsVerticalScrollIndicator={false}>
-                            <Text style={styles.inputLabel}>Amount</Text>
+                            <Text style={styles.inputLabel}>Amount ({editingTransaction?.amount.currency})</Text>
                             <TextInput
                                 style={styles.input}
                                 value={editAmount}
@@ -403,15 +400,64 @@ export default function AllTransactionsScreen() {
                                 placeholder="What was this for?"
                             />
 
-                            <Text style={styles.inputLabel}>
-                                {editingTransaction?.type === 'income' ? 'Source' : 'Category'}
-                            </Text>
-                            <TextInput
-                                style={styles.input}
-                                value={editCategory}
-                                onChangeText={setEditCategory}
-                                placeholder={editingTransaction?.type === 'income' ? 'e.g., Salary' : 'e.g., Food'}
-                            />
+                            {editingTransaction?.type === 'transfer' ? (
+                                <>
+                                    <Text style={styles.inputLabel}>From</Text>
+                                    <View style={styles.accountPicker}>
+                                        <AccountPicker value={editAccountId} onChange={(account) => setEditAccountId(account.id)} />
+                                    </View>
+
+                                    <Text style={styles.inputLabel}>To</Text>
+                                    <View style={styles.accountPicker}>
+                                        <AccountPicker value={editToAccountId} onChange={(account) => setEditToAccountId(account.id)} />
+                                    </View>
+                                </>
+                            ) : (
+                                <>
+                                    <View style={styles.labelRow}>
+                                        <Text style={styles.inputLabel}>
+                                            {editingTransaction?.type === 'income' ? 'Source' : 'Category'}
+                                        </Text>
+                                        {editingTransaction?.type === 'expense' && (
+                                            <View style={styles.splitToggle}>
+                                                <Text style={styles.splitToggleText}>Split</Text>
+                                                <Switch
+                                                    value={editIsSplit}
+                                                    onValueChange={setEditIsSplit}
+                                                    trackColor={{ false: '#d1d5db', true: '#a5b4fc' }}
+                                                    thumbColor={editIsSplit ? '#6366f1' : '#f9fafb'}
+                                                />
+                                            </View>
+                                        )}
+                                    </View>
+                                    {editingTransaction?.type === 'expense' ? (
+                                        <View style={styles.categoryPicker}>
+                                            {editIsSplit ? (
+                                                <SplitEditor
+                                                    lines={editSplitLines}
+                                                    onChange={setEditSplitLines}
+                                                    currency={editingTransaction.amount.currency}
+                                                    total={parseMoney(editAmount, editingTransaction.amount.currency)}
+                                                />
+                                            ) : (
+                                                <CategoryPicker value={editCategory} onChange={setEditCategory} />
+                                            )}
+                                        </View>
+                                    ) : (
+                                        <TextInput
+                                            style={styles.input}
+                                            value={editCategory}
+                                            onChangeText={setEditCategory}
+                                            placeholder="e.g., Salary"
+                                        />
+                                    )}
+
+                                    <Text style={styles.inputLabel}>Account</Text>
+                                    <View style={styles.accountPicker}>
+                                        <AccountPicker value={editAccountId} onChange={(account) => setEditAccountId(account.id)} />
+                                    </View>
+                                </>
+                            )}
 
                             <Text style={styles.inputLabel}>Date</Text>
                             <TouchableOpacity
@@ -563,9 +609,15 @@ const styles = StyleSheet.create({
         borderLeftWidth: 4,
         borderLeftColor: '#ef4444',
     },
+    expenseCard: {
+        borderLeftColor: '#ef4444',
+    },
     incomeCard: {
         borderLeftColor: '#10b981',
     },
+    transferCard: {
+        borderLeftColor: '#6366f1',
+    },
     transactionHeader: {
         flexDirection: 'row',
         justifyContent: 'space-between',
@@ -588,6 +640,9 @@ const styles = StyleSheet.create({
     expenseAmount: {
         color: '#ef4444',
     },
+    transferAmount: {
+        color: '#6366f1',
+    },
     transactionFooter: {
         flexDirection: 'row',
         justifyContent: 'space-between',
@@ -605,6 +660,9 @@ const styles = StyleSheet.create({
     expenseBadge: {
         backgroundColor: '#fee2e2',
     },
+    transferBadge: {
+        backgroundColor: '#e0e7ff',
+    },
     categoryText: {
         fontSize: 12,
         fontWeight: '600',
@@ -615,6 +673,9 @@ const styles = StyleSheet.create({
     expenseBadgeText: {
         color: '#dc2626',
     },
+    transferBadgeText: {
+        color: '#4f46e5',
+    },
     transactionDate: {
         fontSize: 12,
         color: '#6b7280',
@@ -685,6 +746,27 @@ const styles = StyleSheet.create({
         fontSize: 16,
         color: '#1f2937',
     },
+    accountPicker: {
+        marginBottom: 16,
+    },
+    labelRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    splitToggle: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+    },
+    splitToggleText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#6b7280',
+    },
+    categoryPicker: {
+        marginBottom: 16,
+    },
     dateButton: {
         backgroundColor: '#f9fafb',
         borderWidth: 2,
@@ -0,0 +1,482 @@
+import React, { useState, useCallback } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    TextInput,
+    Alert,
+    RefreshControl,
+    Modal,
+    KeyboardAvoidingView,
+    Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { addCategory, updateCategory, renameCategory, reorderCategories } from '../services/storage';
+import { reloadStore } from '../services/store';
+import { useCategories } from '../hooks/useCategories';
+import ErrorState from '../components/ErrorState';
+import {
+    ExpenseCategory,
+    CATEGORY_COLORS,
+    CATEGORY_ICONS,
+    MAX_CATEGORY_NAME_LENGTH,
+    validateCategoryName,
+} from '../types/category';
+import { STORAGE_ERROR_TITLES, StorageError } from '../types/result';
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+export default function CategoriesScreen() {
+    const [refreshing, setRefreshing] = useState(false);
+    const [isModalVisible, setIsModalVisible] = useState(false);
+    const [editingCategory, setEditingCategory] = useState<ExpenseCategory | null>(null);
+    const [name, setName] = useState('');
+    const [color, setColor] = useState(CATEGORY_COLORS[0]);
+    const [icon, setIcon] = useState(CATEGORY_ICONS[0]);
+    const categoriesResult = useCategories();
+
+    const categories = categoriesResult?.ok ? categoriesResult.value : [];
+    const activeCategories = categories.filter(c => !c.archived);
+    const archivedCategories = categories.filter(c => c.archived);
+    const loadError = categoriesResult && !categoriesResult.ok ? categoriesResult.error : null;
+
+    const onRefresh = useCallback(async () => {
+        setRefreshing(true);
+        await reloadStore();
+        setRefreshing(false);
+    }, []);
+
+    const showError = (error: StorageError) => {
+        Alert.alert(STORAGE_ERROR_TITLES[error.category], error.message);
+    };
+
+    const openAddModal = () => {
+        setEditingCategory(null);
+        setName('');
+        setColor(CATEGORY_COLORS[0]);
+        setIcon(CATEGORY_ICONS[0]);
+        setIsModalVisible(true);
+    };
+
+    const openEditModal = (category: ExpenseCategory) => {
+        setEditingCategory(category);
+        setName(category.name);
+        setColor(category.color);
+        setIcon(category.icon);
+        setIsModalVisible(true);
+    };
+
+    const handleSave = async () => {
+        const nameError = validateCategoryName(name, categories, editingCategory?.id);
+        if (nameError) {
+            Alert.alert('Invalid Name', nameError);
+            return;
+        }
+
+        if (!editingCategory) {
+            const result = await addCategory({ name, color, icon });
+            if (!result.ok) {
+                showError(result.error);
+                return;
+            }
+            setIsModalVisible(false);
+            return;
+        }
+
+        // Rename first: it also renames the category on every expense filed under it
+        if (name.trim() !== editingCategory.name) {
+            const renamed = await renameCategory(editingCategory.id, name);
+            if (!renamed.ok) {
+                showError(renamed.error);
+                return;
+            }
+        }
+        const result = await updateCategory({ ...editingCategory, name: name.trim(), color, icon });
+        if (!result.ok) {
+            showError(result.error);
+            return;
+        }
+        setIsModalVisible(false);
+    };
+
+    const handleToggleArchived = async () => {
+        if (!editingCategory) return;
+        if (!editingCategory.archived && activeCategories.length <= 1) {
+            Alert.alert('Cannot Archive', 'Keep at least one category for new expenses.');
+            return;
+        }
+
+        const result = await updateCategory({ ...editingCategory, archived: !editingCategory.archived });
+        if (!result.ok) {
+            showError(result.error);
+            return;
+        }
+        setIsModalVisible(false);
+    };
+
+    const handleMove = async (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= activeCategories.length) return;
+        const ordered = [...activeCategories];
+        [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+        const result = await reorderCategories([...ordered, ...archivedCategories].map(c => c.id));
+        if (!result.ok) {
+            showError(result.error);
+        }
+    };
+
+    const renderCategory = (category: ExpenseCategory, index?: number) => (
+        <TouchableOpacity
+            key={category.id}
+            style={[styles.categoryCard, category.archived && styles.archivedCard]}
+            onPress={() => openEditModal(category)}
+            activeOpacity={0.7}
+        >
+            <View style={[styles.iconCircle, { backgroundColor: `${category.color}1a` }]}>
+                <Ionicons name={category.icon as IconName} size={22} color={category.color} />
+            </View>
+            <Text style={styles.categoryName}>{category.name}</Text>
+            {index !== undefined && (
+                <View style={styles.moveButtons}>
+                    <TouchableOpacity
+                        onPress={() => handleMove(index, -1)}
+                        disabled={index === 0}
+                        hitSlop={{ top: 10, bottom: 10, left: 6, right: 6 }}
+                    >
+                        <Ionicons name="chevron-up" size={22} color={index === 0 ? '#e5e7eb' : '#6b7280'} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                        onPress={() => handleMove(index, 1)}
+                        disabled={index === activeCategories.length - 1}
+                        hitSlop={{ top: 10, bottom: 10, left: 6, right: 6 }}
+                    >
+                        <Ionicons
+                            name="chevron-down"
+                            size={22}
+                            color={index === activeCategories.length - 1 ? '#e5e7eb' : '#6b7280'}
+                        />
+                    </TouchableOpacity>
+                </View>
+            )}
+        </TouchableOpacity>
+    );
+
+    if (loadError) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <ErrorState error={loadError} onRetry={reloadStore} />
+            </SafeAreaView>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <ScrollView
+                style={styles.scrollView}
+                refreshControl={
+                    <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+                }
+                showsVerticalScrollIndicator={false}
+                contentContainerStyle={{ paddingBottom: 100 }}
+            >
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Categories</Text>
+                    {activeCategories.map((category, index) => renderCategory(category, index))}
+                </View>
+
+                {archivedCategories.length > 0 && (
+                    <View style={styles.section}>
+                        <Text style={styles.sectionTitle}>Archived</Text>
+                        <Text style={styles.sectionSubtitle}>
+                            Hidden when adding expenses; existing expenses keep them
+                        </Text>
+                        {archivedCategories.map(category => renderCategory(category))}
+                    </View>
+                )}
+            </ScrollView>
+
+            {/* Floating Action Button */}
+            <TouchableOpacity
+                style={styles.fab}
+                onPress={openAddModal}
+                activeOpacity={0.8}
+            >
+                <Text style={styles.fabText}>+</Text>
+            </TouchableOpacity>
+
+            {/* Add / Edit Category Modal */}
+            <Modal
+                animationType="slide"
+                transparent={true}
+                visible={isModalVisible}
+                onRequestClose={() => setIsModalVisible(false)}
+            >
+                <KeyboardAvoidingView
+                    behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+                    style={styles.modalOverlay}
+                >
+                    <View style={styles.modalContent}>
+                        <View style={styles.modalHeader}>
+                            <Text style={styles.modalTitle}>{editingCategory ? 'Edit Category' : 'New Category'}</Text>
+                            <TouchableOpacity onPress={() => setIsModalVisible(false)}>
+                                <Text style={styles.closeButton}>✕</Text>
+                            </TouchableOpacity>
+                        </View>
+
+                        <ScrollView showsVerticalScrollIndicator={false}>
+                            <Text style={styles.inputLabel}>Name</Text>
+                            <TextInput
+                                style={styles.input}
+                                placeholder="e.g., Groceries"
+                                placeholderTextColor="#9ca3af"
+                                value={name}
+                                onChangeText={setName}
+                                maxLength={MAX_CATEGORY_NAME_LENGTH}
+                            />
+                            {editingCategory && (
+                                <Text style={styles.inputHint}>Renaming also updates existing expenses</Text>
+                            )}
+
+                            <Text style={styles.inputLabel}>Color</Text>
+                            <View style={styles.swatchRow}>
+                                {CATEGORY_COLORS.map((option) => (
+                                    <TouchableOpacity
+                                        key={option}
+                                        style={[styles.swatch, { backgroundColor: option }, color === option && styles.swatchActive]}
+                                        onPress={() => setColor(option)}
+                                    />
+                                ))}
+                            </View>
+
+                            <Text style={styles.inputLabel}>Icon</Text>
+                            <View style={styles.iconGrid}>
+                                {CATEGORY_ICONS.map((option) => (
+                                    <TouchableOpacity
+                                        key={option}
+                                        style={[styles.iconOption, icon === option && { borderColor: color }]}
+                                        onPress={() => setIcon(option)}
+                                    >
+                                        <Ionicons name={option as IconName} size={22} color={icon === option ? color : '#9ca3af'} />
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+
+                            <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+                                <Text style={styles.saveButtonText}>
+                                    {editingCategory ? 'Save Changes' : 'Add Category'}
+                                </Text>
+                            </TouchableOpacity>
+
+                            {editingCategory && (
+                                <TouchableOpacity style={styles.archiveButton} onPress={handleToggleArchived}>
+                                    <Text style={styles.archiveButtonText}>
+                                        {editingCategory.archived ? 'Restore Category' : 'Archive Category'}
+                                    </Text>
+                                </TouchableOpacity>
+                            )}
+                        </ScrollView>
+                    </View>
+                </KeyboardAvoidingView>
+            </Modal>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8fafc',
+    },
+    scrollView: {
+        flex: 1,
+    },
+    section: {
+        paddingHorizontal: 20,
+        marginTop: 16,
+    },
+    sectionTitle: {
+        fontSize: 22,
+        fontWeight: 'bold',
+        marginBottom: 16,
+        color: '#1f2937',
+    },
+    sectionSubtitle: {
+        fontSize: 13,
+        color: '#6b7280',
+        marginTop: -10,
+        marginBottom: 12,
+    },
+    categoryCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#fff',
+        borderRadius: 16,
+        padding: 14,
+        marginBottom: 10,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.08,
+        shadowRadius: 8,
+        elevation: 3,
+    },
+    archivedCard: {
+        opacity: 0.6,
+    },
+    iconCircle: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        justifyContent: 'center',
+        alignItems: 'center',
+        marginRight: 12,
+    },
+    categoryName: {
+        flex: 1,
+        fontSize: 17,
+        fontWeight: '600',
+        color: '#1f2937',
+    },
+    moveButtons: {
+        flexDirection: 'row',
+        gap: 8,
+    },
+    fab: {
+        position: 'absolute',
+        bottom: 30,
+        right: 30,
+        width: 60,
+        height: 60,
+        borderRadius: 30,
+        backgroundColor: '#6366f1',
+        justifyContent: 'center',
+        alignItems: 'center',
+        shadowColor: '#6366f1',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+        elevation: 8,
+    },
+    fabText: {
+        color: '#ffffff',
+        fontSize: 32,
+        fontWeight: '400',
+        marginTop: -2,
+    },
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'flex-end',
+    },
+    modalContent: {
+        backgroundColor: '#fff',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        padding: 24,
+        paddingBottom: 40,
+        maxHeight: '90%',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: -2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 10,
+        elevation: 10,
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 24,
+    },
+    modalTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#1f2937',
+    },
+    closeButton: {
+        fontSize: 24,
+        color: '#9ca3af',
+        padding: 4,
+    },
+    inputLabel: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#374151',
+        marginBottom: 8,
+        marginTop: 4,
+    },
+    input: {
+        backgroundColor: '#f9fafb',
+        borderWidth: 2,
+        borderColor: '#e5e7eb',
+        borderRadius: 12,
+        padding: 12,
+        marginBottom: 16,
+        fontSize: 16,
+        color: '#1f2937',
+    },
+    inputHint: {
+        fontSize: 12,
+        color: '#9ca3af',
+        marginTop: -10,
+        marginBottom: 16,
+    },
+    swatchRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 10,
+        marginBottom: 16,
+    },
+    swatch: {
+        width: 32,
+        height: 32,
+        borderRadius: 16,
+        borderWidth: 3,
+        borderColor: 'transparent',
+    },
+    swatchActive: {
+        borderColor: '#1f2937',
+    },
+    iconGrid: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 10,
+        marginBottom: 20,
+    },
+    iconOption: {
+        width: 44,
+        height: 44,
+        borderRadius: 12,
+        borderWidth: 2,
+        borderColor: '#e5e7eb',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    saveButton: {
+        backgroundColor: '#6366f1',
+        borderRadius: 12,
+        padding: 16,
+        alignItems: 'center',
+        shadowColor: '#6366f1',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+        elevation: 4,
+    },
+    saveButtonText: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: '700',
+    },
+    archiveButton: {
+        padding: 16,
+        alignItems: 'center',
+        marginTop: 8,
+    },
+    archiveButtonText: {
+        color: '#ef4444',
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
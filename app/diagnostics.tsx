@@ -0,0 +1,260 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, RefreshControl, TouchableOpacity, Alert, Share } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { getDiagnostics, clearDiagnostics, buildDiagnosticsReport, logError } from '../services/diagnostics';
+import { DiagnosticEntry, DiagnosticLevel, DIAGNOSTIC_LEVEL_LABELS } from '../types/diagnostics';
+
+type LevelFilter = DiagnosticLevel | 'all';
+
+const FILTERS: LevelFilter[] = ['all', 'error', 'warn', 'info'];
+
+const LEVEL_ICONS: Record<DiagnosticLevel, { name: keyof typeof Ionicons.glyphMap; color: string }> = {
+    error: { name: 'close-circle', color: '#ef4444' },
+    warn: { name: 'alert-circle', color: '#f59e0b' },
+    info: { name: 'information-circle', color: '#6366f1' },
+};
+
+export default function DiagnosticsScreen() {
+    const [entries, setEntries] = useState<DiagnosticEntry[]>([]);
+    const [filter, setFilter] = useState<LevelFilter>('all');
+    const [refreshing, setRefreshing] = useState(false);
+
+    const loadEntries = useCallback(async () => {
+        setEntries(await getDiagnostics());
+    }, []);
+
+    useFocusEffect(
+        useCallback(() => {
+            loadEntries();
+        }, [loadEntries])
+    );
+
+    const onRefresh = useCallback(async () => {
+        setRefreshing(true);
+        await loadEntries();
+        setRefreshing(false);
+    }, [loadEntries]);
+
+    const handleExport = async () => {
+        try {
+            await Share.share({ title: 'Expense Tracker diagnostics', message: await buildDiagnosticsReport() });
+        } catch (error) {
+            logError('Error exporting diagnostics', error);
+            Alert.alert('Error', 'Failed to export diagnostics');
+        }
+    };
+
+    const handleClear = () => {
+        Alert.alert('Clear Diagnostics', 'Remove every entry from the diagnostics log?', [
+            { text: 'Cancel', style: 'cancel' },
+            {
+                text: 'Clear',
+                style: 'destructive',
+                onPress: async () => {
+                    await clearDiagnostics();
+                    await loadEntries();
+                },
+            },
+        ]);
+    };
+
+    const formatTimestamp = (timestamp: string) => {
+        const date = new Date(timestamp);
+        return `${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })} at ${date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false })}`;
+    };
+
+    const visibleEntries = filter === 'all' ? entries : entries.filter(entry => entry.level === filter);
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <ScrollView
+                style={styles.scrollView}
+                refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+            >
+                <View style={styles.summaryCard}>
+                    <Ionicons name="document-text" size={28} color="#6366f1" />
+                    <Text style={styles.summaryText}>
+                        Exports leave out amounts, descriptions and PINs, so they're safe to attach to a bug report
+                    </Text>
+                </View>
+
+                <View style={styles.buttonRow}>
+                    <TouchableOpacity
+                        style={[styles.button, styles.exportButton]}
+                        onPress={handleExport}
+                        activeOpacity={0.8}
+                    >
+                        <Ionicons name="share-outline" size={20} color="#fff" />
+                        <Text style={styles.exportButtonText}>Export</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                        style={[styles.button, styles.clearButton]}
+                        onPress={handleClear}
+                        disabled={entries.length === 0}
+                        activeOpacity={0.8}
+                    >
+                        <Text style={styles.clearButtonText}>Clear</Text>
+                    </TouchableOpacity>
+                </View>
+
+                <View style={styles.filterRow}>
+                    {FILTERS.map((option) => (
+                        <TouchableOpacity
+                            key={option}
+                            style={[styles.filterChip, filter === option && styles.filterChipActive]}
+                            onPress={() => setFilter(option)}
+                        >
+                            <Text style={[styles.filterChipText, filter === option && styles.filterChipTextActive]}>
+                                {option === 'all' ? 'All' : DIAGNOSTIC_LEVEL_LABELS[option]}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+
+                {visibleEntries.length === 0 ? (
+                    <View style={styles.emptyState}>
+                        <Text style={styles.emptyStateText}>Nothing logged</Text>
+                    </View>
+                ) : (
+                    visibleEntries.map((entry) => (
+                        <View key={entry.id} style={styles.entryCard}>
+                            <Ionicons name={LEVEL_ICONS[entry.level].name} size={24} color={LEVEL_ICONS[entry.level].color} />
+                            <View style={styles.entryInfo}>
+                                <Text style={styles.entryTitle}>{entry.message}</Text>
+                                {entry.detail ? <Text style={styles.entryDetail}>{entry.detail}</Text> : null}
+                                <Text style={styles.entryTime}>{formatTimestamp(entry.timestamp)}</Text>
+                            </View>
+                        </View>
+                    ))
+                )}
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8fafc',
+    },
+    scrollView: {
+        flex: 1,
+        paddingHorizontal: 20,
+    },
+    summaryCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        backgroundColor: 'rgba(99, 102, 241, 0.1)',
+        borderRadius: 12,
+        padding: 16,
+        marginTop: 20,
+        marginBottom: 16,
+    },
+    summaryText: {
+        flex: 1,
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#1f2937',
+    },
+    buttonRow: {
+        flexDirection: 'row',
+        gap: 12,
+        marginBottom: 16,
+    },
+    button: {
+        flex: 1,
+        flexDirection: 'row',
+        justifyContent: 'center',
+        alignItems: 'center',
+        gap: 8,
+        paddingVertical: 12,
+        borderRadius: 12,
+    },
+    exportButton: {
+        backgroundColor: '#6366f1',
+    },
+    exportButtonText: {
+        color: '#fff',
+        fontSize: 15,
+        fontWeight: '600',
+    },
+    clearButton: {
+        borderWidth: 2,
+        borderColor: '#e5e7eb',
+    },
+    clearButtonText: {
+        color: '#6b7280',
+        fontSize: 15,
+        fontWeight: '600',
+    },
+    filterRow: {
+        flexDirection: 'row',
+        gap: 8,
+        marginBottom: 16,
+    },
+    filterChip: {
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 20,
+        backgroundColor: '#fff',
+        borderWidth: 1,
+        borderColor: '#e5e7eb',
+    },
+    filterChipActive: {
+        backgroundColor: '#6366f1',
+        borderColor: '#6366f1',
+    },
+    filterChipText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#6b7280',
+    },
+    filterChipTextActive: {
+        color: '#fff',
+    },
+    entryCard: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: 12,
+        backgroundColor: '#fff',
+        borderRadius: 12,
+        padding: 14,
+        marginBottom: 8,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.05,
+        shadowRadius: 2,
+        elevation: 2,
+    },
+    entryInfo: {
+        flex: 1,
+    },
+    entryTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#1f2937',
+        marginBottom: 2,
+    },
+    entryDetail: {
+        fontSize: 13,
+        color: '#6b7280',
+        marginBottom: 2,
+    },
+    entryTime: {
+        fontSize: 12,
+        color: '#9ca3af',
+    },
+    emptyState: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingVertical: 40,
+    },
+    emptyStateText: {
+        fontSize: 18,
+        fontWeight: '600',
+        color: '#9ca3af',
+    },
+});
@@ -0,0 +1,333 @@
+import React, { useState, useCallback } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    TextInput,
+    Alert,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import {
+    getExchangeRates,
+    getHomeCurrency,
+    setExchangeRate,
+    removeExchangeRate,
+    importExchangeRates,
+} from '../services/storage';
+import { logError } from '../services/diagnostics';
+import ErrorState from '../components/ErrorState';
+import { ExchangeRateTable, isValidCurrencyCode, parseExchangeRateFile } from '../types/exchangeRate';
+import { StorageError, STORAGE_ERROR_TITLES, firstError } from '../types/result';
+
+export default function ExchangeRatesScreen() {
+    const [table, setTable] = useState<ExchangeRateTable | null>(null);
+    const [homeCurrency, setHomeCurrency] = useState('');
+    const [currencyInput, setCurrencyInput] = useState('');
+    const [rateInput, setRateInput] = useState('');
+    const [loadError, setLoadError] = useState<StorageError | null>(null);
+
+    const loadRates = useCallback(async () => {
+        const [rates, home] = await Promise.all([getExchangeRates(), getHomeCurrency()]);
+        if (!rates.ok || !home.ok) {
+            setLoadError(firstError(rates, home));
+            return;
+        }
+        setLoadError(null);
+        setTable(rates.value);
+        setHomeCurrency(home.value);
+    }, []);
+
+    useFocusEffect(
+        useCallback(() => {
+            loadRates();
+        }, [loadRates])
+    );
+
+    const handleSaveRate = async () => {
+        const code = currencyInput.trim().toUpperCase();
+        const rate = Number(rateInput.replace(',', '.'));
+
+        if (!isValidCurrencyCode(code)) {
+            Alert.alert('Invalid Currency', 'Enter a 3-letter currency code, e.g. EUR');
+            return;
+        }
+        if (!isFinite(rate) || rate <= 0) {
+            Alert.alert('Invalid Rate', 'Enter a rate greater than zero');
+            return;
+        }
+
+        const result = await setExchangeRate(code, rate);
+        if (!result.ok) {
+            Alert.alert(STORAGE_ERROR_TITLES[result.error.category], result.error.message);
+            return;
+        }
+        setCurrencyInput('');
+        setRateInput('');
+        await loadRates();
+    };
+
+    const handleRemoveRate = (code: string) => {
+        Alert.alert(
+            'Remove Rate',
+            `Remove the ${code} exchange rate? ${code} amounts will be left out of totals until a rate is added again.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Remove',
+                    style: 'destructive',
+                    onPress: async () => {
+                        const result = await removeExchangeRate(code);
+                        if (!result.ok) {
+                            Alert.alert(STORAGE_ERROR_TITLES[result.error.category], result.error.message);
+                            return;
+                        }
+                        await loadRates();
+                    },
+                },
+            ]
+        );
+    };
+
+    const handleImport = async () => {
+        let imported: ExchangeRateTable;
+        try {
+            const picked = await DocumentPicker.getDocumentAsync({
+                type: ['application/json', 'text/csv', 'text/comma-separated-values', 'text/plain'],
+                copyToCacheDirectory: true,
+            });
+            if (picked.canceled) return;
+
+            const contents = await new File(picked.assets[0].uri).text();
+            imported = parseExchangeRateFile(contents, homeCurrency);
+        } catch (error) {
+            logError('Error reading exchange rate file', error);
+            Alert.alert('Import Failed', error instanceof Error ? error.message : 'Could not read the file');
+            return;
+        }
+
+        const result = await importExchangeRates(imported);
+        if (!result.ok) {
+            Alert.alert(STORAGE_ERROR_TITLES[result.error.category], result.error.message);
+            return;
+        }
+        await loadRates();
+        Alert.alert('Success', `Imported ${Object.keys(imported.rates).length - 1} rates based on ${imported.base}`);
+    };
+
+    const rates = table
+        ? Object.entries(table.rates).filter(([code]) => code !== table.base).sort(([a], [b]) => a.localeCompare(b))
+        : [];
+
+    if (loadError) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <ErrorState error={loadError} onRetry={loadRates} />
+            </SafeAreaView>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+                {/* Add Rate */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Add or Update Rate</Text>
+                    <Text style={styles.hint}>
+                        How many units of a currency one {table?.base || homeCurrency} buys
+                    </Text>
+                    <View style={styles.formRow}>
+                        <TextInput
+                            style={[styles.input, styles.codeInput]}
+                            placeholder="EUR"
+                            placeholderTextColor="#9ca3af"
+                            autoCapitalize="characters"
+                            maxLength={3}
+                            value={currencyInput}
+                            onChangeText={(text) => setCurrencyInput(text.toUpperCase())}
+                        />
+                        <TextInput
+                            style={[styles.input, styles.rateInput]}
+                            placeholder="0.92"
+                            placeholderTextColor="#9ca3af"
+                            keyboardType="decimal-pad"
+                            value={rateInput}
+                            onChangeText={setRateInput}
+                        />
+                    </View>
+                    <TouchableOpacity style={styles.primaryButton} onPress={handleSaveRate} activeOpacity={0.8}>
+                        <Text style={styles.primaryButtonText}>Save Rate</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.secondaryButton} onPress={handleImport} activeOpacity={0.8}>
+                        <Text style={styles.secondaryButtonText}>Import from File (JSON or CSV)</Text>
+                    </TouchableOpacity>
+                </View>
+
+                {/* Rate Table */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Rates</Text>
+                    {table && table.base !== homeCurrency && (
+                        <Text style={styles.hint}>
+                            Rates are based on {table.base}; totals are converted to {homeCurrency} through it
+                        </Text>
+                    )}
+                    {rates.length === 0 ? (
+                        <View style={styles.emptyState}>
+                            <Text style={styles.emptyStateText}>No exchange rates yet</Text>
+                            <Text style={styles.emptyStateSubtext}>Add a rate or import a file</Text>
+                        </View>
+                    ) : (
+                        rates.map(([code, rate]) => (
+                            <TouchableOpacity
+                                key={code}
+                                style={styles.rateCard}
+                                onLongPress={() => handleRemoveRate(code)}
+                                activeOpacity={0.9}
+                            >
+                                <Text style={styles.rateCode}>{code}</Text>
+                                <Text style={styles.rateValue}>1 {table?.base} = {rate} {code}</Text>
+                                <TouchableOpacity
+                                    onPress={() => handleRemoveRate(code)}
+                                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                                >
+                                    <Text style={styles.deleteButton}>Remove</Text>
+                                </TouchableOpacity>
+                            </TouchableOpacity>
+                        ))
+                    )}
+                    {table && rates.length > 0 && (
+                        <Text style={styles.updatedText}>
+                            Last updated {new Date(table.updatedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                        </Text>
+                    )}
+                </View>
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8fafc',
+    },
+    scrollView: {
+        flex: 1,
+    },
+    section: {
+        paddingHorizontal: 20,
+        marginTop: 16,
+        marginBottom: 8,
+    },
+    sectionTitle: {
+        fontSize: 22,
+        fontWeight: 'bold',
+        marginBottom: 8,
+        color: '#1f2937',
+    },
+    hint: {
+        fontSize: 13,
+        color: '#6b7280',
+        marginBottom: 12,
+    },
+    formRow: {
+        flexDirection: 'row',
+        gap: 12,
+    },
+    input: {
+        backgroundColor: '#fff',
+        borderWidth: 2,
+        borderColor: '#e5e7eb',
+        borderRadius: 12,
+        padding: 12,
+        marginBottom: 12,
+        fontSize: 16,
+        color: '#1f2937',
+    },
+    codeInput: {
+        width: 90,
+    },
+    rateInput: {
+        flex: 1,
+    },
+    primaryButton: {
+        backgroundColor: '#6366f1',
+        borderRadius: 12,
+        padding: 16,
+        alignItems: 'center',
+        marginBottom: 10,
+    },
+    primaryButtonText: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: '700',
+    },
+    secondaryButton: {
+        backgroundColor: '#fff',
+        borderRadius: 12,
+        padding: 16,
+        alignItems: 'center',
+        borderWidth: 2,
+        borderColor: '#6366f1',
+    },
+    secondaryButtonText: {
+        color: '#6366f1',
+        fontSize: 16,
+        fontWeight: '700',
+    },
+    rateCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#fff',
+        borderRadius: 16,
+        padding: 16,
+        marginBottom: 10,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.08,
+        shadowRadius: 8,
+        elevation: 3,
+    },
+    rateCode: {
+        fontSize: 18,
+        fontWeight: '700',
+        color: '#1f2937',
+        width: 60,
+    },
+    rateValue: {
+        flex: 1,
+        fontSize: 14,
+        color: '#6b7280',
+    },
+    deleteButton: {
+        color: '#ef4444',
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    updatedText: {
+        fontSize: 12,
+        color: '#9ca3af',
+        textAlign: 'center',
+        marginTop: 8,
+        marginBottom: 24,
+    },
+    emptyState: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingVertical: 40,
+    },
+    emptyStateText: {
+        fontSize: 18,
+        fontWeight: '600',
+        color: '#9ca3af',
+        marginBottom: 8,
+    },
+    emptyStateSubtext: {
+        fontSize: 14,
+        color: '#d1d5db',
+    },
+});
@@ -1,73 +1,47 @@
 import React, { useState, useCallback } from 'react';
 import { View, Text, StyleSheet, FlatList, TouchableOpacity, RefreshControl } from 'react-native';
 import { useRouter } from 'expo-router';
-import { useFocusEffect } from '@react-navigation/native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import {
-    getExpensesForCurrentMonth,
-    getIncomeForCurrentMonth,
-    getCurrentMonthPeriod,
-    calculateMonthlyTotals
-} from '../services/storage';
-import { Expense } from '../types/expense';
-import { Income } from '../types/income';
-import { MonthPeriod } from '../types/monthPeriod';
-
-type Transaction = (Expense | Income) & { type: 'income' | 'expense' };
+import { reloadStore } from '../services/store';
+import { useTransactions } from '../hooks/useTransactions';
+import { usePeriods } from '../hooks/usePeriods';
+import { usePeriodStats } from '../hooks/usePeriodStats';
+import { useAccounts } from '../hooks/useAccounts';
+import { createEmptyStats } from '../types/monthPeriod';
+import { formatMoney } from '../types/money';
+import { firstError } from '../types/result';
+import { Transaction, TRANSACTION_SIGNS, getTransactionLabel } from '../types/transaction';
+import { describeTransfer } from '../types/account';
+import ErrorState from '../components/ErrorState';
 
 export default function HomeScreen() {
     const router = useRouter();
-    const [transactions, setTransactions] = useState<Transaction[]>([]);
-    const [monthPeriod, setMonthPeriod] = useState<MonthPeriod | null>(null);
-    const [totals, setTotals] = useState({
-        totalIncome: 0,
-        totalExpenses: 0,
-        balance: 0,
-        incomeCount: 0,
-        expenseCount: 0,
-    });
     const [refreshing, setRefreshing] = useState(false);
+    // Active period; updates as soon as anything is added, edited or deleted
+    const transactionsResult = useTransactions();
+    const periodsResult = usePeriods();
+    const statsResult = usePeriodStats();
+    const accountsResult = useAccounts();
 
-    const loadData = useCallback(async () => {
-        const [expenses, income, period, monthlyTotals] = await Promise.all([
-            getExpensesForCurrentMonth(),
-            getIncomeForCurrentMonth(),
-            getCurrentMonthPeriod(),
-            calculateMonthlyTotals(),
-        ]);
-
-        // Combine and sort transactions
-        const combinedTransactions: Transaction[] = [
-            ...income.map(item => ({ ...item, type: 'income' as const })),
-            ...expenses.map(item => ({ ...item, type: 'expense' as const })),
-        ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-        setTransactions(combinedTransactions.slice(0, 5)); // Get only 5 most recent
-        setMonthPeriod(period);
-        setTotals(monthlyTotals);
-    }, []);
-
-    useFocusEffect(
-        useCallback(() => {
-            loadData();
-        }, [loadData])
-    );
+    const transactions = transactionsResult?.ok ? transactionsResult.value.slice(0, 5) : []; // Only the 5 most recent
+    const monthPeriod = periodsResult?.ok ? periodsResult.value.find(p => p.isActive) || null : null;
+    const totals = statsResult?.ok ? statsResult.value : createEmptyStats();
+    const accounts = accountsResult?.ok ? accountsResult.value : [];
+    const loadError = transactionsResult && periodsResult && statsResult
+        ? firstError(transactionsResult, periodsResult, statsResult)
+        : null;
 
     const onRefresh = useCallback(async () => {
         setRefreshing(true);
-        await loadData();
+        await reloadStore();
         setRefreshing(false);
-    }, [loadData]);
+    }, []);
 
     const formatDate = (dateString: string) => {
         const date = new Date(dateString);
         return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
     };
 
-    const formatAmount = (amount: number) => {
-        return `$${amount.toFixed(2)}`;
-    };
-
     const formatPeriodDates = () => {
         if (!monthPeriod) return 'No active period';
         const start = new Date(monthPeriod.startDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
@@ -75,6 +49,9 @@ export default function HomeScreen() {
         return `${start} - ${end}`;
     };
 
+    const getBadgeText = (item: Transaction) =>
+        item.type === 'transfer' ? describeTransfer(item, accounts) : getTransactionLabel(item);
+
     const getGreeting = () => {
         const hour = new Date().getHours();
         if (hour < 12) return 'Good Morning';
@@ -82,6 +59,14 @@ export default function HomeScreen() {
         return 'Good Evening';
     };
 
+    if (loadError) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <ErrorState error={loadError} onRetry={reloadStore} />
+            </SafeAreaView>
+        );
+    }
+
     return (
         <SafeAreaView style={styles.container}>
             <View style={styles.content}>
@@ -99,24 +84,29 @@ export default function HomeScreen() {
                         <View style={styles.totalItem}>
                             <Text style={styles.totalLabel}>Income</Text>
                             <Text style={[styles.totalValue, styles.incomeText]}>
-                                {formatAmount(totals.totalIncome)}
+                                {formatMoney(totals.totalIncome)}
                             </Text>
                         </View>
                         <View style={styles.totalDivider} />
                         <View style={styles.totalItem}>
                             <Text style={styles.totalLabel}>Expenses</Text>
                             <Text style={[styles.totalValue, styles.expenseText]}>
-                                {formatAmount(totals.totalExpenses)}
+                                {formatMoney(totals.totalExpenses)}
                             </Text>
                         </View>
                         <View style={styles.totalDivider} />
                         <View style={styles.totalItem}>
                             <Text style={styles.totalLabel}>Balance</Text>
-                            <Text style={[styles.totalValue, totals.balance >= 0 ? styles.incomeText : styles.expenseText]}>
-                                {formatAmount(totals.balance)}
+                            <Text style={[styles.totalValue, totals.balance.minor >= 0 ? styles.incomeText : styles.expenseText]}>
+                                {formatMoney(totals.balance)}
                             </Text>
                         </View>
                     </View>
+                    {totals.missingRates.length > 0 && (
+                        <Text style={styles.ratesWarning}>
+                            Totals exclude {totals.missingRates.join(', ')} - add exchange rates in Settings
+                        </Text>
+                    )}
                 </View>
 
                 {/* Action Buttons */}
@@ -136,6 +126,14 @@ export default function HomeScreen() {
                     >
                         <Text style={styles.actionButtonText}>+ Add Expense</Text>
                     </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={[styles.actionButton, styles.transferButton]}
+                        onPress={() => router.push('/add-transfer')}
+                        activeOpacity={0.8}
+                    >
+                        <Text style={styles.actionButtonText}>⇄ Transfer</Text>
+                    </TouchableOpacity>
                 </View>
 
                 {/* Recent Activity Section */}
@@ -156,26 +154,17 @@ export default function HomeScreen() {
                                 <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
                             }
                             renderItem={({ item }) => (
-                                <View style={[styles.transactionCard, item.type === 'income' && styles.incomeCard]}>
+                                <View style={[styles.transactionCard, styles[`${item.type}Card`]]}>
                                     <View style={styles.transactionHeader}>
                                         <Text style={styles.transactionDescription}>{item.description}</Text>
-                                        <Text style={[
-                                            styles.transactionAmount,
-                                            item.type === 'income' ? styles.incomeAmount : styles.expenseAmount
-                                        ]}>
-                                            {item.type === 'income' ? '+' : '-'}{formatAmount(item.amount)}
+                                        <Text style={[styles.transactionAmount, styles[`${item.type}Amount`]]}>
+                                            {TRANSACTION_SIGNS[item.type]}{formatMoney(item.amount)}
                                         </Text>
                                     </View>
                                     <View style={styles.transactionFooter}>
-                                        <View style={[
-                                            styles.categoryBadge,
-                                            item.type === 'income' ? styles.incomeBadge : styles.expenseBadge
-                                        ]}>
-                                            <Text style={[
-                                                styles.categoryText,
-                                                item.type === 'income' ? styles.incomeBadgeText : styles.expenseBadgeText
-                                            ]}>
-                                                {item.type === 'income' ? (item as Income).source : (item as Expense).category}
+                                        <View style={[styles.categoryBadge, styles[`${item.type}Badge`]]}>
+                                            <Text style={[styles.categoryText, styles[`${item.type}BadgeText`]]}>
+                                                {getBadgeText(item)}
                                             </Text>
                                         </View>
                                         <Text style={styles.transactionDate}>{formatDate(item.date)}</Text>
@@ -265,6 +254,12 @@ const styles = StyleSheet.create({
         backgroundColor: 'rgba(255, 255, 255, 0.2)',
         marginHorizontal: 12,
     },
+    ratesWarning: {
+        fontSize: 12,
+        color: '#fde68a',
+        marginTop: 10,
+        textAlign: 'center',
+    },
     incomeText: {
         color: '#10b981',
     },
@@ -295,6 +290,9 @@ const styles = StyleSheet.create({
     expenseButton: {
         backgroundColor: '#ef4444',
     },
+    transferButton: {
+        backgroundColor: '#6366f1',
+    },
     actionButtonText: {
         color: '#fff',
         fontSize: 16,
@@ -323,9 +321,15 @@ const styles = StyleSheet.create({
         borderLeftWidth: 4,
         borderLeftColor: '#ef4444',
     },
+    expenseCard: {
+        borderLeftColor: '#ef4444',
+    },
     incomeCard: {
         borderLeftColor: '#10b981',
     },
+    transferCard: {
+        borderLeftColor: '#6366f1',
+    },
     transactionHeader: {
         flexDirection: 'row',
         justifyContent: 'space-between',
@@ -348,6 +352,9 @@ const styles = StyleSheet.create({
     expenseAmount: {
         color: '#ef4444',
     },
+    transferAmount: {
+        color: '#6366f1',
+    },
     transactionFooter: {
         flexDirection: 'row',
         justifyContent: 'space-between',
@@ -364,6 +371,9 @@ const styles = StyleSheet.create({
     expenseBadge: {
         backgroundColor: '#fee2e2',
     },
+    transferBadge: {
+        backgroundColor: '#e0e7ff',
+    },
     categoryText: {
         fontSize: 12,
         fontWeight: '600',
@@ -374,6 +384,9 @@ const styles = StyleSheet.create({
     expenseBadgeText: {
         color: '#dc2626',
     },
+    transferBadgeText: {
+        color: '#4f46e5',
+    },
     transactionDate: {
         fontSize: 12,
         color: '#6b7280',
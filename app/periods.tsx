@@ -13,92 +13,139 @@ import {
     Dimensions,
 } from 'react-native';
 import { useRouter } from 'expo-router';
-import { useFocusEffect } from '@react-navigation/native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import {
-    getAllPeriods,
-    getActivePeriod,
     setActivePeriod,
     createCustomPeriod,
     deletePeriod,
-    calculateStatsForPeriod,
 } from '../services/storage';
+import { reloadStore } from '../services/store';
+import { useReauth } from '../hooks/useReauth';
+import { usePeriods } from '../hooks/usePeriods';
+import { usePeriodStats } from '../hooks/usePeriodStats';
+import ErrorState from '../components/ErrorState';
 import { MonthPeriod } from '../types/monthPeriod';
-
-interface PeriodWithStats extends MonthPeriod {
-    stats: {
-        totalIncome: number;
-        totalExpenses: number;
-        balance: number;
-        incomeCount: number;
-        expenseCount: number;
-    };
-}
+import { formatMoney } from '../types/money';
+import { STORAGE_ERROR_TITLES } from '../types/result';
 
 const { width } = Dimensions.get('window');
 
+// Each period's totals load on their own and update when its transactions change
+const ActivePeriodStats = ({ periodId }: { periodId: string }) => {
+    const statsResult = usePeriodStats(periodId);
+    if (!statsResult?.ok) return null;
+    const stats = statsResult.value;
+
+    return (
+        <>
+            <View style={styles.statsRow}>
+                <View style={styles.statItem}>
+                    <Text style={styles.statLabel}>Income</Text>
+                    <Text style={[styles.statValue, styles.incomeText]}>
+                        {formatMoney(stats.totalIncome)}
+                    </Text>
+                </View>
+                <View style={styles.statDivider} />
+                <View style={styles.statItem}>
+                    <Text style={styles.statLabel}>Expenses</Text>
+                    <Text style={[styles.statValue, styles.expenseText]}>
+                        {formatMoney(stats.totalExpenses)}
+                    </Text>
+                </View>
+                <View style={styles.statDivider} />
+                <View style={styles.statItem}>
+                    <Text style={styles.statLabel}>Balance</Text>
+                    <Text style={[styles.statValue, stats.balance.minor >= 0 ? styles.incomeText : styles.expenseText]}>
+                        {formatMoney(stats.balance)}
+                    </Text>
+                </View>
+            </View>
+            {stats.categoryTotals.length > 0 && (
+                <View style={styles.categoryBreakdown}>
+                    <Text style={styles.categoryBreakdownTitle}>Spending by Category</Text>
+                    {stats.categoryTotals.map(({ category, total }) => (
+                        <View key={category} style={styles.categoryRow}>
+                            <Text style={styles.categoryName}>{category}</Text>
+                            <Text style={styles.categoryTotal}>{formatMoney(total)}</Text>
+                        </View>
+                    ))}
+                </View>
+            )}
+        </>
+    );
+};
+
+const PeriodCardStats = ({ periodId }: { periodId: string }) => {
+    const statsResult = usePeriodStats(periodId);
+    if (!statsResult?.ok) return null;
+    const stats = statsResult.value;
+
+    return (
+        <View style={styles.periodStatsRow}>
+            <View style={styles.periodStat}>
+                <Text style={styles.periodStatLabel}>Income</Text>
+                <Text style={[styles.periodStatValue, styles.incomeText]}>
+                    {formatMoney(stats.totalIncome)}
+                </Text>
+            </View>
+            <View style={styles.periodStat}>
+                <Text style={styles.periodStatLabel}>Expenses</Text>
+                <Text style={[styles.periodStatValue, styles.expenseText]}>
+                    {formatMoney(stats.totalExpenses)}
+                </Text>
+            </View>
+            <View style={styles.periodStat}>
+                <Text style={styles.periodStatLabel}>Balance</Text>
+                <Text
+                    style={[
+                        styles.periodStatValue,
+                        stats.balance.minor >= 0 ? styles.incomeText : styles.expenseText,
+                    ]}
+                >
+                    {formatMoney(stats.balance)}
+                </Text>
+            </View>
+        </View>
+    );
+};
+
 export default function PeriodsScreen() {
     const router = useRouter();
-    const [periods, setPeriods] = useState<PeriodWithStats[]>([]);
-    const [activePeriod, setActivePeriodState] = useState<MonthPeriod | null>(null);
     const [refreshing, setRefreshing] = useState(false);
     const [showDatePicker, setShowDatePicker] = useState(false);
     const [selectedDate, setSelectedDate] = useState(new Date());
     const [customName, setCustomName] = useState('');
     const [isModalVisible, setIsModalVisible] = useState(false);
+    const { requireReauth } = useReauth();
+    const periodsResult = usePeriods();
 
-    const loadPeriods = useCallback(async () => {
-        const [allPeriods, active] = await Promise.all([
-            getAllPeriods(),
-            getActivePeriod(),
-        ]);
-
-        // Load stats for each period
-        const periodsWithStats = await Promise.all(
-            allPeriods.map(async (period) => ({
-                ...period,
-                stats: await calculateStatsForPeriod(period.id),
-            }))
-        );
-
-        setPeriods(periodsWithStats);
-        setActivePeriodState(active);
-    }, []);
-
-    useFocusEffect(
-        useCallback(() => {
-            loadPeriods();
-        }, [loadPeriods])
-    );
+    const periods = periodsResult?.ok ? periodsResult.value : [];
+    const activePeriod = periods.find(p => p.isActive) || null;
+    const loadError = periodsResult && !periodsResult.ok ? periodsResult.error : null;
 
     const onRefresh = useCallback(async () => {
         setRefreshing(true);
-        await loadPeriods();
+        await reloadStore();
         setRefreshing(false);
-    }, [loadPeriods]);
+    }, []);
 
     const handleCreatePeriod = async () => {
-        try {
-            await createCustomPeriod(selectedDate, customName || undefined);
-            setCustomName('');
-            setShowDatePicker(false);
-            setIsModalVisible(false);
-            await loadPeriods();
-            Alert.alert('Success', 'Period created successfully!');
-        } catch (error) {
-            console.error('Error creating period:', error);
-            Alert.alert('Error', 'Failed to create period');
+        const result = await createCustomPeriod(selectedDate, customName || undefined);
+        if (!result.ok) {
+            Alert.alert(STORAGE_ERROR_TITLES[result.error.category], result.error.message);
+            return;
         }
+        setCustomName('');
+        setShowDatePicker(false);
+        setIsModalVisible(false);
+        Alert.alert('Success', 'Period created successfully!');
     };
 
     const handleSetActive = async (periodId: string) => {
-        try {
-            await setActivePeriod(periodId);
-            await loadPeriods();
-        } catch (error) {
-            console.error('Error setting active period:', error);
-            Alert.alert('Error', 'Failed to set active period');
+        const result = await setActivePeriod(periodId);
+        if (!result.ok) {
+            Alert.alert(STORAGE_ERROR_TITLES[result.error.category], result.error.message);
         }
     };
 
@@ -112,12 +159,10 @@ export default function PeriodsScreen() {
                     text: 'Delete',
                     style: 'destructive',
                     onPress: async () => {
-                        try {
-                            await deletePeriod(period.id);
-                            await loadPeriods();
-                        } catch (error) {
-                            console.error('Error deleting period:', error);
-                            Alert.alert('Error', 'Failed to delete period');
+                        if (!(await requireReauth(`Confirm to delete "${period.name}"`))) return;
+                        const result = await deletePeriod(period.id);
+                        if (!result.ok) {
+                            Alert.alert(STORAGE_ERROR_TITLES[result.error.category], result.error.message);
                         }
                     },
                 },
@@ -125,8 +170,6 @@ export default function PeriodsScreen() {
         );
     };
 
-    const formatAmount = (amount: number) => `$${amount.toFixed(2)}`;
-
     const formatDate = (dateString: string) => {
         const date = new Date(dateString);
         return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
@@ -141,6 +184,14 @@ export default function PeriodsScreen() {
         }
     };
 
+    if (loadError) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <ErrorState error={loadError} onRetry={reloadStore} />
+            </SafeAreaView>
+        );
+    }
+
     return (
         <SafeAreaView style={styles.container}>
             <ScrollView
@@ -165,43 +216,7 @@ export default function PeriodsScreen() {
                             <Text style={styles.activePeriodDates}>
                                 {formatDate(activePeriod.startDate)} - {formatDate(activePeriod.endDate)}
                             </Text>
-                            {periods.find(p => p.id === activePeriod.id) && (
-                                <View style={styles.statsRow}>
-                                    <View style={styles.statItem}>
-                                        <Text style={styles.statLabel}>Income</Text>
-                                        <Text style={[styles.statValue, styles.incomeText]}>
-                                            {formatAmount(
-                                                periods.find(p => p.id === activePeriod.id)!.stats.totalIncome
-                                            )}
-                                        </Text>
-                                    </View>
-                                    <View style={styles.statDivider} />
-                                    <View style={styles.statItem}>
-                                        <Text style={styles.statLabel}>Expenses</Text>
-                                        <Text style={[styles.statValue, styles.expenseText]}>
-                                            {formatAmount(
-                                                periods.find(p => p.id === activePeriod.id)!.stats.totalExpenses
-                                            )}
-                                        </Text>
-                                    </View>
-                                    <View style={styles.statDivider} />
-                                    <View style={styles.statItem}>
-                                        <Text style={styles.statLabel}>Balance</Text>
-                                        <Text
-                                            style={[
-                                                styles.statValue,
-                                                periods.find(p => p.id === activePeriod.id)!.stats.balance >= 0
-                                                    ? styles.incomeText
-                                                    : styles.expenseText,
-                                            ]}
-                                        >
-                                            {formatAmount(
-                                                periods.find(p => p.id === activePeriod.id)!.stats.balance
-                                            )}
-                                        </Text>
-                                    </View>
-                                </View>
-                            )}
+                            <ActivePeriodStats periodId={activePeriod.id} />
                         </View>
                     </View>
                 )}
@@ -245,31 +260,7 @@ export default function PeriodsScreen() {
                                 <Text style={styles.periodDates}>
                                     {formatDate(period.startDate)} - {formatDate(period.endDate)}
                                 </Text>
-                                <View style={styles.periodStatsRow}>
-                                    <View style={styles.periodStat}>
-                                        <Text style={styles.periodStatLabel}>Income</Text>
-                                        <Text style={[styles.periodStatValue, styles.incomeText]}>
-                                            {formatAmount(period.stats.totalIncome)}
-                                        </Text>
-                                    </View>
-                                    <View style={styles.periodStat}>
-                                        <Text style={styles.periodStatLabel}>Expenses</Text>
-                                        <Text style={[styles.periodStatValue, styles.expenseText]}>
-                                            {formatAmount(period.stats.totalExpenses)}
-                                        </Text>
-                                    </View>
-                                    <View style={styles.periodStat}>
-                                        <Text style={styles.periodStatLabel}>Balance</Text>
-                                        <Text
-                                            style={[
-                                                styles.periodStatValue,
-                                                period.stats.balance >= 0 ? styles.incomeText : styles.expenseText,
-                                            ]}
-                                        >
-                                            {formatAmount(period.stats.balance)}
-                                        </Text>
-                                    </View>
-                                </View>
+                                <PeriodCardStats periodId={period.id} />
                             </TouchableOpacity>
                         ))
                     )}
@@ -431,6 +422,34 @@ const styles = StyleSheet.create({
         backgroundColor: 'rgba(255, 255, 255, 0.2)',
         marginHorizontal: 12,
     },
+    categoryBreakdown: {
+        marginTop: 12,
+        backgroundColor: 'rgba(255, 255, 255, 0.15)',
+        borderRadius: 16,
+        padding: 16,
+        borderWidth: 1,
+        borderColor: 'rgba(255, 255, 255, 0.2)',
+    },
+    categoryBreakdownTitle: {
+        fontSize: 12,
+        color: '#c7d2fe',
+        fontWeight: '600',
+        marginBottom: 8,
+    },
+    categoryRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        paddingVertical: 4,
+    },
+    categoryName: {
+        fontSize: 14,
+        color: '#ffffff',
+    },
+    categoryTotal: {
+        fontSize: 14,
+        fontWeight: '700',
+        color: '#ffffff',
+    },
     incomeText: {
         color: '#10b981',
     },
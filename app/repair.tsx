@@ -0,0 +1,234 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { TRANSACTIONS_KEY, STORAGE_KEY, INCOME_STORAGE_KEY, PERIODS_KEY, ACCOUNTS_KEY, CATEGORIES_KEY } from '../services/storage';
+import { getQuarantine, retryQuarantinedCollection, resetQuarantinedCollection } from '../services/integrity';
+import { attempt } from '../services/errors';
+import { logError } from '../services/diagnostics';
+import ErrorState from '../components/ErrorState';
+import { useReauth } from '../hooks/useReauth';
+import { QuarantineEntry } from '../types/quarantine';
+import { StorageError } from '../types/result';
+
+const COLLECTION_LABELS: Record<string, string> = {
+    [TRANSACTIONS_KEY]: 'Transactions',
+    // Older collections, still listed if they were set aside before being merged
+    [STORAGE_KEY]: 'Expenses',
+    [INCOME_STORAGE_KEY]: 'Income',
+    [PERIODS_KEY]: 'Periods',
+    [ACCOUNTS_KEY]: 'Accounts',
+    [CATEGORIES_KEY]: 'Categories',
+};
+
+export default function RepairScreen() {
+    const [entries, setEntries] = useState<QuarantineEntry[]>([]);
+    const [loadError, setLoadError] = useState<StorageError | null>(null);
+    const [busyCollection, setBusyCollection] = useState<string | null>(null);
+    const { requireReauth } = useReauth();
+
+    // A list that can't be read must not look like "All data can be read"
+    const loadEntries = useCallback(async () => {
+        const result = await attempt('loading unreadable data', getQuarantine);
+        if (!result.ok) {
+            setLoadError(result.error);
+            return;
+        }
+        setLoadError(null);
+        setEntries(result.value);
+    }, []);
+
+    useFocusEffect(
+        useCallback(() => {
+            loadEntries();
+        }, [loadEntries])
+    );
+
+    const getLabel = (collection: string) => COLLECTION_LABELS[collection] || collection;
+
+    const handleRetry = async (entry: QuarantineEntry) => {
+        setBusyCollection(entry.collection);
+        try {
+            const recovered = await retryQuarantinedCollection(entry.collection);
+            if (recovered) {
+                Alert.alert('Recovered', `${getLabel(entry.collection)} can be read again.`);
+            } else {
+                Alert.alert('Still Unreadable', `${getLabel(entry.collection)} still can't be read. You can try again later or start fresh.`);
+            }
+            await loadEntries();
+        } finally {
+            setBusyCollection(null);
+        }
+    };
+
+    const handleStartFresh = (entry: QuarantineEntry) => {
+        Alert.alert(
+            'Start Fresh',
+            `Empty ${getLabel(entry.collection)} so you can keep using the app? The unreadable copy stays saved on this device.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Start Fresh',
+                    style: 'destructive',
+                    onPress: async () => {
+                        if (!(await requireReauth(`Confirm to empty ${getLabel(entry.collection)}`))) return;
+                        setBusyCollection(entry.collection);
+                        try {
+                            await resetQuarantinedCollection(entry.collection);
+                            await loadEntries();
+                        } catch (error) {
+                            logError('Error resetting collection', error);
+                            Alert.alert('Error', 'Failed to reset data');
+                        } finally {
+                            setBusyCollection(null);
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const formatTimestamp = (timestamp: string) => {
+        const date = new Date(timestamp);
+        return `${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })} at ${date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false })}`;
+    };
+
+    if (loadError) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <ErrorState error={loadError} onRetry={loadEntries} />
+            </SafeAreaView>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <ScrollView style={styles.scrollView}>
+                <View style={[styles.summaryCard, entries.length > 0 && styles.summaryCardAlert]}>
+                    <Ionicons
+                        name={entries.length > 0 ? 'warning' : 'shield-checkmark'}
+                        size={28}
+                        color={entries.length > 0 ? '#f59e0b' : '#10b981'}
+                    />
+                    <Text style={styles.summaryText}>
+                        {entries.length > 0
+                            ? 'Saving is paused for the data below so nothing overwrites it'
+                            : 'All data can be read'}
+                    </Text>
+                </View>
+
+                {entries.map((entry) => (
+                    <View key={entry.collection} style={styles.entryCard}>
+                        <Text style={styles.entryTitle}>{getLabel(entry.collection)}</Text>
+                        <Text style={styles.entryDetail}>{entry.reason}</Text>
+                        <Text style={styles.entryTime}>Found {formatTimestamp(entry.detectedAt)}</Text>
+
+                        <View style={styles.buttonRow}>
+                            <TouchableOpacity
+                                style={[styles.button, styles.retryButton]}
+                                onPress={() => handleRetry(entry)}
+                                disabled={busyCollection !== null}
+                                activeOpacity={0.8}
+                            >
+                                <Text style={styles.retryButtonText}>Try Again</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={[styles.button, styles.resetButton]}
+                                onPress={() => handleStartFresh(entry)}
+                                disabled={busyCollection !== null}
+                                activeOpacity={0.8}
+                            >
+                                <Text style={styles.resetButtonText}>Start Fresh</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                ))}
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8fafc',
+    },
+    scrollView: {
+        flex: 1,
+        paddingHorizontal: 20,
+    },
+    summaryCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        backgroundColor: 'rgba(16, 185, 129, 0.1)',
+        borderRadius: 12,
+        padding: 16,
+        marginTop: 20,
+        marginBottom: 16,
+    },
+    summaryCardAlert: {
+        backgroundColor: 'rgba(245, 158, 11, 0.1)',
+    },
+    summaryText: {
+        flex: 1,
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#1f2937',
+    },
+    entryCard: {
+        backgroundColor: '#fff',
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 12,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.05,
+        shadowRadius: 2,
+        elevation: 2,
+    },
+    entryTitle: {
+        fontSize: 18,
+        fontWeight: '700',
+        color: '#1f2937',
+        marginBottom: 4,
+    },
+    entryDetail: {
+        fontSize: 14,
+        color: '#6b7280',
+        marginBottom: 4,
+    },
+    entryTime: {
+        fontSize: 12,
+        color: '#9ca3af',
+        marginBottom: 12,
+    },
+    buttonRow: {
+        flexDirection: 'row',
+        gap: 12,
+    },
+    button: {
+        flex: 1,
+        paddingVertical: 12,
+        borderRadius: 12,
+        alignItems: 'center',
+    },
+    retryButton: {
+        backgroundColor: '#6366f1',
+    },
+    retryButtonText: {
+        color: '#fff',
+        fontSize: 15,
+        fontWeight: '600',
+    },
+    resetButton: {
+        borderWidth: 2,
+        borderColor: '#ef4444',
+    },
+    resetButtonText: {
+        color: '#ef4444',
+        fontSize: 15,
+        fontWeight: '600',
+    },
+});
@@ -0,0 +1,177 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { getSecurityLog } from '../services/storage';
+import ErrorState from '../components/ErrorState';
+import { SecurityEvent, SECURITY_EVENT_LABELS, isWarningEvent } from '../types/securityEvent';
+import { StorageError } from '../types/result';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function SecurityLogScreen() {
+    const [events, setEvents] = useState<SecurityEvent[]>([]);
+    const [loadError, setLoadError] = useState<StorageError | null>(null);
+    const [refreshing, setRefreshing] = useState(false);
+
+    const loadEvents = useCallback(async () => {
+        const result = await getSecurityLog();
+        if (!result.ok) {
+            setLoadError(result.error);
+            return;
+        }
+        setLoadError(null);
+        setEvents(result.value);
+    }, []);
+
+    useFocusEffect(
+        useCallback(() => {
+            loadEvents();
+        }, [loadEvents])
+    );
+
+    const onRefresh = useCallback(async () => {
+        setRefreshing(true);
+        await loadEvents();
+        setRefreshing(false);
+    }, [loadEvents]);
+
+    const formatTimestamp = (timestamp: string) => {
+        const date = new Date(timestamp);
+        return `${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })} at ${date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false })}`;
+    };
+
+    const recentFailures = events.filter(
+        event => !event.success && Date.now() - new Date(event.timestamp).getTime() < 7 * DAY_MS
+    ).length;
+
+    if (loadError) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <ErrorState error={loadError} onRetry={loadEvents} />
+            </SafeAreaView>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <ScrollView
+                style={styles.scrollView}
+                refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+            >
+                <View style={[styles.summaryCard, recentFailures > 0 && styles.summaryCardAlert]}>
+                    <Ionicons
+                        name={recentFailures > 0 ? 'warning' : 'shield-checkmark'}
+                        size={28}
+                        color={recentFailures > 0 ? '#ef4444' : '#10b981'}
+                    />
+                    <Text style={styles.summaryText}>
+                        {recentFailures > 0
+                            ? `${recentFailures} failed ${recentFailures === 1 ? 'attempt' : 'attempts'} in the last 7 days`
+                            : 'No failed attempts in the last 7 days'}
+                    </Text>
+                </View>
+
+                {events.length === 0 ? (
+                    <View style={styles.emptyState}>
+                        <Text style={styles.emptyStateText}>No security events yet</Text>
+                    </View>
+                ) : (
+                    events.map((event) => (
+                        <View key={event.id} style={styles.eventCard}>
+                            {isWarningEvent(event.type) ? (
+                                <Ionicons name="alert-circle" size={24} color="#f59e0b" />
+                            ) : (
+                                <Ionicons
+                                    name={event.success ? 'checkmark-circle' : 'close-circle'}
+                                    size={24}
+                                    color={event.success ? '#10b981' : '#ef4444'}
+                                />
+                            )}
+                            <View style={styles.eventInfo}>
+                                <Text style={styles.eventTitle}>
+                                    {SECURITY_EVENT_LABELS[event.type]}{event.success ? '' : ' failed'}
+                                </Text>
+                                {event.detail ? <Text style={styles.eventDetail}>{event.detail}</Text> : null}
+                                <Text style={styles.eventTime}>{formatTimestamp(event.timestamp)}</Text>
+                            </View>
+                        </View>
+                    ))
+                )}
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8fafc',
+    },
+    scrollView: {
+        flex: 1,
+        paddingHorizontal: 20,
+    },
+    summaryCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        backgroundColor: 'rgba(16, 185, 129, 0.1)',
+        borderRadius: 12,
+        padding: 16,
+        marginTop: 20,
+        marginBottom: 16,
+    },
+    summaryCardAlert: {
+        backgroundColor: 'rgba(239, 68, 68, 0.1)',
+    },
+    summaryText: {
+        flex: 1,
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#1f2937',
+    },
+    eventCard: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: 12,
+        backgroundColor: '#fff',
+        borderRadius: 12,
+        padding: 14,
+        marginBottom: 8,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.05,
+        shadowRadius: 2,
+        elevation: 2,
+    },
+    eventInfo: {
+        flex: 1,
+    },
+    eventTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#1f2937',
+        marginBottom: 2,
+    },
+    eventDetail: {
+        fontSize: 14,
+        color: '#6b7280',
+        marginBottom: 2,
+    },
+    eventTime: {
+        fontSize: 12,
+        color: '#9ca3af',
+    },
+    emptyState: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingVertical: 40,
+    },
+    emptyStateText: {
+        fontSize: 18,
+        fontWeight: '600',
+        color: '#9ca3af',
+    },
+});
@@ -0,0 +1,78 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useAccounts } from '../hooks/useAccounts';
+import { Account } from '../types/account';
+
+interface AccountPickerProps {
+    value: string | null;
+    onChange: (account: Account) => void;
+    activeColor?: string;
+    autoSelect?: boolean; // Pick the first account while nothing is selected
+}
+
+/**
+ * Chips for every account. Picks the first account when nothing is selected yet,
+ * unless `autoSelect` is off.
+ */
+export default function AccountPicker({ value, onChange, activeColor = '#6366f1', autoSelect = true }: AccountPickerProps) {
+    const accountsResult = useAccounts();
+    const accounts = accountsResult?.ok ? accountsResult.value : [];
+
+    useEffect(() => {
+        if (autoSelect && value === null && accounts.length > 0) {
+            onChange(accounts[0]);
+        }
+    }, [value, accounts]);
+
+    if (accountsResult && !accountsResult.ok) {
+        return <Text style={styles.errorText}>{accountsResult.error.message}</Text>;
+    }
+
+    return (
+        <View style={styles.container}>
+            {accounts.map((account) => (
+                <TouchableOpacity
+                    key={account.id}
+                    style={[
+                        styles.chip,
+                        value === account.id && { backgroundColor: activeColor, borderColor: activeColor },
+                    ]}
+                    onPress={() => onChange(account)}
+                    activeOpacity={0.7}
+                >
+                    <Text style={[styles.chipText, value === account.id && styles.chipTextActive]}>
+                        {account.name}
+                    </Text>
+                </TouchableOpacity>
+            ))}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    chip: {
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 20,
+        backgroundColor: '#fff',
+        borderWidth: 2,
+        borderColor: '#e5e7eb',
+    },
+    chipText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#6b7280',
+    },
+    chipTextActive: {
+        color: '#fff',
+    },
+    errorText: {
+        fontSize: 14,
+        color: '#ef4444',
+    },
+});
@@ -1,24 +1,63 @@
-import React, { useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert, Dimensions } from 'react-native';
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Dimensions } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { verifyPIN } from '../services/storage';
+import { unlockWithPIN, unlockWithBiometrics, isBiometricUnlockEnabled, getPINMode } from '../services/storage';
+import { getBiometricSupport } from '../services/biometrics';
+import { useLockout } from '../hooks/useLockout';
+import EraseDataButton from './EraseDataButton';
+import LockoutNotice, { showDataErasedAlert } from './LockoutNotice';
+import { PINMode, DEFAULT_PIN_MODE, getPINLengthLimits, getPINKeyboardType } from '../types/pinPolicy';
 
 interface AuthScreenProps {
     onAuthenticate: () => void;
     onForgotPIN?: () => void;
+    onDataWiped?: () => void;
+    onSwitchProfile?: () => void;
+    profileName?: string;
 }
 
 const { width } = Dimensions.get('window');
 
-export default function AuthScreen({ onAuthenticate, onForgotPIN }: AuthScreenProps) {
+export default function AuthScreen({ onAuthenticate, onForgotPIN, onDataWiped, onSwitchProfile, profileName }: AuthScreenProps) {
     const [pin, setPin] = useState('');
     const [error, setError] = useState('');
     const [isVerifying, setIsVerifying] = useState(false);
+    const [pinMode, setPinMode] = useState<PINMode>(DEFAULT_PIN_MODE);
+    const [biometricLabel, setBiometricLabel] = useState<string | null>(null); // null = biometric unlock unavailable
+    const [otherDevice, setOtherDevice] = useState(false); // Bound to another device's keychain - no PIN will work
+    const lockout = useLockout();
+
+    // An unreadable mode gets the full keyboard, which can type either kind of PIN
+    useEffect(() => {
+        getPINMode().then((result) => setPinMode(result.ok ? result.value : 'passphrase'));
+    }, []);
+
+    // Offer biometric unlock straight away when it's turned on; the PIN stays as fallback
+    useEffect(() => {
+        const promptBiometrics = async () => {
+            // If the setting can't be read, the PIN still works
+            const [enabled, support] = await Promise.all([isBiometricUnlockEnabled(), getBiometricSupport()]);
+            if (!enabled.ok || !enabled.value || !support.available) return;
+            setBiometricLabel(support.label);
+            await handleBiometricUnlock();
+        };
+        promptBiometrics();
+    }, []);
+
+    const handleBiometricUnlock = async () => {
+        setError('');
+        const result = await unlockWithBiometrics();
+        if (result.ok && result.value === 'unlocked') {
+            onAuthenticate();
+        }
+    };
 
     const handleUnlock = async () => {
-        if (pin.length < 4) {
-            setError('Please enter your PIN');
+        if (lockout.isLockedOut) return;
+        // Length only - PINs chosen under an older policy must still unlock
+        if (pin.length < getPINLengthLimits('numeric').min) {
+            setError(pinMode === 'numeric' ? 'Please enter your PIN' : 'Please enter your passphrase');
             return;
         }
 
@@ -26,16 +65,25 @@ export default function AuthScreen({ onAuthenticate, onForgotPIN }: AuthScreenPr
         setError('');
 
         try {
-            const isValid = await verifyPIN(pin);
-            if (isValid) {
+            // Also derives the data key from the PIN and unlocks encrypted storage
+            const result = await unlockWithPIN(pin);
+            if (!result.ok && result.error.category === 'other-device') {
+                setError(result.error.message);
+                setOtherDevice(true);
+            } else if (!result.ok) {
+                // Not a wrong PIN - the stored PIN or key couldn't be read
+                setError(`Couldn't check your ${pinMode === 'numeric' ? 'PIN' : 'passphrase'}. ${result.error.message}`);
+            } else if (result.value === 'unlocked') {
                 onAuthenticate();
+            } else if (result.value === 'wiped') {
+                showDataErasedAlert(onDataWiped);
             } else {
-                setError('Incorrect PIN. Please try again.');
+                if (result.value === 'invalid') {
+                    setError(pinMode === 'numeric' ? 'Incorrect PIN. Please try again.' : 'Incorrect passphrase. Please try again.');
+                }
                 setPin('');
+                await lockout.refresh();
             }
-        } catch (error) {
-            setError('An error occurred. Please try again.');
-            console.error(error);
         } finally {
             setIsVerifying(false);
         }
@@ -48,31 +96,50 @@ export default function AuthScreen({ onAuthenticate, onForgotPIN }: AuthScreenPr
                     <Ionicons name="lock-closed-outline" size={80} color="#6366f1" />
                 </View>
                 <Text style={styles.title}>Expense Tracker</Text>
-                <Text style={styles.subtitle}>Secure & Private</Text>
+                <Text style={styles.subtitle}>{profileName || 'Secure & Private'}</Text>
                 <View style={styles.spacer} />
                 <TextInput
                     style={styles.input}
-                    placeholder="Enter PIN"
+                    key={pinMode} // Remount so the keyboard switches once the mode has loaded
+                    placeholder={pinMode === 'numeric' ? 'Enter PIN' : 'Enter passphrase'}
                     placeholderTextColor="#9ca3af"
                     secureTextEntry={true}
-                    keyboardType="numeric"
+                    keyboardType={getPINKeyboardType(pinMode)}
+                    autoCapitalize="none"
+                    autoCorrect={false}
                     value={pin}
                     onChangeText={setPin}
-                    maxLength={6}
+                    maxLength={getPINLengthLimits(pinMode).max}
                 />
-                {error ? <Text style={styles.errorText}>{error}</Text> : null}
+                <LockoutNotice lockout={lockout} error={error} />
+                {otherDevice && onDataWiped && <EraseDataButton onErased={onDataWiped} />}
                 <TouchableOpacity
-                    style={[styles.authButton, isVerifying && styles.authButtonDisabled]}
+                    style={[styles.authButton, (isVerifying || lockout.isLockedOut) && styles.authButtonDisabled]}
                     onPress={handleUnlock}
                     activeOpacity={0.8}
-                    disabled={isVerifying}
+                    disabled={isVerifying || lockout.isLockedOut}
                 >
                     <Ionicons name="key-outline" size={24} color="#fff" style={styles.buttonIcon} />
                     <Text style={styles.authButtonText}>
-                        {isVerifying ? 'Verifying...' : 'Unlock'}
+                        {isVerifying ? 'Verifying...' : lockout.isLockedOut ? 'Locked' : 'Unlock'}
                     </Text>
                 </TouchableOpacity>
 
+                {biometricLabel && (
+                    <TouchableOpacity
+                        style={styles.biometricButton}
+                        onPress={handleBiometricUnlock}
+                        activeOpacity={0.7}
+                    >
+                        <Ionicons
+                            name={biometricLabel === 'Face ID' ? 'scan-outline' : 'finger-print-outline'}
+                            size={24}
+                            color="#6366f1"
+                        />
+                        <Text style={styles.biometricButtonText}>Use {biometricLabel}</Text>
+                    </TouchableOpacity>
+                )}
+
                 {onForgotPIN && (
                     <TouchableOpacity
                         style={styles.forgotPINButton}
@@ -82,6 +149,16 @@ export default function AuthScreen({ onAuthenticate, onForgotPIN }: AuthScreenPr
                         <Text style={styles.forgotPINText}>Forgot PIN?</Text>
                     </TouchableOpacity>
                 )}
+
+                {onSwitchProfile && (
+                    <TouchableOpacity
+                        style={styles.forgotPINButton}
+                        onPress={onSwitchProfile}
+                        activeOpacity={0.7}
+                    >
+                        <Text style={styles.forgotPINText}>Switch Profile</Text>
+                    </TouchableOpacity>
+                )}
             </View>
         </SafeAreaView>
     );
@@ -134,10 +211,6 @@ const styles = StyleSheet.create({
         fontSize: 18,
         color: '#1f2937',
     },
-    errorText: {
-        color: '#ef4444',
-        marginBottom: 10,
-    },
     authButton: {
         backgroundColor: '#6366f1',
         flexDirection: 'row',
@@ -166,6 +239,18 @@ const styles = StyleSheet.create({
         backgroundColor: '#9ca3af',
         shadowOpacity: 0.1,
     },
+    biometricButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginTop: 20,
+        paddingVertical: 10,
+    },
+    biometricButtonText: {
+        color: '#6366f1',
+        fontSize: 16,
+        fontWeight: '600',
+    },
     forgotPINButton: {
         marginTop: 20,
         paddingVertical: 10,
@@ -0,0 +1,112 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useCategories } from '../hooks/useCategories';
+import { ExpenseCategory } from '../types/category';
+
+interface CategoryPickerProps {
+    value: string; // Category name, '' while nothing is selected
+    onChange: (name: string) => void;
+    horizontal?: boolean; // One scrolling row of smaller chips, for tight spaces
+}
+
+/**
+ * Chips for every category that isn't archived, each in its own color.
+ * Picks the first one while nothing is selected. An archived or unknown
+ * current value is still shown, so editing an older expense keeps its category.
+ */
+export default function CategoryPicker({ value, onChange, horizontal = false }: CategoryPickerProps) {
+    const categoriesResult = useCategories();
+    const categories = categoriesResult?.ok ? categoriesResult.value : [];
+    const active = categories.filter(category => !category.archived);
+    const current = categories.find(category => category.name === value);
+
+    useEffect(() => {
+        if (value === '' && active.length > 0) {
+            onChange(active[0].name);
+        }
+    }, [value, active.length]);
+
+    if (categoriesResult && !categoriesResult.ok) {
+        return <Text style={styles.errorText}>{categoriesResult.error.message}</Text>;
+    }
+
+    const options: Pick<ExpenseCategory, 'name' | 'color' | 'icon'>[] = [...active];
+    if (value && !active.some(category => category.name === value)) {
+        options.push(current ?? { name: value, color: '#6b7280', icon: 'pricetag-outline' });
+    }
+
+    const chips = options.map((category) => {
+        const selected = category.name === value;
+        return (
+            <TouchableOpacity
+                key={category.name}
+                style={[
+                    styles.chip,
+                    horizontal && styles.chipSmall,
+                    selected && { backgroundColor: category.color, borderColor: category.color },
+                ]}
+                onPress={() => onChange(category.name)}
+                activeOpacity={0.7}
+            >
+                <Ionicons
+                    name={category.icon as keyof typeof Ionicons.glyphMap}
+                    size={horizontal ? 14 : 16}
+                    color={selected ? '#fff' : category.color}
+                />
+                <Text style={[styles.chipText, horizontal && styles.chipTextSmall, selected && styles.chipTextActive]}>
+                    {category.name}
+                </Text>
+            </TouchableOpacity>
+        );
+    });
+
+    return horizontal ? (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.container}>
+            {chips}
+        </ScrollView>
+    ) : (
+        <View style={[styles.container, styles.wrap]}>{chips}</View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flexDirection: 'row',
+        gap: 8,
+    },
+    wrap: {
+        flexWrap: 'wrap',
+    },
+    chip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingHorizontal: 16,
+        paddingVertical: 10,
+        borderRadius: 20,
+        backgroundColor: '#fff',
+        borderWidth: 2,
+        borderColor: '#e5e7eb',
+    },
+    chipSmall: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+    },
+    chipText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#6b7280',
+    },
+    chipTextSmall: {
+        fontSize: 13,
+    },
+    chipTextActive: {
+        color: '#fff',
+    },
+    errorText: {
+        fontSize: 14,
+        color: '#ef4444',
+    },
+});
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { getHomeCurrency, getExchangeRates } from '../services/storage';
+import { CurrencyCode } from '../types/money';
+import { StorageError, firstError } from '../types/result';
+
+interface CurrencyPickerProps {
+    value: CurrencyCode;
+    onChange: (currency: CurrencyCode) => void;
+    activeColor?: string;
+}
+
+/**
+ * Chips for the home currency plus every currency in the exchange-rate table
+ */
+export default function CurrencyPicker({ value, onChange, activeColor = '#6366f1' }: CurrencyPickerProps) {
+    const [currencies, setCurrencies] = useState<CurrencyCode[]>([value]);
+    const [error, setError] = useState<StorageError | null>(null);
+
+    useEffect(() => {
+        const loadCurrencies = async () => {
+            const [homeCurrency, table] = await Promise.all([getHomeCurrency(), getExchangeRates()]);
+            if (!homeCurrency.ok || !table.ok) {
+                setError(firstError(homeCurrency, table));
+                return;
+            }
+            setError(null);
+            const codes = new Set<CurrencyCode>([homeCurrency.value, table.value.base, ...Object.keys(table.value.rates), value]);
+            setCurrencies(Array.from(codes));
+        };
+        loadCurrencies();
+    }, [value]);
+
+    if (error) {
+        return <Text style={styles.errorText}>{error.message}</Text>;
+    }
+
+    return (
+        <View style={styles.container}>
+            {currencies.map((code) => (
+                <TouchableOpacity
+                    key={code}
+                    style={[
+                        styles.chip,
+                        value === code && { backgroundColor: activeColor, borderColor: activeColor },
+                    ]}
+                    onPress={() => onChange(code)}
+                    activeOpacity={0.7}
+                >
+                    <Text style={[styles.chipText, value === code && styles.chipTextActive]}>
+                        {code}
+                    </Text>
+                </TouchableOpacity>
+            ))}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    chip: {
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 20,
+        backgroundColor: '#fff',
+        borderWidth: 2,
+        borderColor: '#e5e7eb',
+    },
+    chipText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#6b7280',
+    },
+    chipTextActive: {
+        color: '#fff',
+    },
+    errorText: {
+        fontSize: 14,
+        color: '#ef4444',
+    },
+});
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { eraseDataFromOtherDevice } from '../services/storage';
+import { STORAGE_ERROR_TITLES } from '../types/result';
+
+interface EraseDataButtonProps {
+    onErased: () => void;
+}
+
+/**
+ * The way out when the data is bound to another device's keychain and no PIN
+ * or recovery code can open it here
+ */
+export default function EraseDataButton({ onErased }: EraseDataButtonProps) {
+    const [isErasing, setIsErasing] = useState(false);
+
+    const erase = async () => {
+        setIsErasing(true);
+        const result = await eraseDataFromOtherDevice();
+        setIsErasing(false);
+        if (result.ok) {
+            onErased();
+        } else {
+            Alert.alert(STORAGE_ERROR_TITLES[result.error.category], result.error.message);
+        }
+    };
+
+    const handlePress = () => {
+        Alert.alert(
+            'Erase and Start Over?',
+            'Everything in this profile will be erased and you\'ll set up a new PIN. This can\'t be undone.',
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Erase', style: 'destructive', onPress: erase },
+            ]
+        );
+    };
+
+    return (
+        <TouchableOpacity
+            style={styles.button}
+            onPress={handlePress}
+            activeOpacity={0.7}
+            disabled={isErasing}
+        >
+            <Text style={styles.buttonText}>{isErasing ? 'Erasing...' : 'Erase and Start Over'}</Text>
+        </TouchableOpacity>
+    );
+}
+
+const styles = StyleSheet.create({
+    button: {
+        borderWidth: 1,
+        borderColor: '#ef4444',
+        borderRadius: 12,
+        paddingVertical: 12,
+        paddingHorizontal: 24,
+        marginBottom: 16,
+    },
+    buttonText: {
+        color: '#ef4444',
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
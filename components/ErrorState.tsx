@@ -0,0 +1,92 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { StorageError, STORAGE_ERROR_TITLES, needsRepair } from '../types/result';
+
+interface ErrorStateProps {
+    error: StorageError;
+    onRetry: () => void;
+}
+
+/**
+ * Shown in place of a screen's content when its data couldn't be loaded,
+ * so a failure never looks like an empty ledger
+ */
+export default function ErrorState({ error, onRetry }: ErrorStateProps) {
+    const router = useRouter();
+    const repairable = needsRepair(error);
+
+    return (
+        <View style={styles.container}>
+            <Ionicons
+                name={error.category === 'locked' ? 'lock-closed' : 'warning'}
+                size={64}
+                color={repairable ? '#f59e0b' : '#ef4444'}
+            />
+            <Text style={styles.title}>{STORAGE_ERROR_TITLES[error.category]}</Text>
+            <Text style={styles.message}>{error.message}</Text>
+            {repairable && (
+                <TouchableOpacity
+                    style={styles.primaryButton}
+                    onPress={() => router.push('/repair')}
+                    activeOpacity={0.8}
+                >
+                    <Text style={styles.primaryButtonText}>Review & Repair</Text>
+                </TouchableOpacity>
+            )}
+            <TouchableOpacity
+                style={repairable ? styles.secondaryButton : styles.primaryButton}
+                onPress={onRetry}
+                activeOpacity={0.8}
+            >
+                <Text style={repairable ? styles.secondaryButtonText : styles.primaryButtonText}>Try Again</Text>
+            </TouchableOpacity>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingHorizontal: 30,
+    },
+    title: {
+        fontSize: 22,
+        fontWeight: 'bold',
+        color: '#1f2937',
+        marginTop: 16,
+        marginBottom: 8,
+        textAlign: 'center',
+    },
+    message: {
+        fontSize: 15,
+        color: '#6b7280',
+        textAlign: 'center',
+        lineHeight: 22,
+        marginBottom: 24,
+    },
+    primaryButton: {
+        backgroundColor: '#6366f1',
+        paddingVertical: 16,
+        paddingHorizontal: 32,
+        borderRadius: 16,
+        marginBottom: 12,
+    },
+    primaryButtonText: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: '700',
+    },
+    secondaryButton: {
+        paddingVertical: 12,
+        paddingHorizontal: 32,
+    },
+    secondaryButtonText: {
+        color: '#6366f1',
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
@@ -1,23 +1,39 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { verifyRecoveryCode, setPIN, setRecoveryCode } from '../services/storage';
+import { unlockWithRecoveryCode, resetPIN, cancelPINReset, getPINMode, getRemainingRecoveryCodes, regenerateRecoveryCodes } from '../services/storage';
+import { useLockout } from '../hooks/useLockout';
+import PINModeToggle from './PINModeToggle';
+import EraseDataButton from './EraseDataButton';
+import LockoutNotice, { showDataErasedAlert } from './LockoutNotice';
+import { PINMode, DEFAULT_PIN_MODE, validatePIN, getPINLengthLimits, getPINKeyboardType } from '../types/pinPolicy';
 
 interface ForgotPINScreenProps {
     onSuccess: () => void;
     onCancel: () => void;
+    onDataWiped?: () => void;
 }
 
-export default function ForgotPINScreen({ onSuccess, onCancel }: ForgotPINScreenProps) {
+export default function ForgotPINScreen({ onSuccess, onCancel, onDataWiped }: ForgotPINScreenProps) {
     const [step, setStep] = useState<'recovery' | 'newpin' | 'confirm'>('recovery');
     const [recoveryCodeInput, setRecoveryCodeInput] = useState('');
+    const [pinMode, setPinMode] = useState<PINMode>(DEFAULT_PIN_MODE);
     const [newPin, setNewPin] = useState('');
     const [confirmPin, setConfirmPin] = useState('');
     const [error, setError] = useState('');
     const [isVerifying, setIsVerifying] = useState(false);
+    const [otherDevice, setOtherDevice] = useState(false); // Bound to another device's keychain - no code will work
+    const lockout = useLockout();
+    const { min, max } = getPINLengthLimits(pinMode);
+
+    // Start from the current mode; the user can switch while choosing the new PIN
+    useEffect(() => {
+        getPINMode().then((result) => result.ok && setPinMode(result.value));
+    }, []);
 
     const handleVerifyRecoveryCode = async () => {
+        if (lockout.isLockedOut) return;
         if (!recoveryCodeInput.trim()) {
             setError('Please enter your recovery code');
             return;
@@ -27,24 +43,31 @@ export default function ForgotPINScreen({ onSuccess, onCancel }: ForgotPINScreen
         setError('');
 
         try {
-            const isValid = await verifyRecoveryCode(recoveryCodeInput);
-            if (isValid) {
+            // Unwraps the data key with the recovery code so it can be re-wrapped for the new PIN
+            const result = await unlockWithRecoveryCode(recoveryCodeInput);
+            if (!result.ok && result.error.category === 'other-device') {
+                setError(result.error.message);
+                setOtherDevice(true);
+            } else if (!result.ok) {
+                setError(`Couldn't check your recovery code. ${result.error.message}`);
+            } else if (result.value === 'unlocked') {
                 setStep('newpin');
+            } else if (result.value === 'wiped') {
+                showDataErasedAlert(onDataWiped);
             } else {
-                setError('Invalid recovery code. Please try again.');
+                if (result.value === 'invalid') setError('Invalid recovery code. Please try again.');
                 setRecoveryCodeInput('');
+                await lockout.refresh();
             }
-        } catch (error) {
-            setError('An error occurred. Please try again.');
-            console.error(error);
         } finally {
             setIsVerifying(false);
         }
     };
 
     const handleNewPinSubmit = () => {
-        if (newPin.length < 4) {
-            setError('PIN must be at least 4 digits');
+        const policyError = validatePIN(newPin, pinMode);
+        if (policyError) {
+            setError(policyError);
             return;
         }
         setError('');
@@ -58,25 +81,45 @@ export default function ForgotPINScreen({ onSuccess, onCancel }: ForgotPINScreen
             return;
         }
 
-        try {
-            await setPIN(newPin);
-            // Generate new recovery code after reset
-            const newRecoveryCode = await setRecoveryCode();
+        // Spends the recovery code only now that the new PIN is saved
+        const reset = await resetPIN(newPin, pinMode);
+        if (!reset.ok) {
+            setError(reset.error.message);
+            return;
+        }
 
-            Alert.alert(
-                'PIN Reset Successful',
-                `Your PIN has been reset.\n\nNew Recovery Code:\n${newRecoveryCode}\n\nPlease save this new code in a safe place.`,
-                [
-                    {
-                        text: 'OK',
-                        onPress: onSuccess
-                    }
-                ]
-            );
-        } catch (error) {
-            setError('Failed to reset PIN. Please try again.');
-            console.error(error);
+        // The code just used is spent; start a new set only once none are left
+        const remaining = await getRemainingRecoveryCodes();
+        let message: string;
+        if (!remaining.ok) {
+            // Regenerating now could throw away codes that still work
+            message = 'Your PIN has been reset.\n\nYour remaining recovery codes couldn\'t be counted. Check them in Settings.';
+        } else if (remaining.value > 0) {
+            message = `Your PIN has been reset.\n\nYou have ${remaining.value} recovery ${remaining.value === 1 ? 'code' : 'codes'} left.`;
+        } else {
+            // The new PIN is already saved, so a failure here doesn't undo the reset
+            const codes = await regenerateRecoveryCodes();
+            message = codes.ok
+                ? `Your PIN has been reset.\n\nNew Recovery Codes:\n${codes.value.join('\n')}\n\nPlease save these new codes in a safe place.`
+                : `Your PIN has been reset, but new recovery codes couldn't be created. ${codes.error.message}\n\nGenerate new codes in Settings.`;
         }
+
+        Alert.alert(
+            'PIN Reset Successful',
+            message,
+            [
+                {
+                    text: 'OK',
+                    onPress: onSuccess
+                }
+            ]
+        );
+    };
+
+    // Past the first step storage is unlocked; lock it again before leaving
+    const handleCancel = () => {
+        if (step !== 'recovery') cancelPINReset();
+        onCancel();
     };
 
     return (
@@ -86,7 +129,7 @@ export default function ForgotPINScreen({ onSuccess, onCancel }: ForgotPINScreen
                     {/* Header with back button */}
                     <TouchableOpacity
                         style={styles.backButton}
-                        onPress={onCancel}
+                        onPress={handleCancel}
                         activeOpacity={0.7}
                     >
                         <Ionicons name="arrow-back" size={24} color="#6366f1" />
@@ -130,15 +173,16 @@ export default function ForgotPINScreen({ onSuccess, onCancel }: ForgotPINScreen
                                 autoCapitalize="characters"
                                 autoFocus
                             />
-                            {error ? <Text style={styles.errorText}>{error}</Text> : null}
+                            <LockoutNotice lockout={lockout} error={error} />
+                            {otherDevice && onDataWiped && <EraseDataButton onErased={onDataWiped} />}
                             <TouchableOpacity
-                                style={[styles.button, isVerifying && styles.buttonDisabled]}
+                                style={[styles.button, (isVerifying || lockout.isLockedOut) && styles.buttonDisabled]}
                                 onPress={handleVerifyRecoveryCode}
                                 activeOpacity={0.8}
-                                disabled={isVerifying}
+                                disabled={isVerifying || lockout.isLockedOut}
                             >
                                 <Text style={styles.buttonText}>
-                                    {isVerifying ? 'Verifying...' : 'Verify Code'}
+                                    {isVerifying ? 'Verifying...' : lockout.isLockedOut ? 'Locked' : 'Verify Code'}
                                 </Text>
                                 <Ionicons name="checkmark-circle" size={24} color="#fff" />
                             </TouchableOpacity>
@@ -148,18 +192,31 @@ export default function ForgotPINScreen({ onSuccess, onCancel }: ForgotPINScreen
                     {/* Step 2: Enter New PIN */}
                     {step === 'newpin' && (
                         <>
+                            <PINModeToggle
+                                value={pinMode}
+                                onChange={(mode) => {
+                                    setPinMode(mode);
+                                    setNewPin('');
+                                    setError('');
+                                }}
+                            />
                             <TextInput
+                                key={pinMode} // Remount so the keyboard switches
                                 style={styles.input}
-                                placeholder="Enter New PIN (at least 4 digits)"
+                                placeholder={pinMode === 'numeric'
+                                    ? `Enter New PIN (${min}-${max} digits)`
+                                    : `Enter New Passphrase (at least ${min} characters)`}
                                 placeholderTextColor="#9ca3af"
                                 secureTextEntry={true}
-                                keyboardType="numeric"
+                                keyboardType={getPINKeyboardType(pinMode)}
+                                autoCapitalize="none"
+                                autoCorrect={false}
                                 value={newPin}
                                 onChangeText={(text) => {
                                     setNewPin(text);
                                     setError('');
                                 }}
-                                maxLength={6}
+                                maxLength={max}
                                 autoFocus
                             />
                             {error ? <Text style={styles.errorText}>{error}</Text> : null}
@@ -179,16 +236,18 @@ export default function ForgotPINScreen({ onSuccess, onCancel }: ForgotPINScreen
                         <>
                             <TextInput
                                 style={styles.input}
-                                placeholder="Confirm New PIN"
+                                placeholder={pinMode === 'numeric' ? 'Confirm New PIN' : 'Confirm New Passphrase'}
                                 placeholderTextColor="#9ca3af"
                                 secureTextEntry={true}
-                                keyboardType="numeric"
+                                keyboardType={getPINKeyboardType(pinMode)}
+                                autoCapitalize="none"
+                                autoCorrect={false}
                                 value={confirmPin}
                                 onChangeText={(text) => {
                                     setConfirmPin(text);
                                     setError('');
                                 }}
-                                maxLength={6}
+                                maxLength={max}
                                 autoFocus
                             />
                             {error ? <Text style={styles.errorText}>{error}</Text> : null}
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Text, StyleSheet, Alert } from 'react-native';
+import { Lockout, formatCountdown } from '../hooks/useLockout';
+
+interface LockoutNoticeProps {
+    lockout: Lockout;
+    error?: string;
+}
+
+/**
+ * Shown under every PIN or recovery code prompt, all of which share one lockout:
+ * the countdown in place of the error while locked out, and how many attempts are
+ * left when too many failures erase the data
+ */
+export default function LockoutNotice({ lockout, error }: LockoutNoticeProps) {
+    return (
+        <>
+            {lockout.isLockedOut ? (
+                <Text style={styles.errorText}>
+                    Too many failed attempts. Try again in {formatCountdown(lockout.secondsRemaining)}
+                </Text>
+            ) : error ? <Text style={styles.errorText}>{error}</Text> : null}
+            {lockout.attemptsBeforeWipe !== null && lockout.failedAttempts > 0 && (
+                <Text style={styles.warningText}>
+                    {lockout.attemptsBeforeWipe} attempts left before all data is erased
+                </Text>
+            )}
+        </>
+    );
+}
+
+/**
+ * Tell the user a failed attempt erased everything. Nothing is left to unlock, so
+ * `onDismiss` should leave for the profile picker, which leads to PIN setup.
+ */
+export const showDataErasedAlert = (onDismiss?: () => void): void => {
+    Alert.alert(
+        'Data Erased',
+        'Too many failed attempts. All data has been erased.',
+        [{ text: 'OK', onPress: onDismiss }]
+    );
+};
+
+const styles = StyleSheet.create({
+    errorText: {
+        color: '#ef4444',
+        marginBottom: 15,
+        textAlign: 'center',
+    },
+    warningText: {
+        color: '#f59e0b',
+        marginBottom: 15,
+        textAlign: 'center',
+    },
+});
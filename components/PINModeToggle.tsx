@@ -0,0 +1,69 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { PINMode } from '../types/pinPolicy';
+
+interface PINModeToggleProps {
+    value: PINMode;
+    onChange: (mode: PINMode) => void;
+}
+
+const OPTIONS: { mode: PINMode; label: string }[] = [
+    { mode: 'numeric', label: 'Numeric PIN' },
+    { mode: 'passphrase', label: 'Passphrase' },
+];
+
+/**
+ * Choose between a digits-only PIN and an alphanumeric passphrase
+ */
+export default function PINModeToggle({ value, onChange }: PINModeToggleProps) {
+    return (
+        <View style={styles.container}>
+            {OPTIONS.map(({ mode, label }) => (
+                <TouchableOpacity
+                    key={mode}
+                    style={[styles.option, value === mode && styles.optionActive]}
+                    onPress={() => onChange(mode)}
+                    activeOpacity={0.7}
+                >
+                    <Text style={[styles.optionText, value === mode && styles.optionTextActive]}>
+                        {label}
+                    </Text>
+                </TouchableOpacity>
+            ))}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flexDirection: 'row',
+        width: '100%',
+        maxWidth: 350,
+        backgroundColor: '#e5e7eb',
+        borderRadius: 10,
+        padding: 4,
+        marginBottom: 20,
+    },
+    option: {
+        flex: 1,
+        paddingVertical: 10,
+        borderRadius: 8,
+        alignItems: 'center',
+    },
+    optionActive: {
+        backgroundColor: '#fff',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.1,
+        shadowRadius: 2,
+        elevation: 2,
+    },
+    optionText: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#6b7280',
+    },
+    optionTextActive: {
+        color: '#6366f1',
+    },
+});
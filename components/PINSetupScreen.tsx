@@ -5,25 +5,35 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { setupPIN } from '../services/storage';
 import { useToast } from '../hooks/useToast';
 import Toast from './Toast';
+import RecoveryCodeList from './RecoveryCodeList';
+import PINModeToggle from './PINModeToggle';
+import { PINMode, DEFAULT_PIN_MODE, validatePIN, getPINLengthLimits, getPINKeyboardType } from '../types/pinPolicy';
 
 interface PINSetupScreenProps {
     onComplete: () => void;
+    onSwitchProfile?: () => void;
+    profileName?: string;
 }
 
 const { width } = Dimensions.get('window');
 
-export default function PINSetupScreen({ onComplete }: PINSetupScreenProps) {
+export default function PINSetupScreen({ onComplete, onSwitchProfile, profileName }: PINSetupScreenProps) {
     const [step, setStep] = useState<'enter' | 'confirm' | 'recovery'>('enter');
+    const [pinMode, setPinMode] = useState<PINMode>(DEFAULT_PIN_MODE);
     const [pin, setPin] = useState('');
     const [confirmPin, setConfirmPin] = useState('');
-    const [recoveryCode, setRecoveryCode] = useState('');
+    const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
     const [error, setError] = useState('');
     const [hasConfirmedSave, setHasConfirmedSave] = useState(false);
     const { toast, showToast, hideToast } = useToast();
 
+    const { min, max } = getPINLengthLimits(pinMode);
+    const pinLabel = pinMode === 'numeric' ? 'PIN' : 'passphrase';
+
     const handlePinSubmit = () => {
-        if (pin.length < 4) {
-            setError('PIN must be at least 4 digits');
+        const policyError = validatePIN(pin, pinMode);
+        if (policyError) {
+            setError(policyError);
             return;
         }
         setError('');
@@ -41,26 +51,25 @@ export default function PINSetupScreen({ onComplete }: PINSetupScreenProps) {
     };
 
     const handleSetupPIN = async () => {
-        try {
-            const code = await setupPIN(pin);
-            setRecoveryCode(code);
-            setStep('recovery');
-        } catch (error) {
-            setError('Failed to setup PIN. Please try again.');
-            console.error(error);
+        const result = await setupPIN(pin, pinMode);
+        if (!result.ok) {
+            setError(result.error.message);
+            return;
         }
+        setRecoveryCodes(result.value);
+        setStep('recovery');
     };
 
     const handleCopyRecoveryCode = () => {
-        Clipboard.setString(recoveryCode);
-        showToast('Recovery code copied to clipboard', 'success');
+        Clipboard.setString(recoveryCodes.join('\n'));
+        showToast('Recovery codes copied to clipboard', 'success');
     };
 
     const handleComplete = () => {
         if (!hasConfirmedSave) {
             Alert.alert(
                 'Important',
-                'Please confirm that you have saved your recovery code. You will need it if you forget your PIN.',
+                'Please confirm that you have saved your recovery codes. You will need one if you forget your PIN.',
                 [{ text: 'OK' }]
             );
             return;
@@ -83,12 +92,14 @@ export default function PINSetupScreen({ onComplete }: PINSetupScreenProps) {
                     <Text style={styles.title}>
                         {step === 'enter' && 'Create Your PIN'}
                         {step === 'confirm' && 'Confirm Your PIN'}
-                        {step === 'recovery' && 'Save Recovery Code'}
+                        {step === 'recovery' && 'Save Recovery Codes'}
                     </Text>
                     <Text style={styles.subtitle}>
-                        {step === 'enter' && 'Keep your expenses secure with a personal PIN'}
+                        {step === 'enter' && (profileName
+                            ? `Keep ${profileName}'s expenses secure with a personal PIN`
+                            : 'Keep your expenses secure with a personal PIN')}
                         {step === 'confirm' && 'Re-enter your PIN to confirm'}
-                        {step === 'recovery' && 'Save this code to recover your PIN if forgotten'}
+                        {step === 'recovery' && 'Save these codes to recover your PIN if forgotten'}
                     </Text>
 
                     <View style={styles.spacer} />
@@ -96,18 +107,31 @@ export default function PINSetupScreen({ onComplete }: PINSetupScreenProps) {
                     {/* Step 1: Enter PIN */}
                     {step === 'enter' && (
                         <>
+                            <PINModeToggle
+                                value={pinMode}
+                                onChange={(mode) => {
+                                    setPinMode(mode);
+                                    setPin('');
+                                    setError('');
+                                }}
+                            />
                             <TextInput
+                                key={pinMode} // Remount so the keyboard switches
                                 style={styles.input}
-                                placeholder="Enter PIN (at least 4 digits)"
+                                placeholder={pinMode === 'numeric'
+                                    ? `Enter PIN (${min}-${max} digits)`
+                                    : `Enter passphrase (at least ${min} characters)`}
                                 placeholderTextColor="#9ca3af"
                                 secureTextEntry={true}
-                                keyboardType="numeric"
+                                keyboardType={getPINKeyboardType(pinMode)}
+                                autoCapitalize="none"
+                                autoCorrect={false}
                                 value={pin}
                                 onChangeText={(text) => {
                                     setPin(text);
                                     setError('');
                                 }}
-                                maxLength={6}
+                                maxLength={max}
                                 autoFocus
                             />
                             {error ? <Text style={styles.errorText}>{error}</Text> : null}
@@ -119,6 +143,11 @@ export default function PINSetupScreen({ onComplete }: PINSetupScreenProps) {
                                 <Text style={styles.buttonText}>Continue</Text>
                                 <Ionicons name="arrow-forward" size={24} color="#fff" />
                             </TouchableOpacity>
+                            {onSwitchProfile && (
+                                <TouchableOpacity style={styles.backButton} onPress={onSwitchProfile}>
+                                    <Text style={styles.backButtonText}>← Switch Profile</Text>
+                                </TouchableOpacity>
+                            )}
                         </>
                     )}
 
@@ -127,16 +156,18 @@ export default function PINSetupScreen({ onComplete }: PINSetupScreenProps) {
                         <>
                             <TextInput
                                 style={styles.input}
-                                placeholder="Confirm PIN"
+                                placeholder={`Confirm ${pinLabel}`}
                                 placeholderTextColor="#9ca3af"
                                 secureTextEntry={true}
-                                keyboardType="numeric"
+                                keyboardType={getPINKeyboardType(pinMode)}
+                                autoCapitalize="none"
+                                autoCorrect={false}
                                 value={confirmPin}
                                 onChangeText={(text) => {
                                     setConfirmPin(text);
                                     setError('');
                                 }}
-                                maxLength={6}
+                                maxLength={max}
                                 autoFocus
                             />
                             {error ? <Text style={styles.errorText}>{error}</Text> : null}
@@ -166,22 +197,24 @@ export default function PINSetupScreen({ onComplete }: PINSetupScreenProps) {
                         <>
                             <View style={styles.recoveryContainer}>
                                 <View style={styles.recoveryCodeBox}>
-                                    <Text style={styles.recoveryCodeLabel}>Your Recovery Code</Text>
-                                    <Text style={styles.recoveryCodeText}>{recoveryCode}</Text>
+                                    <Text style={styles.recoveryCodeLabel}>Your Recovery Codes</Text>
+                                    <View style={styles.recoveryCodeList}>
+                                        <RecoveryCodeList codes={recoveryCodes} />
+                                    </View>
                                     <TouchableOpacity
                                         style={styles.copyButton}
                                         onPress={handleCopyRecoveryCode}
                                         activeOpacity={0.7}
                                     >
                                         <Ionicons name="copy-outline" size={20} color="#6366f1" />
-                                        <Text style={styles.copyButtonText}>Copy Code</Text>
+                                        <Text style={styles.copyButtonText}>Copy Codes</Text>
                                     </TouchableOpacity>
                                 </View>
 
                                 <View style={styles.warningBox}>
                                     <Ionicons name="warning" size={24} color="#f59e0b" />
                                     <Text style={styles.warningText}>
-                                        Save this code in a safe place. You'll need it to reset your PIN if you forget it.
+                                        Save these codes in a safe place. Each one can reset your PIN once if you forget it.
                                     </Text>
                                 </View>
 
@@ -194,7 +227,7 @@ export default function PINSetupScreen({ onComplete }: PINSetupScreenProps) {
                                         {hasConfirmedSave && <Ionicons name="checkmark" size={18} color="#fff" />}
                                     </View>
                                     <Text style={styles.checkboxLabel}>
-                                        I have saved my recovery code
+                                        I have saved my recovery codes
                                     </Text>
                                 </TouchableOpacity>
                             </View>
@@ -335,11 +368,8 @@ const styles = StyleSheet.create({
         color: '#6b7280',
         marginBottom: 10,
     },
-    recoveryCodeText: {
-        fontSize: 24,
-        fontWeight: 'bold',
-        color: '#1f2937',
-        letterSpacing: 2,
+    recoveryCodeList: {
+        width: '100%',
         marginBottom: 15,
     },
     copyButton: {
@@ -0,0 +1,262 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { getProfiles, addProfile } from '../services/storage';
+import ErrorState from './ErrorState';
+import { Profile, MAX_PROFILE_NAME_LENGTH, validateProfileName } from '../types/profile';
+import { StorageError } from '../types/result';
+
+interface ProfilePickerScreenProps {
+    onSelect: (profile: Profile) => void;
+}
+
+/**
+ * Shown before the unlock screen when more than one person uses the device
+ */
+export default function ProfilePickerScreen({ onSelect }: ProfilePickerScreenProps) {
+    const [profiles, setProfiles] = useState<Profile[]>([]);
+    const [isAdding, setIsAdding] = useState(false);
+    const [name, setName] = useState('');
+    const [error, setError] = useState('');
+    const [loadError, setLoadError] = useState<StorageError | null>(null);
+
+    const loadProfiles = async () => {
+        const result = await getProfiles();
+        if (!result.ok) {
+            setLoadError(result.error);
+            return;
+        }
+        setLoadError(null);
+        setProfiles(result.value);
+        // Nobody left after the last profile was deleted - go straight to creating one
+        setIsAdding(result.value.length === 0);
+    };
+
+    useEffect(() => {
+        loadProfiles();
+    }, []);
+
+    const handleAddProfile = async () => {
+        const nameError = validateProfileName(name, profiles);
+        if (nameError) {
+            setError(nameError);
+            return;
+        }
+
+        const result = await addProfile(name);
+        if (!result.ok) {
+            setError(result.error.message);
+            return;
+        }
+        onSelect(result.value);
+    };
+
+    if (loadError) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <ErrorState error={loadError} onRetry={loadProfiles} />
+            </SafeAreaView>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+                <View style={styles.content}>
+                    <View style={styles.iconContainer}>
+                        <Ionicons name="people" size={80} color="#6366f1" />
+                    </View>
+                    <Text style={styles.title}>Who's This?</Text>
+                    <Text style={styles.subtitle}>Each profile has its own PIN and expenses</Text>
+
+                    {profiles.map((profile) => (
+                        <TouchableOpacity
+                            key={profile.id}
+                            style={styles.profileCard}
+                            onPress={() => onSelect(profile)}
+                            activeOpacity={0.7}
+                        >
+                            <View style={styles.avatar}>
+                                <Text style={styles.avatarText}>{profile.name.charAt(0).toUpperCase()}</Text>
+                            </View>
+                            <Text style={styles.profileName}>{profile.name}</Text>
+                            <Ionicons name="chevron-forward" size={24} color="#9ca3af" />
+                        </TouchableOpacity>
+                    ))}
+
+                    {isAdding ? (
+                        <>
+                            <TextInput
+                                style={styles.input}
+                                placeholder="Name"
+                                placeholderTextColor="#9ca3af"
+                                value={name}
+                                onChangeText={(text) => {
+                                    setName(text);
+                                    setError('');
+                                }}
+                                maxLength={MAX_PROFILE_NAME_LENGTH}
+                                autoFocus
+                            />
+                            {error ? <Text style={styles.errorText}>{error}</Text> : null}
+                            <TouchableOpacity
+                                style={styles.button}
+                                onPress={handleAddProfile}
+                                activeOpacity={0.8}
+                            >
+                                <Text style={styles.buttonText}>Create Profile</Text>
+                                <Ionicons name="arrow-forward" size={24} color="#fff" />
+                            </TouchableOpacity>
+                            {profiles.length > 0 && (
+                                <TouchableOpacity
+                                    style={styles.linkButton}
+                                    onPress={() => {
+                                        setIsAdding(false);
+                                        setName('');
+                                        setError('');
+                                    }}
+                                >
+                                    <Text style={styles.linkButtonText}>Cancel</Text>
+                                </TouchableOpacity>
+                            )}
+                        </>
+                    ) : (
+                        <TouchableOpacity
+                            style={styles.linkButton}
+                            onPress={() => setIsAdding(true)}
+                            activeOpacity={0.7}
+                        >
+                            <Text style={styles.linkButtonText}>+ Add Profile</Text>
+                        </TouchableOpacity>
+                    )}
+                </View>
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8fafc',
+    },
+    scrollContent: {
+        flexGrow: 1,
+    },
+    content: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingHorizontal: 30,
+        paddingVertical: 40,
+    },
+    iconContainer: {
+        width: 140,
+        height: 140,
+        borderRadius: 70,
+        backgroundColor: 'rgba(99, 102, 241, 0.1)',
+        alignItems: 'center',
+        justifyContent: 'center',
+        marginBottom: 30,
+        borderWidth: 1,
+        borderColor: 'rgba(99, 102, 241, 0.2)',
+    },
+    title: {
+        fontSize: 28,
+        fontWeight: 'bold',
+        color: '#1f2937',
+        marginBottom: 8,
+    },
+    subtitle: {
+        fontSize: 16,
+        color: '#6b7280',
+        marginBottom: 40,
+        textAlign: 'center',
+    },
+    profileCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#fff',
+        padding: 16,
+        borderRadius: 12,
+        marginBottom: 10,
+        width: '100%',
+        maxWidth: 350,
+        gap: 16,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.05,
+        shadowRadius: 2,
+        elevation: 2,
+    },
+    avatar: {
+        width: 48,
+        height: 48,
+        borderRadius: 24,
+        backgroundColor: 'rgba(99, 102, 241, 0.1)',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    avatarText: {
+        fontSize: 20,
+        fontWeight: '700',
+        color: '#6366f1',
+    },
+    profileName: {
+        flex: 1,
+        fontSize: 18,
+        fontWeight: '600',
+        color: '#1f2937',
+    },
+    input: {
+        width: '100%',
+        maxWidth: 350,
+        height: 50,
+        borderColor: '#d1d5db',
+        borderWidth: 1,
+        borderRadius: 8,
+        paddingHorizontal: 15,
+        marginTop: 20,
+        marginBottom: 20,
+        fontSize: 18,
+        color: '#1f2937',
+        backgroundColor: '#fff',
+    },
+    errorText: {
+        color: '#ef4444',
+        marginBottom: 15,
+        textAlign: 'center',
+    },
+    button: {
+        backgroundColor: '#6366f1',
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingVertical: 16,
+        paddingHorizontal: 32,
+        borderRadius: 16,
+        width: '100%',
+        maxWidth: 350,
+        shadowColor: '#6366f1',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+        elevation: 6,
+        gap: 10,
+    },
+    buttonText: {
+        color: '#fff',
+        fontSize: 18,
+        fontWeight: '600',
+    },
+    linkButton: {
+        marginTop: 20,
+        paddingVertical: 10,
+    },
+    linkButtonText: {
+        color: '#6366f1',
+        fontSize: 16,
+        fontWeight: '500',
+    },
+});
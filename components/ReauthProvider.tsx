@@ -0,0 +1,212 @@
+import React, { createContext, useState, useCallback, useRef, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, KeyboardAvoidingView, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { verifyPIN, verifyBiometrics, getPINMode } from '../services/storage';
+import { getBiometricSupport } from '../services/biometrics';
+import { isWithinReauthGrace, markReauthenticated } from '../services/reauth';
+import { useLockout } from '../hooks/useLockout';
+import { useProfileSwitch } from '../hooks/useProfileSwitch';
+import LockoutNotice, { showDataErasedAlert } from './LockoutNotice';
+import { PINMode, DEFAULT_PIN_MODE, getPINLengthLimits, getPINKeyboardType } from '../types/pinPolicy';
+
+/**
+ * Resolves true once the user has confirmed it's them, false if they cancel
+ */
+export type RequireReauth = (reason: string) => Promise<boolean>;
+
+export const ReauthContext = createContext<RequireReauth>(async () => false);
+
+/**
+ * Provides requireReauth() to the screens below it. Tries biometrics first when
+ * they're turned on, then falls back to a PIN prompt drawn over the app, which
+ * shares the unlock lockout.
+ * The prompt is a plain overlay rather than a Modal, so callers close their own
+ * modals first and it can't clash with them.
+ * A pending prompt is cancelled when the app locks, so its caller never waits past the lock.
+ */
+export default function ReauthProvider({ locked, children }: { locked: boolean; children: React.ReactNode }) {
+    const [reason, setReason] = useState<string | null>(null); // null = prompt hidden
+    const [pinMode, setPinMode] = useState<PINMode>(DEFAULT_PIN_MODE);
+    const [pin, setPin] = useState('');
+    const [error, setError] = useState('');
+    const [isVerifying, setIsVerifying] = useState(false);
+    const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+    const lockout = useLockout();
+    const { switchProfile } = useProfileSwitch();
+
+    const requireReauth = useCallback<RequireReauth>(async (promptReason) => {
+        if (isWithinReauthGrace()) return true;
+
+        const support = await getBiometricSupport();
+        if (support.available) {
+            const confirmed = await verifyBiometrics(promptReason);
+            if (confirmed.ok && confirmed.value) {
+                markReauthenticated();
+                return true;
+            }
+        }
+
+        // Falls back to the passphrase keyboard, as the unlock screen does
+        const mode = await getPINMode();
+        setPinMode(mode.ok ? mode.value : 'passphrase');
+        await lockout.refresh();
+        setReason(promptReason);
+        return new Promise<boolean>((resolve) => {
+            // Only one prompt shows at a time - the one it replaces counts as cancelled
+            resolveRef.current?.(false);
+            resolveRef.current = resolve;
+        });
+    }, [lockout.refresh]);
+
+    const finish = useCallback((confirmed: boolean) => {
+        resolveRef.current?.(confirmed);
+        resolveRef.current = null;
+        setReason(null);
+        setPin('');
+        setError('');
+    }, []);
+
+    useEffect(() => {
+        if (locked) finish(false);
+    }, [locked, finish]);
+
+    // Settle a pending prompt when signing out or switching profile unmounts the provider
+    useEffect(() => () => resolveRef.current?.(false), []);
+
+    const handleConfirm = async () => {
+        if (lockout.isLockedOut) return;
+        setIsVerifying(true);
+        try {
+            const result = await verifyPIN(pin);
+            if (!result.ok) {
+                setError(result.error.message);
+            } else if (result.value === 'confirmed') {
+                markReauthenticated();
+                finish(true);
+            } else if (result.value === 'wiped') {
+                finish(false);
+                showDataErasedAlert(switchProfile);
+            } else {
+                if (result.value === 'invalid') {
+                    setError(pinMode === 'numeric' ? 'Incorrect PIN' : 'Incorrect passphrase');
+                }
+                setPin('');
+                await lockout.refresh();
+            }
+        } finally {
+            setIsVerifying(false);
+        }
+    };
+
+    return (
+        <ReauthContext.Provider value={requireReauth}>
+            {children}
+            {reason !== null && (
+                <KeyboardAvoidingView
+                    style={styles.overlay}
+                    behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+                >
+                    <View style={styles.content}>
+                        <View style={styles.header}>
+                            <Text style={styles.title}>Confirm It's You</Text>
+                            <TouchableOpacity onPress={() => finish(false)}>
+                                <Ionicons name="close" size={28} color="#6b7280" />
+                            </TouchableOpacity>
+                        </View>
+                        <Text style={styles.subtitle}>{reason}</Text>
+
+                        <TextInput
+                            style={styles.input}
+                            placeholder={pinMode === 'numeric' ? 'Enter PIN' : 'Enter passphrase'}
+                            placeholderTextColor="#9ca3af"
+                            secureTextEntry={true}
+                            keyboardType={getPINKeyboardType(pinMode)}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            value={pin}
+                            onChangeText={(text) => {
+                                setPin(text);
+                                setError('');
+                            }}
+                            maxLength={getPINLengthLimits(pinMode).max}
+                            autoFocus
+                        />
+
+                        <LockoutNotice lockout={lockout} error={error} />
+
+                        <TouchableOpacity
+                            style={[styles.button, (isVerifying || lockout.isLockedOut) && styles.buttonDisabled]}
+                            onPress={handleConfirm}
+                            activeOpacity={0.8}
+                            disabled={isVerifying || lockout.isLockedOut}
+                        >
+                            <Text style={styles.buttonText}>
+                                {isVerifying ? 'Verifying...' : lockout.isLockedOut ? 'Locked' : 'Confirm'}
+                            </Text>
+                        </TouchableOpacity>
+                    </View>
+                </KeyboardAvoidingView>
+            )}
+        </ReauthContext.Provider>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        ...StyleSheet.absoluteFillObject,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 20,
+    },
+    content: {
+        backgroundColor: '#fff',
+        borderRadius: 20,
+        padding: 24,
+        width: '100%',
+        maxWidth: 400,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 12,
+    },
+    title: {
+        fontSize: 24,
+        fontWeight: 'bold',
+        color: '#1f2937',
+    },
+    subtitle: {
+        fontSize: 14,
+        color: '#6b7280',
+        marginBottom: 20,
+    },
+    input: {
+        width: '100%',
+        height: 50,
+        borderColor: '#d1d5db',
+        borderWidth: 1,
+        borderRadius: 8,
+        paddingHorizontal: 15,
+        marginBottom: 15,
+        fontSize: 16,
+        color: '#1f2937',
+        backgroundColor: '#f9fafb',
+    },
+    button: {
+        backgroundColor: '#6366f1',
+        paddingVertical: 14,
+        borderRadius: 12,
+        alignItems: 'center',
+        marginTop: 10,
+    },
+    buttonDisabled: {
+        backgroundColor: '#9ca3af',
+    },
+    buttonText: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
@@ -0,0 +1,50 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+
+interface RecoveryCodeListProps {
+    codes: string[];
+}
+
+/**
+ * Two-column grid of freshly generated recovery codes
+ */
+export default function RecoveryCodeList({ codes }: RecoveryCodeListProps) {
+    return (
+        <View style={styles.container}>
+            {codes.map((code, index) => (
+                <View key={code} style={styles.codeCell}>
+                    <Text style={styles.codeIndex}>{index + 1}.</Text>
+                    <Text style={styles.codeText}>{code}</Text>
+                </View>
+            ))}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        width: '100%',
+    },
+    codeCell: {
+        width: '50%',
+        flexDirection: 'row',
+        alignItems: 'baseline',
+        paddingVertical: 6,
+        gap: 6,
+    },
+    codeIndex: {
+        width: 24,
+        fontSize: 13,
+        color: '#9ca3af',
+        textAlign: 'right',
+    },
+    codeText: {
+        fontSize: 17,
+        fontWeight: 'bold',
+        color: '#1f2937',
+        letterSpacing: 1,
+        fontVariant: ['tabular-nums'],
+    },
+});
@@ -1,32 +1,211 @@
-import React, { useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, Modal, TextInput } from 'react-native';
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, Modal, TextInput, Switch } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { verifyPIN, setPIN, getRecoveryCode } from '../services/storage';
+import { useRouter } from 'expo-router';
+import {
+    verifyPIN,
+    setPIN,
+    regenerateRecoveryCodes,
+    getRemainingRecoveryCodes,
+    getHomeCurrency,
+    setHomeCurrency,
+    getWipeAfterFailures,
+    setWipeAfterFailures,
+    isBiometricUnlockEnabled,
+    setBiometricUnlockEnabled,
+    getAutoLockMinutes,
+    setAutoLockMinutes,
+    getPINMode,
+    getProfiles,
+    getActiveProfile,
+    addProfile,
+    renameProfile,
+    deleteActiveProfile,
+} from '../services/storage';
+import { BiometricSupport, getBiometricSupport, authenticateWithBiometrics } from '../services/biometrics';
+import { isValidCurrencyCode } from '../types/exchangeRate';
+import RecoveryCodeList from './RecoveryCodeList';
+import ErrorState from './ErrorState';
+import { useReauth } from '../hooks/useReauth';
+import { useProfileSwitch } from '../hooks/useProfileSwitch';
+import { useLockout } from '../hooks/useLockout';
+import PINModeToggle from './PINModeToggle';
+import LockoutNotice, { showDataErasedAlert } from './LockoutNotice';
+import { PINMode, DEFAULT_PIN_MODE, validatePIN, getPINLengthLimits, getPINKeyboardType } from '../types/pinPolicy';
+import { WIPE_AFTER_OPTIONS, AUTO_LOCK_OPTIONS, DEFAULT_AUTO_LOCK_MINUTES, PINCheckResult, formatAutoLock } from '../types/pin';
+import { Profile, MAX_PROFILE_NAME_LENGTH, validateProfileName } from '../types/profile';
+import { StorageError, STORAGE_ERROR_TITLES, firstError } from '../types/result';
 
 export default function SettingsScreen() {
+    const router = useRouter();
+    const { requireReauth } = useReauth();
+    const { switchProfile } = useProfileSwitch();
+    const lockout = useLockout();
     const [showChangePIN, setShowChangePIN] = useState(false);
     const [showRecoveryCode, setShowRecoveryCode] = useState(false);
+    const [pinMode, setPinMode] = useState<PINMode>(DEFAULT_PIN_MODE);
+    const [newPinMode, setNewPinMode] = useState<PINMode>(DEFAULT_PIN_MODE);
     const [currentPin, setCurrentPin] = useState('');
     const [newPin, setNewPin] = useState('');
     const [confirmPin, setConfirmPin] = useState('');
     const [verifyPinForRecovery, setVerifyPinForRecovery] = useState('');
     const [error, setError] = useState('');
-    const [recoveryCode, setRecoveryCode] = useState('');
+    const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+    const [remainingRecoveryCodes, setRemainingRecoveryCodes] = useState(0);
+    const [homeCurrency, setHomeCurrencyState] = useState('');
+    const [showHomeCurrency, setShowHomeCurrency] = useState(false);
+    const [currencyInput, setCurrencyInput] = useState('');
+    const [wipeAfter, setWipeAfter] = useState<number | null>(null);
+    const [showWipeAfter, setShowWipeAfter] = useState(false);
+    const [biometricSupport, setBiometricSupport] = useState<BiometricSupport | null>(null);
+    const [biometricEnabled, setBiometricEnabled] = useState(false);
+    const [autoLockMinutes, setAutoLockMinutesState] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+    const [showAutoLock, setShowAutoLock] = useState(false);
+    const [profile, setProfile] = useState<Profile | null>(null);
+    const [profiles, setProfiles] = useState<Profile[]>([]);
+    const [profileModal, setProfileModal] = useState<'rename' | 'add' | 'delete' | null>(null);
+    const [profileNameInput, setProfileNameInput] = useState('');
+    const [deleteProfilePin, setDeleteProfilePin] = useState('');
+    const [loadError, setLoadError] = useState<StorageError | null>(null);
+
+    useEffect(() => {
+        getBiometricSupport().then(setBiometricSupport);
+        loadSettings();
+    }, []);
+
+    // A failed read replaces the screen with an error, so a default is never shown as the saved setting
+    const loadSettings = async () => {
+        const [currency, wipe, biometric, autoLock, remaining, mode] = await Promise.all([
+            getHomeCurrency(),
+            getWipeAfterFailures(),
+            isBiometricUnlockEnabled(),
+            getAutoLockMinutes(),
+            getRemainingRecoveryCodes(),
+            getPINMode(),
+        ]);
+        if (!currency.ok || !wipe.ok || !biometric.ok || !autoLock.ok || !remaining.ok || !mode.ok) {
+            setLoadError(firstError(currency, wipe, biometric, autoLock, remaining, mode));
+            return;
+        }
+        setHomeCurrencyState(currency.value);
+        setWipeAfter(wipe.value);
+        setBiometricEnabled(biometric.value);
+        setAutoLockMinutesState(autoLock.value);
+        setRemainingRecoveryCodes(remaining.value);
+        setPinMode(mode.value);
+        await loadProfiles();
+    };
+
+    const loadProfiles = async () => {
+        const [all, active] = await Promise.all([getProfiles(), getActiveProfile()]);
+        if (!all.ok || !active.ok) {
+            setLoadError(firstError(all, active));
+            return;
+        }
+        setLoadError(null);
+        setProfiles(all.value);
+        setProfile(active.value);
+    };
+
+    const closeProfileModal = () => {
+        setProfileModal(null);
+        setProfileNameInput('');
+        setDeleteProfilePin('');
+        setError('');
+    };
+
+    const handleProfileNameSubmit = async () => {
+        setError('');
+
+        const nameError = validateProfileName(profileNameInput, profiles, profileModal === 'rename' ? profile?.id : undefined);
+        if (nameError) {
+            setError(nameError);
+            return;
+        }
+
+        if (profileModal === 'rename' && profile) {
+            const result = await renameProfile(profile.id, profileNameInput);
+            if (!result.ok) {
+                setError(result.error.message);
+                return;
+            }
+            closeProfileModal();
+        } else {
+            const result = await addProfile(profileNameInput);
+            if (!result.ok) {
+                setError(result.error.message);
+                return;
+            }
+            closeProfileModal();
+            Alert.alert(
+                'Profile Added',
+                `${result.value.name} can set up their PIN the first time they pick the profile.`,
+                [
+                    { text: 'Stay Here', style: 'cancel' },
+                    { text: 'Switch Now', onPress: switchProfile },
+                ]
+            );
+        }
+        await loadProfiles();
+    };
+
+    // A wrong PIN here counts towards the same lockout as the unlock screen
+    const handlePINCheckFailure = async (result: Exclude<PINCheckResult, 'confirmed'>, message: string) => {
+        if (result === 'wiped') {
+            showDataErasedAlert(switchProfile);
+            return;
+        }
+        if (result === 'invalid') setError(message);
+        await lockout.refresh();
+    };
+
+    const confirmPIN = async (pin: string, wrongPINMessage: string): Promise<boolean> => {
+        const result = await verifyPIN(pin);
+        if (!result.ok) {
+            setError(result.error.message);
+            return false;
+        }
+        if (result.value !== 'confirmed') {
+            await handlePINCheckFailure(result.value, wrongPINMessage);
+            return false;
+        }
+        await lockout.refresh();
+        return true;
+    };
+
+    const handleDeleteProfile = async () => {
+        if (lockout.isLockedOut) return;
+        setError('');
+
+        const result = await deleteActiveProfile(deleteProfilePin);
+        if (!result.ok) {
+            setError(result.error.message);
+            return;
+        }
+        if (result.value !== 'confirmed') {
+            setDeleteProfilePin('');
+            await handlePINCheckFailure(result.value, 'Incorrect PIN');
+            return;
+        }
+        closeProfileModal();
+        switchProfile();
+    };
 
     const handleChangePINSubmit = async () => {
+        if (lockout.isLockedOut) return;
         setError('');
 
         // Verify current PIN
-        const isCurrentValid = await verifyPIN(currentPin);
-        if (!isCurrentValid) {
-            setError('Current PIN is incorrect');
+        if (!(await confirmPIN(currentPin, 'Current PIN is incorrect'))) {
+            setCurrentPin('');
             return;
         }
 
         // Validate new PIN
-        if (newPin.length < 4) {
-            setError('New PIN must be at least 4 digits');
+        const policyError = validatePIN(newPin, newPinMode);
+        if (policyError) {
+            setError(policyError);
             return;
         }
 
@@ -36,53 +215,203 @@ export default function SettingsScreen() {
             return;
         }
 
-        try {
-            await setPIN(newPin);
-            Alert.alert('Success', 'Your PIN has been changed successfully');
-            setShowChangePIN(false);
-            setCurrentPin('');
-            setNewPin('');
-            setConfirmPin('');
-        } catch (error) {
-            setError('Failed to change PIN. Please try again.');
-            console.error(error);
+        const result = await setPIN(newPin, newPinMode);
+        if (!result.ok) {
+            setError(result.error.message);
+            return;
         }
+        setPinMode(newPinMode);
+        Alert.alert('Success', 'Your PIN has been changed successfully');
+        setShowChangePIN(false);
+        setCurrentPin('');
+        setNewPin('');
+        setConfirmPin('');
     };
 
-    const handleViewRecoveryCode = async () => {
+    // Only hashes of the recovery codes are stored, so they can't be revealed - issue new ones instead
+    const handleRegenerateRecoveryCodes = async () => {
+        if (lockout.isLockedOut) return;
         setError('');
 
-        const isValid = await verifyPIN(verifyPinForRecovery);
-        if (!isValid) {
-            setError('Incorrect PIN');
+        if (!(await confirmPIN(verifyPinForRecovery, 'Incorrect PIN'))) {
+            setVerifyPinForRecovery('');
+            return;
+        }
+
+        const result = await regenerateRecoveryCodes();
+        if (!result.ok) {
+            setError(result.error.message);
             return;
         }
+        setRecoveryCodes(result.value);
+        setRemainingRecoveryCodes(result.value.length);
+        setVerifyPinForRecovery('');
+        setShowRecoveryCode(true);
+    };
 
-        try {
-            const code = await getRecoveryCode();
-            if (code) {
-                setRecoveryCode(code);
-                setVerifyPinForRecovery('');
-                setShowRecoveryCode(true);
-            } else {
-                setError('Recovery code not found');
+    const handleBiometricToggle = async (enabled: boolean) => {
+        if (enabled) {
+            if (!biometricSupport?.available) {
+                Alert.alert(
+                    'Not Available',
+                    'Set up a fingerprint or face in your device settings to use biometric unlock.'
+                );
+                return;
             }
-        } catch (error) {
-            setError('Failed to retrieve recovery code');
-            console.error(error);
+            // Confirm the enrolled biometric works before relying on it
+            const confirmed = await authenticateWithBiometrics(`Turn on ${biometricSupport.label} unlock`);
+            if (!confirmed) return;
         }
+        const result = await setBiometricUnlockEnabled(enabled);
+        if (!result.ok) {
+            Alert.alert(STORAGE_ERROR_TITLES[result.error.category], result.error.message);
+            return;
+        }
+        setBiometricEnabled(enabled);
     };
 
+    const handleAutoLockSelect = async (minutes: number) => {
+        setShowAutoLock(false);
+        if (minutes === autoLockMinutes) return;
+        if (!(await requireReauth('Confirm to change when the app locks'))) return;
+        const result = await setAutoLockMinutes(minutes);
+        if (!result.ok) {
+            Alert.alert(STORAGE_ERROR_TITLES[result.error.category], result.error.message);
+            return;
+        }
+        setAutoLockMinutesState(minutes);
+    };
+
+    const handleWipeAfterSelect = async (attempts: number | null) => {
+        setShowWipeAfter(false);
+        if (attempts === wipeAfter) return;
+        if (!(await requireReauth('Confirm to change when data is erased'))) return;
+        const result = await setWipeAfterFailures(attempts);
+        if (!result.ok) {
+            Alert.alert(STORAGE_ERROR_TITLES[result.error.category], result.error.message);
+            return;
+        }
+        setWipeAfter(attempts);
+    };
+
+    const handleHomeCurrencySubmit = async () => {
+        setError('');
+
+        const code = currencyInput.trim().toUpperCase();
+        if (!isValidCurrencyCode(code)) {
+            setError('Enter a 3-letter currency code, e.g. USD');
+            return;
+        }
+
+        const result = await setHomeCurrency(code);
+        if (!result.ok) {
+            setError(result.error.message);
+            return;
+        }
+        setHomeCurrencyState(code);
+        setShowHomeCurrency(false);
+        setCurrencyInput('');
+    };
+
+    if (loadError) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <ErrorState error={loadError} onRetry={loadSettings} />
+            </SafeAreaView>
+        );
+    }
+
     return (
         <SafeAreaView style={styles.container}>
             <ScrollView style={styles.scrollView}>
+                {/* Profile Section */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Profile</Text>
+
+                    <TouchableOpacity
+                        style={styles.settingItem}
+                        onPress={() => {
+                            setProfileNameInput(profile?.name || '');
+                            setProfileModal('rename');
+                        }}
+                        activeOpacity={0.7}
+                    >
+                        <View style={styles.settingItemLeft}>
+                            <View style={[styles.iconCircle, { backgroundColor: 'rgba(99, 102, 241, 0.1)' }]}>
+                                <Ionicons name="person" size={24} color="#6366f1" />
+                            </View>
+                            <View>
+                                <Text style={styles.settingItemTitle}>{profile?.name}</Text>
+                                <Text style={styles.settingItemSubtitle}>Tap to rename</Text>
+                            </View>
+                        </View>
+                        <Ionicons name="chevron-forward" size={24} color="#9ca3af" />
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={styles.settingItem}
+                        onPress={switchProfile}
+                        activeOpacity={0.7}
+                    >
+                        <View style={styles.settingItemLeft}>
+                            <View style={[styles.iconCircle, { backgroundColor: 'rgba(59, 130, 246, 0.1)' }]}>
+                                <Ionicons name="people" size={24} color="#3b82f6" />
+                            </View>
+                            <View>
+                                <Text style={styles.settingItemTitle}>Switch Profile</Text>
+                                <Text style={styles.settingItemSubtitle}>
+                                    {profiles.length} {profiles.length === 1 ? 'profile' : 'profiles'} on this device
+                                </Text>
+                            </View>
+                        </View>
+                        <Ionicons name="chevron-forward" size={24} color="#9ca3af" />
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={styles.settingItem}
+                        onPress={() => setProfileModal('add')}
+                        activeOpacity={0.7}
+                    >
+                        <View style={styles.settingItemLeft}>
+                            <View style={[styles.iconCircle, { backgroundColor: 'rgba(16, 185, 129, 0.1)' }]}>
+                                <Ionicons name="person-add" size={24} color="#10b981" />
+                            </View>
+                            <View>
+                                <Text style={styles.settingItemTitle}>Add Profile</Text>
+                                <Text style={styles.settingItemSubtitle}>A separate ledger with its own PIN</Text>
+                            </View>
+                        </View>
+                        <Ionicons name="chevron-forward" size={24} color="#9ca3af" />
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={styles.settingItem}
+                        onPress={() => setProfileModal('delete')}
+                        activeOpacity={0.7}
+                    >
+                        <View style={styles.settingItemLeft}>
+                            <View style={[styles.iconCircle, { backgroundColor: 'rgba(239, 68, 68, 0.1)' }]}>
+                                <Ionicons name="person-remove" size={24} color="#ef4444" />
+                            </View>
+                            <View>
+                                <Text style={styles.settingItemTitle}>Delete Profile</Text>
+                                <Text style={styles.settingItemSubtitle}>Erase this profile and all its data</Text>
+                            </View>
+                        </View>
+                        <Ionicons name="chevron-forward" size={24} color="#9ca3af" />
+                    </TouchableOpacity>
+                </View>
+
                 {/* Security Section */}
                 <View style={styles.section}>
                     <Text style={styles.sectionTitle}>Security</Text>
 
                     <TouchableOpacity
                         style={styles.settingItem}
-                        onPress={() => setShowChangePIN(true)}
+                        onPress={() => {
+                            setNewPinMode(pinMode);
+                            setShowChangePIN(true);
+                        }}
                         activeOpacity={0.7}
                     >
                         <View style={styles.settingItemLeft}>
@@ -107,8 +436,153 @@ export default function SettingsScreen() {
                                 <Ionicons name="key" size={24} color="#f59e0b" />
                             </View>
                             <View>
-                                <Text style={styles.settingItemTitle}>View Recovery Code</Text>
-                                <Text style={styles.settingItemSubtitle}>See your PIN recovery code</Text>
+                                <Text style={styles.settingItemTitle}>Recovery Codes</Text>
+                                <Text style={styles.settingItemSubtitle}>
+                                    {remainingRecoveryCodes} {remainingRecoveryCodes === 1 ? 'code' : 'codes'} left - tap to regenerate
+                                </Text>
+                            </View>
+                        </View>
+                        <Ionicons name="chevron-forward" size={24} color="#9ca3af" />
+                    </TouchableOpacity>
+
+                    <View style={styles.settingItem}>
+                        <View style={styles.settingItemLeft}>
+                            <View style={[styles.iconCircle, { backgroundColor: 'rgba(16, 185, 129, 0.1)' }]}>
+                                <Ionicons
+                                    name={biometricSupport?.label === 'Face ID' ? 'scan' : 'finger-print'}
+                                    size={24}
+                                    color="#10b981"
+                                />
+                            </View>
+                            <View>
+                                <Text style={styles.settingItemTitle}>
+                                    {biometricSupport?.label || 'Biometric'} Unlock
+                                </Text>
+                                <Text style={styles.settingItemSubtitle}>
+                                    {biometricSupport?.available ? 'Unlock without your PIN' : 'Not set up on this device'}
+                                </Text>
+                            </View>
+                        </View>
+                        <Switch
+                            value={biometricEnabled}
+                            onValueChange={handleBiometricToggle}
+                            trackColor={{ false: '#d1d5db', true: '#a5b4fc' }}
+                            thumbColor={biometricEnabled ? '#6366f1' : '#f9fafb'}
+                        />
+                    </View>
+
+                    <TouchableOpacity
+                        style={styles.settingItem}
+                        onPress={() => setShowAutoLock(true)}
+                        activeOpacity={0.7}
+                    >
+                        <View style={styles.settingItemLeft}>
+                            <View style={[styles.iconCircle, { backgroundColor: 'rgba(99, 102, 241, 0.1)' }]}>
+                                <Ionicons name="timer" size={24} color="#6366f1" />
+                            </View>
+                            <View>
+                                <Text style={styles.settingItemTitle}>Auto-Lock</Text>
+                                <Text style={styles.settingItemSubtitle}>{formatAutoLock(autoLockMinutes)}</Text>
+                            </View>
+                        </View>
+                        <Ionicons name="chevron-forward" size={24} color="#9ca3af" />
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={styles.settingItem}
+                        onPress={() => router.push('/security-log')}
+                        activeOpacity={0.7}
+                    >
+                        <View style={styles.settingItemLeft}>
+                            <View style={[styles.iconCircle, { backgroundColor: 'rgba(107, 114, 128, 0.1)' }]}>
+                                <Ionicons name="list" size={24} color="#6b7280" />
+                            </View>
+                            <View>
+                                <Text style={styles.settingItemTitle}>Security Log</Text>
+                                <Text style={styles.settingItemSubtitle}>Unlocks, failed attempts and PIN changes</Text>
+                            </View>
+                        </View>
+                        <Ionicons name="chevron-forward" size={24} color="#9ca3af" />
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={styles.settingItem}
+                        onPress={() => setShowWipeAfter(true)}
+                        activeOpacity={0.7}
+                    >
+                        <View style={styles.settingItemLeft}>
+                            <View style={[styles.iconCircle, { backgroundColor: 'rgba(239, 68, 68, 0.1)' }]}>
+                                <Ionicons name="trash" size={24} color="#ef4444" />
+                            </View>
+                            <View>
+                                <Text style={styles.settingItemTitle}>Erase Data</Text>
+                                <Text style={styles.settingItemSubtitle}>
+                                    {wipeAfter === null ? 'Off' : `After ${wipeAfter} failed unlock attempts`}
+                                </Text>
+                            </View>
+                        </View>
+                        <Ionicons name="chevron-forward" size={24} color="#9ca3af" />
+                    </TouchableOpacity>
+                </View>
+
+                {/* Currency Section */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Currency</Text>
+
+                    <TouchableOpacity
+                        style={styles.settingItem}
+                        onPress={() => {
+                            setCurrencyInput(homeCurrency);
+                            setShowHomeCurrency(true);
+                        }}
+                        activeOpacity={0.7}
+                    >
+                        <View style={styles.settingItemLeft}>
+                            <View style={[styles.iconCircle, { backgroundColor: 'rgba(16, 185, 129, 0.1)' }]}>
+                                <Ionicons name="cash" size={24} color="#10b981" />
+                            </View>
+                            <View>
+                                <Text style={styles.settingItemTitle}>Home Currency</Text>
+                                <Text style={styles.settingItemSubtitle}>Totals are shown in {homeCurrency}</Text>
+                            </View>
+                        </View>
+                        <Ionicons name="chevron-forward" size={24} color="#9ca3af" />
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={styles.settingItem}
+                        onPress={() => router.push('/exchange-rates')}
+                        activeOpacity={0.7}
+                    >
+                        <View style={styles.settingItemLeft}>
+                            <View style={[styles.iconCircle, { backgroundColor: 'rgba(59, 130, 246, 0.1)' }]}>
+                                <Ionicons name="swap-horizontal" size={24} color="#3b82f6" />
+                            </View>
+                            <View>
+                                <Text style={styles.settingItemTitle}>Exchange Rates</Text>
+                                <Text style={styles.settingItemSubtitle}>Edit or import conversion rates</Text>
+                            </View>
+                        </View>
+                        <Ionicons name="chevron-forward" size={24} color="#9ca3af" />
+                    </TouchableOpacity>
+                </View>
+
+                {/* Categories Section */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Categories</Text>
+
+                    <TouchableOpacity
+                        style={styles.settingItem}
+                        onPress={() => router.push('/categories')}
+                        activeOpacity={0.7}
+                    >
+                        <View style={styles.settingItemLeft}>
+                            <View style={[styles.iconCircle, { backgroundColor: 'rgba(236, 72, 153, 0.1)' }]}>
+                                <Ionicons name="pricetags" size={24} color="#ec4899" />
+                            </View>
+                            <View>
+                                <Text style={styles.settingItemTitle}>Expense Categories</Text>
+                                <Text style={styles.settingItemSubtitle}>Add, rename, reorder or archive</Text>
                             </View>
                         </View>
                         <Ionicons name="chevron-forward" size={24} color="#9ca3af" />
@@ -130,6 +604,23 @@ export default function SettingsScreen() {
                             </View>
                         </View>
                     </View>
+
+                    <TouchableOpacity
+                        style={styles.settingItem}
+                        onPress={() => router.push('/diagnostics')}
+                        activeOpacity={0.7}
+                    >
+                        <View style={styles.settingItemLeft}>
+                            <View style={[styles.iconCircle, { backgroundColor: 'rgba(107, 114, 128, 0.1)' }]}>
+                                <Ionicons name="bug" size={24} color="#6b7280" />
+                            </View>
+                            <View>
+                                <Text style={styles.settingItemTitle}>Diagnostics</Text>
+                                <Text style={styles.settingItemSubtitle}>Recent errors, for bug reports</Text>
+                            </View>
+                        </View>
+                        <Ionicons name="chevron-forward" size={24} color="#9ca3af" />
+                    </TouchableOpacity>
                 </View>
             </ScrollView>
 
@@ -157,47 +648,67 @@ export default function SettingsScreen() {
 
                         <TextInput
                             style={styles.input}
-                            placeholder="Current PIN"
+                            placeholder={pinMode === 'numeric' ? 'Current PIN' : 'Current Passphrase'}
                             placeholderTextColor="#9ca3af"
                             secureTextEntry={true}
-                            keyboardType="numeric"
+                            keyboardType={getPINKeyboardType(pinMode)}
+                            autoCapitalize="none"
+                            autoCorrect={false}
                             value={currentPin}
                             onChangeText={(text) => {
                                 setCurrentPin(text);
                                 setError('');
                             }}
-                            maxLength={6}
+                            maxLength={getPINLengthLimits(pinMode).max}
+                        />
+
+                        <PINModeToggle
+                            value={newPinMode}
+                            onChange={(mode) => {
+                                setNewPinMode(mode);
+                                setNewPin('');
+                                setConfirmPin('');
+                                setError('');
+                            }}
                         />
 
                         <TextInput
+                            key={`new-${newPinMode}`} // Remount so the keyboard switches
                             style={styles.input}
-                            placeholder="New PIN (at least 4 digits)"
+                            placeholder={newPinMode === 'numeric'
+                                ? `New PIN (${getPINLengthLimits('numeric').min}-${getPINLengthLimits('numeric').max} digits)`
+                                : `New Passphrase (at least ${getPINLengthLimits('passphrase').min} characters)`}
                             placeholderTextColor="#9ca3af"
                             secureTextEntry={true}
-                            keyboardType="numeric"
+                            keyboardType={getPINKeyboardType(newPinMode)}
+                            autoCapitalize="none"
+                            autoCorrect={false}
                             value={newPin}
                             onChangeText={(text) => {
                                 setNewPin(text);
                                 setError('');
                             }}
-                            maxLength={6}
+                            maxLength={getPINLengthLimits(newPinMode).max}
                         />
 
                         <TextInput
+                            key={`confirm-${newPinMode}`}
                             style={styles.input}
-                            placeholder="Confirm New PIN"
+                            placeholder={newPinMode === 'numeric' ? 'Confirm New PIN' : 'Confirm New Passphrase'}
                             placeholderTextColor="#9ca3af"
                             secureTextEntry={true}
-                            keyboardType="numeric"
+                            keyboardType={getPINKeyboardType(newPinMode)}
+                            autoCapitalize="none"
+                            autoCorrect={false}
                             value={confirmPin}
                             onChangeText={(text) => {
                                 setConfirmPin(text);
                                 setError('');
                             }}
-                            maxLength={6}
+                            maxLength={getPINLengthLimits(newPinMode).max}
                         />
 
-                        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+                        <LockoutNotice lockout={lockout} error={error} />
 
                         <TouchableOpacity
                             style={styles.modalButton}
@@ -210,7 +721,210 @@ export default function SettingsScreen() {
                 </View>
             </Modal>
 
-            {/* View Recovery Code Modal */}
+            {/* Home Currency Modal */}
+            <Modal
+                visible={showHomeCurrency}
+                animationType="slide"
+                transparent={true}
+                onRequestClose={() => setShowHomeCurrency(false)}
+            >
+                <View style={styles.modalOverlay}>
+                    <View style={styles.modalContent}>
+                        <View style={styles.modalHeader}>
+                            <Text style={styles.modalTitle}>Home Currency</Text>
+                            <TouchableOpacity onPress={() => {
+                                setShowHomeCurrency(false);
+                                setCurrencyInput('');
+                                setError('');
+                            }}>
+                                <Ionicons name="close" size={28} color="#6b7280" />
+                            </TouchableOpacity>
+                        </View>
+
+                        <Text style={styles.modalSubtitle}>
+                            Period totals are converted into this currency using your exchange rates
+                        </Text>
+                        <TextInput
+                            style={styles.input}
+                            placeholder="Currency code, e.g. USD"
+                            placeholderTextColor="#9ca3af"
+                            autoCapitalize="characters"
+                            value={currencyInput}
+                            onChangeText={(text) => {
+                                setCurrencyInput(text.toUpperCase());
+                                setError('');
+                            }}
+                            maxLength={3}
+                        />
+
+                        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+                        <TouchableOpacity
+                            style={styles.modalButton}
+                            onPress={handleHomeCurrencySubmit}
+                            activeOpacity={0.8}
+                        >
+                            <Text style={styles.modalButtonText}>Save</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </Modal>
+
+            {/* Profile Modal */}
+            <Modal
+                visible={profileModal !== null}
+                animationType="slide"
+                transparent={true}
+                onRequestClose={closeProfileModal}
+            >
+                <View style={styles.modalOverlay}>
+                    <View style={styles.modalContent}>
+                        <View style={styles.modalHeader}>
+                            <Text style={styles.modalTitle}>
+                                {profileModal === 'rename' && 'Rename Profile'}
+                                {profileModal === 'add' && 'Add Profile'}
+                                {profileModal === 'delete' && 'Delete Profile'}
+                            </Text>
+                            <TouchableOpacity onPress={closeProfileModal}>
+                                <Ionicons name="close" size={28} color="#6b7280" />
+                            </TouchableOpacity>
+                        </View>
+
+                        {profileModal === 'delete' ? (
+                            <>
+                                <Text style={styles.modalSubtitle}>
+                                    Enter your PIN to permanently erase {profile?.name} with all of its transactions, periods and settings.
+                                </Text>
+                                <TextInput
+                                    style={styles.input}
+                                    placeholder={pinMode === 'numeric' ? 'Enter PIN' : 'Enter Passphrase'}
+                                    placeholderTextColor="#9ca3af"
+                                    secureTextEntry={true}
+                                    keyboardType={getPINKeyboardType(pinMode)}
+                                    autoCapitalize="none"
+                                    autoCorrect={false}
+                                    value={deleteProfilePin}
+                                    onChangeText={(text) => {
+                                        setDeleteProfilePin(text);
+                                        setError('');
+                                    }}
+                                    maxLength={getPINLengthLimits(pinMode).max}
+                                />
+
+                                <LockoutNotice lockout={lockout} error={error} />
+
+                                <TouchableOpacity
+                                    style={[styles.modalButton, styles.modalButtonDanger]}
+                                    onPress={handleDeleteProfile}
+                                    activeOpacity={0.8}
+                                >
+                                    <Text style={styles.modalButtonText}>Delete Profile</Text>
+                                </TouchableOpacity>
+                            </>
+                        ) : (
+                            <>
+                                <TextInput
+                                    style={styles.input}
+                                    placeholder="Name"
+                                    placeholderTextColor="#9ca3af"
+                                    value={profileNameInput}
+                                    onChangeText={(text) => {
+                                        setProfileNameInput(text);
+                                        setError('');
+                                    }}
+                                    maxLength={MAX_PROFILE_NAME_LENGTH}
+                                />
+
+                                {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+                                <TouchableOpacity
+                                    style={styles.modalButton}
+                                    onPress={handleProfileNameSubmit}
+                                    activeOpacity={0.8}
+                                >
+                                    <Text style={styles.modalButtonText}>{profileModal === 'add' ? 'Add' : 'Save'}</Text>
+                                </TouchableOpacity>
+                            </>
+                        )}
+                    </View>
+                </View>
+            </Modal>
+
+            {/* Auto-Lock Modal */}
+            <Modal
+                visible={showAutoLock}
+                animationType="slide"
+                transparent={true}
+                onRequestClose={() => setShowAutoLock(false)}
+            >
+                <View style={styles.modalOverlay}>
+                    <View style={styles.modalContent}>
+                        <View style={styles.modalHeader}>
+                            <Text style={styles.modalTitle}>Auto-Lock</Text>
+                            <TouchableOpacity onPress={() => setShowAutoLock(false)}>
+                                <Ionicons name="close" size={28} color="#6b7280" />
+                            </TouchableOpacity>
+                        </View>
+
+                        <Text style={styles.modalSubtitle}>
+                            Ask for your PIN again after leaving the app or leaving it untouched for this long.
+                        </Text>
+
+                        {AUTO_LOCK_OPTIONS.map((option) => (
+                            <TouchableOpacity
+                                key={option}
+                                style={[styles.optionRow, autoLockMinutes === option && styles.optionRowActive]}
+                                onPress={() => handleAutoLockSelect(option)}
+                                activeOpacity={0.7}
+                            >
+                                <Text style={[styles.optionText, autoLockMinutes === option && styles.optionTextActive]}>
+                                    {formatAutoLock(option)}
+                                </Text>
+                                {autoLockMinutes === option && <Ionicons name="checkmark" size={22} color="#6366f1" />}
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                </View>
+            </Modal>
+
+            {/* Erase Data Modal */}
+            <Modal
+                visible={showWipeAfter}
+                animationType="slide"
+                transparent={true}
+                onRequestClose={() => setShowWipeAfter(false)}
+            >
+                <View style={styles.modalOverlay}>
+                    <View style={styles.modalContent}>
+                        <View style={styles.modalHeader}>
+                            <Text style={styles.modalTitle}>Erase Data</Text>
+                            <TouchableOpacity onPress={() => setShowWipeAfter(false)}>
+                                <Ionicons name="close" size={28} color="#6b7280" />
+                            </TouchableOpacity>
+                        </View>
+
+                        <Text style={styles.modalSubtitle}>
+                            Erase all transactions, periods and settings after this many failed PIN or recovery code attempts in a row.
+                        </Text>
+
+                        {[null, ...WIPE_AFTER_OPTIONS].map((option) => (
+                            <TouchableOpacity
+                                key={option ?? 'off'}
+                                style={[styles.optionRow, wipeAfter === option && styles.optionRowActive]}
+                                onPress={() => handleWipeAfterSelect(option)}
+                                activeOpacity={0.7}
+                            >
+                                <Text style={[styles.optionText, wipeAfter === option && styles.optionTextActive]}>
+                                    {option === null ? 'Off' : `${option} failed attempts`}
+                                </Text>
+                                {wipeAfter === option && <Ionicons name="checkmark" size={22} color="#6366f1" />}
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                </View>
+            </Modal>
+
+            {/* Regenerate Recovery Codes Modal */}
             <Modal
                 visible={showRecoveryCode}
                 animationType="slide"
@@ -221,54 +935,56 @@ export default function SettingsScreen() {
                     <View style={styles.modalContent}>
                         <View style={styles.modalHeader}>
                             <Text style={styles.modalTitle}>
-                                {recoveryCode ? 'Your Recovery Code' : 'Verify PIN'}
+                                {recoveryCodes.length > 0 ? 'New Recovery Codes' : 'Verify PIN'}
                             </Text>
                             <TouchableOpacity onPress={() => {
                                 setShowRecoveryCode(false);
                                 setVerifyPinForRecovery('');
-                                setRecoveryCode('');
+                                setRecoveryCodes([]);
                                 setError('');
                             }}>
                                 <Ionicons name="close" size={28} color="#6b7280" />
                             </TouchableOpacity>
                         </View>
 
-                        {!recoveryCode ? (
+                        {recoveryCodes.length === 0 ? (
                             <>
                                 <Text style={styles.modalSubtitle}>
-                                    Enter your PIN to view your recovery code
+                                    Enter your PIN to generate new recovery codes. All of your current codes will stop working.
                                 </Text>
                                 <TextInput
                                     style={styles.input}
-                                    placeholder="Enter PIN"
+                                    placeholder={pinMode === 'numeric' ? 'Enter PIN' : 'Enter Passphrase'}
                                     placeholderTextColor="#9ca3af"
                                     secureTextEntry={true}
-                                    keyboardType="numeric"
+                                    keyboardType={getPINKeyboardType(pinMode)}
+                                    autoCapitalize="none"
+                                    autoCorrect={false}
                                     value={verifyPinForRecovery}
                                     onChangeText={(text) => {
                                         setVerifyPinForRecovery(text);
                                         setError('');
                                     }}
-                                    maxLength={6}
+                                    maxLength={getPINLengthLimits(pinMode).max}
                                 />
 
-                                {error ? <Text style={styles.errorText}>{error}</Text> : null}
+                                <LockoutNotice lockout={lockout} error={error} />
 
                                 <TouchableOpacity
                                     style={styles.modalButton}
-                                    onPress={handleViewRecoveryCode}
+                                    onPress={handleRegenerateRecoveryCodes}
                                     activeOpacity={0.8}
                                 >
-                                    <Text style={styles.modalButtonText}>View Code</Text>
+                                    <Text style={styles.modalButtonText}>Generate New Codes</Text>
                                 </TouchableOpacity>
                             </>
                         ) : (
                             <>
                                 <View style={styles.recoveryCodeBox}>
-                                    <Text style={styles.recoveryCodeText}>{recoveryCode}</Text>
+                                    <RecoveryCodeList codes={recoveryCodes} />
                                 </View>
                                 <Text style={styles.warningText}>
-                                    ⚠️ Keep this code safe. You'll need it to reset your PIN if you forget it.
+                                    ⚠️ Write these codes down now - they can't be shown again. Each one can reset your PIN once if you forget it.
                                 </Text>
                             </>
                         )}
@@ -390,11 +1106,37 @@ const styles = StyleSheet.create({
         alignItems: 'center',
         marginTop: 10,
     },
+    modalButtonDanger: {
+        backgroundColor: '#ef4444',
+    },
     modalButtonText: {
         color: '#fff',
         fontSize: 16,
         fontWeight: '600',
     },
+    optionRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: 14,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: '#e5e7eb',
+        marginBottom: 8,
+    },
+    optionRowActive: {
+        borderColor: '#6366f1',
+        backgroundColor: 'rgba(99, 102, 241, 0.1)',
+    },
+    optionText: {
+        fontSize: 16,
+        color: '#1f2937',
+    },
+    optionTextActive: {
+        fontWeight: '600',
+        color: '#6366f1',
+    },
     recoveryCodeBox: {
         backgroundColor: 'rgba(99, 102, 241, 0.1)',
         borderRadius: 12,
@@ -404,12 +1146,6 @@ const styles = StyleSheet.create({
         borderWidth: 2,
         borderColor: '#6366f1',
     },
-    recoveryCodeText: {
-        fontSize: 28,
-        fontWeight: 'bold',
-        color: '#1f2937',
-        letterSpacing: 2,
-    },
     warningText: {
         fontSize: 14,
         color: '#92400e',
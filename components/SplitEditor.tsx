@@ -0,0 +1,161 @@
+import React from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import CategoryPicker from './CategoryPicker';
+import { CurrencyCode, Money, createMoney, formatMoney, formatMoneyInput, parseMoney, sumMoney } from '../types/money';
+import { CategorySplit } from '../types/transaction';
+
+/**
+ * A split line as typed, before its amount is parsed
+ */
+export interface SplitLineInput {
+    category: string;
+    amount: string;
+}
+
+export const createSplitLines = (splits?: CategorySplit[]): SplitLineInput[] =>
+    splits && splits.length > 0
+        ? splits.map(split => ({ category: split.category, amount: formatMoneyInput(split.amount) }))
+        : [{ category: '', amount: '' }, { category: '', amount: '' }];
+
+/**
+ * Parse every line's amount, or null if any of them isn't a valid amount
+ */
+export const parseSplitLines = (lines: SplitLineInput[], currency: CurrencyCode): CategorySplit[] | null => {
+    const splits: CategorySplit[] = [];
+    for (const line of lines) {
+        const amount = parseMoney(line.amount, currency);
+        if (!amount) return null;
+        splits.push({ category: line.category, amount });
+    }
+    return splits;
+};
+
+interface SplitEditorProps {
+    lines: SplitLineInput[];
+    onChange: (lines: SplitLineInput[]) => void;
+    currency: CurrencyCode;
+    total: Money | null; // The expense amount, once it's valid
+    activeColor?: string;
+}
+
+/**
+ * Category lines for a split expense, with what's left to assign to them
+ */
+export default function SplitEditor({ lines, onChange, currency, total, activeColor = '#6366f1' }: SplitEditorProps) {
+    const updateLine = (index: number, change: Partial<SplitLineInput>) => {
+        onChange(lines.map((line, i) => i === index ? { ...line, ...change } : line));
+    };
+
+    const removeLine = (index: number) => {
+        onChange(lines.filter((_, i) => i !== index));
+    };
+
+    const addLine = () => {
+        onChange([...lines, { category: '', amount: '' }]);
+    };
+
+    const renderRemaining = () => {
+        if (!total) return null;
+        const assigned = sumMoney(
+            lines.map(line => parseMoney(line.amount, currency) ?? createMoney(0, currency)),
+            currency
+        );
+        const remaining = total.minor - assigned.minor;
+        if (remaining === 0) {
+            return <Text style={[styles.remainingText, styles.balancedText]}>Lines add up to the total</Text>;
+        }
+        return (
+            <Text style={[styles.remainingText, styles.unbalancedText]}>
+                {remaining > 0
+                    ? `${formatMoney(createMoney(remaining, currency))} left to assign`
+                    : `${formatMoney(createMoney(-remaining, currency))} over the total`}
+            </Text>
+        );
+    };
+
+    return (
+        <View>
+            {lines.map((line, index) => (
+                <View key={index} style={styles.line}>
+                    <View style={styles.categoryRow}>
+                        <CategoryPicker
+                            value={line.category}
+                            onChange={(category) => updateLine(index, { category })}
+                            horizontal
+                        />
+                    </View>
+                    <View style={styles.amountRow}>
+                        <TextInput
+                            style={styles.amountInput}
+                            placeholder={`0.00 ${currency}`}
+                            keyboardType="decimal-pad"
+                            value={line.amount}
+                            onChangeText={(amount) => updateLine(index, { amount })}
+                        />
+                        {lines.length > 2 && (
+                            <TouchableOpacity
+                                onPress={() => removeLine(index)}
+                                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                            >
+                                <Text style={styles.removeText}>✕</Text>
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                </View>
+            ))}
+
+            <TouchableOpacity onPress={addLine} activeOpacity={0.7}>
+                <Text style={[styles.addLineText, { color: activeColor }]}>+ Add line</Text>
+            </TouchableOpacity>
+            {renderRemaining()}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    line: {
+        backgroundColor: '#fff',
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: '#e5e7eb',
+        padding: 12,
+        marginBottom: 12,
+    },
+    categoryRow: {
+        marginBottom: 10,
+    },
+    amountRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    amountInput: {
+        flex: 1,
+        backgroundColor: '#f9fafb',
+        borderWidth: 1,
+        borderColor: '#e5e7eb',
+        borderRadius: 10,
+        padding: 10,
+        fontSize: 16,
+        color: '#1f2937',
+    },
+    removeText: {
+        fontSize: 18,
+        color: '#9ca3af',
+    },
+    addLineText: {
+        fontSize: 15,
+        fontWeight: '600',
+        marginBottom: 8,
+    },
+    remainingText: {
+        fontSize: 13,
+        fontWeight: '600',
+    },
+    balancedText: {
+        color: '#10b981',
+    },
+    unbalancedText: {
+        color: '#f59e0b',
+    },
+});
@@ -0,0 +1,23 @@
+import { getAccounts, getAccountLedgers, getAccountLedger } from '../services/storage';
+import { useStoreQuery } from './useStoreQuery';
+import { Account, AccountLedger } from '../types/account';
+import { Result } from '../types/result';
+
+/**
+ * All accounts, oldest first, kept up to date as they change
+ */
+export const useAccounts = (): Result<Account[]> | null => {
+    return useStoreQuery(getAccounts, []);
+};
+
+/**
+ * Every account with its running balance, recalculated whenever transactions,
+ * accounts or exchange rates change
+ */
+export const useAccountLedgers = (): Result<AccountLedger[]> | null => {
+    return useStoreQuery(getAccountLedgers, []);
+};
+
+export const useAccountLedger = (accountId: string): Result<AccountLedger> | null => {
+    return useStoreQuery(() => getAccountLedger(accountId), [accountId]);
+};
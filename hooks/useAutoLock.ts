@@ -0,0 +1,65 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { AppState } from 'react-native';
+import { getAutoLockMinutes } from '../services/storage';
+
+const CHECK_INTERVAL_MS = 10 * 1000;
+const MIN_IDLE_MS = 60 * 1000; // "Immediately" only applies to leaving the app, not to idling in it
+
+// An unreadable setting locks as soon as allowed, never later than the user chose
+const readAutoLockMinutes = async (): Promise<number> => {
+    const minutes = await getAutoLockMinutes();
+    return minutes.ok ? minutes.value : 0;
+};
+
+/**
+ * Call onLock when the app has been in the background or untouched for longer than
+ * the auto-lock setting. Attach recordActivity to touches on the unlocked UI.
+ */
+export const useAutoLock = (enabled: boolean, onLock: () => void) => {
+    const lastActivity = useRef(Date.now());
+    const backgroundedAt = useRef<number | null>(null);
+    const onLockRef = useRef(onLock);
+    onLockRef.current = onLock;
+
+    useEffect(() => {
+        if (!enabled) return;
+        lastActivity.current = Date.now();
+
+        // Re-read the setting on every check so a change in Settings applies straight away
+        const checkIdle = async () => {
+            const timeoutMs = Math.max((await readAutoLockMinutes()) * 60 * 1000, MIN_IDLE_MS);
+            if (Date.now() - lastActivity.current >= timeoutMs) {
+                onLockRef.current();
+            }
+        };
+        const interval = setInterval(checkIdle, CHECK_INTERVAL_MS);
+
+        const subscription = AppState.addEventListener('change', async (state) => {
+            if (state === 'background') {
+                backgroundedAt.current = Date.now();
+                if ((await readAutoLockMinutes()) === 0) {
+                    onLockRef.current();
+                }
+            } else if (state === 'active' && backgroundedAt.current !== null) {
+                const awayMs = Date.now() - backgroundedAt.current;
+                backgroundedAt.current = null;
+                if (awayMs >= (await readAutoLockMinutes()) * 60 * 1000) {
+                    onLockRef.current();
+                } else {
+                    lastActivity.current = Date.now();
+                }
+            }
+        });
+
+        return () => {
+            clearInterval(interval);
+            subscription.remove();
+        };
+    }, [enabled]);
+
+    const recordActivity = useCallback(() => {
+        lastActivity.current = Date.now();
+    }, []);
+
+    return { recordActivity };
+};
@@ -0,0 +1,11 @@
+import { getCategories } from '../services/storage';
+import { useStoreQuery } from './useStoreQuery';
+import { ExpenseCategory } from '../types/category';
+import { Result } from '../types/result';
+
+/**
+ * Every expense category, archived ones included, in picker order
+ */
+export const useCategories = (): Result<ExpenseCategory[]> | null => {
+    return useStoreQuery(getCategories, []);
+};
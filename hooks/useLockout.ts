@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getLockoutState, getWipeAfterFailures } from '../services/storage';
+
+/**
+ * Persisted unlock lockout with a live countdown. Call refresh() after every failed attempt.
+ * If the state can't be read the last one read stays; the unlock call itself then reports the failure.
+ */
+export const useLockout = () => {
+    const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+    const [failedAttempts, setFailedAttempts] = useState(0);
+    const [wipeAfter, setWipeAfter] = useState<number | null>(null);
+    const [secondsRemaining, setSecondsRemaining] = useState(0);
+
+    const refresh = useCallback(async () => {
+        const [state, wipeSetting] = await Promise.all([getLockoutState(), getWipeAfterFailures()]);
+        if (!state.ok || !wipeSetting.ok) return;
+        setFailedAttempts(state.value.failedAttempts);
+        setLockedUntil(state.value.lockedUntil ? new Date(state.value.lockedUntil).getTime() : null);
+        setWipeAfter(wipeSetting.value);
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    useEffect(() => {
+        if (lockedUntil === null) {
+            setSecondsRemaining(0);
+            return;
+        }
+
+        const tick = () => {
+            setSecondsRemaining(Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000)));
+        };
+        tick();
+        const interval = setInterval(tick, 1000);
+        return () => clearInterval(interval);
+    }, [lockedUntil]);
+
+    return {
+        isLockedOut: secondsRemaining > 0,
+        secondsRemaining,
+        failedAttempts,
+        attemptsBeforeWipe: wipeAfter === null ? null : Math.max(0, wipeAfter - failedAttempts),
+        refresh,
+    };
+};
+
+export type Lockout = ReturnType<typeof useLockout>;
+
+/**
+ * Format a countdown as m:ss
+ */
+export const formatCountdown = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,15 @@
+import { calculateMonthlyTotals, calculateStatsForPeriod } from '../services/storage';
+import { useStoreQuery } from './useStoreQuery';
+import { PeriodStats } from '../types/monthPeriod';
+import { Result } from '../types/result';
+
+/**
+ * Totals for a period in the home currency, recalculated whenever transactions,
+ * periods or exchange rates change. Without a period ID, follows the active period.
+ */
+export const usePeriodStats = (periodId?: string): Result<PeriodStats> | null => {
+    return useStoreQuery(
+        () => periodId ? calculateStatsForPeriod(periodId) : calculateMonthlyTotals(),
+        [periodId]
+    );
+};
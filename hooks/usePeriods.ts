@@ -0,0 +1,11 @@
+import { getAllPeriods } from '../services/storage';
+import { useStoreQuery } from './useStoreQuery';
+import { MonthPeriod } from '../types/monthPeriod';
+import { Result } from '../types/result';
+
+/**
+ * All periods, newest first, kept up to date as they change
+ */
+export const usePeriods = (): Result<MonthPeriod[]> | null => {
+    return useStoreQuery(getAllPeriods, []);
+};
@@ -0,0 +1,11 @@
+import { createContext, useContext } from 'react';
+
+/**
+ * Lock the app and go back to the profile picker. Provided by the root layout.
+ */
+export const ProfileSwitchContext = createContext<() => void>(() => {});
+
+export const useProfileSwitch = () => {
+    const switchProfile = useContext(ProfileSwitchContext);
+    return { switchProfile };
+};
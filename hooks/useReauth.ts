@@ -0,0 +1,11 @@
+import { useContext } from 'react';
+import { ReauthContext } from '../components/ReauthProvider';
+
+/**
+ * Guard for destructive or data-exposing actions:
+ * `if (!(await requireReauth('Confirm to delete this period'))) return;`
+ */
+export const useReauth = () => {
+    const requireReauth = useContext(ReauthContext);
+    return { requireReauth };
+};
@@ -0,0 +1,33 @@
+import { useState, useEffect, DependencyList } from 'react';
+import { subscribeToStore } from '../services/store';
+import { Result } from '../types/result';
+
+/**
+ * Run a storage query now and again whenever stored data changes.
+ * Null until the first run finishes. Reads are served from the store's cache,
+ * so re-running on every change is cheap.
+ */
+export const useStoreQuery = <T>(query: () => Promise<Result<T>>, deps: DependencyList): Result<T> | null => {
+    const [result, setResult] = useState<Result<T> | null>(null);
+
+    useEffect(() => {
+        let isActive = true;
+        let latestRun = 0;
+
+        // A slow earlier run must not overwrite a newer result
+        const run = async () => {
+            const thisRun = ++latestRun;
+            const next = await query();
+            if (isActive && thisRun === latestRun) setResult(next);
+        };
+
+        run();
+        const unsubscribe = subscribeToStore(run);
+        return () => {
+            isActive = false;
+            unsubscribe();
+        };
+    }, deps);
+
+    return result;
+};
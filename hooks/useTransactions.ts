@@ -0,0 +1,15 @@
+import { getTransactionsForCurrentMonth, getTransactionsForPeriod } from '../services/storage';
+import { useStoreQuery } from './useStoreQuery';
+import { Transaction } from '../types/transaction';
+import { Result } from '../types/result';
+
+/**
+ * Transactions in a period, newest first, kept up to date as they change.
+ * Without a period ID, follows the active period.
+ */
+export const useTransactions = (periodId?: string): Result<Transaction[]> | null => {
+    return useStoreQuery(
+        () => periodId ? getTransactionsForPeriod(periodId) : getTransactionsForCurrentMonth(),
+        [periodId]
+    );
+};
@@ -0,0 +1,88 @@
+import { withKeyLock } from '../keyLock';
+import { createMemoryBackend } from '../backends/memoryBackend';
+import { StorageBackend, StorageRecord } from '../storageBackend';
+
+interface Item extends StorageRecord {
+    value: number;
+}
+
+const COLLECTION = 'items';
+
+// Whole-collection read-modify-write, the pattern that loses updates without the lock
+const mutate = (backend: StorageBackend, change: (items: Item[]) => Item[]): Promise<void> =>
+    withKeyLock(COLLECTION, async () => {
+        const items = await backend.getRecords<Item>(COLLECTION);
+        await new Promise(resolve => setTimeout(resolve, 0)); // Let other mutations try to interleave
+        await backend.setRecords(COLLECTION, change(items));
+    });
+
+const addItem = (backend: StorageBackend, item: Item) => mutate(backend, items => [...items, item]);
+
+const updateItem = (backend: StorageBackend, item: Item) =>
+    mutate(backend, items => items.map(existing => existing.id === item.id ? item : existing));
+
+const deleteItem = (backend: StorageBackend, id: string) =>
+    mutate(backend, items => items.filter(existing => existing.id !== id));
+
+const sortById = (items: Item[]) => [...items].sort((a, b) => a.id.localeCompare(b.id));
+
+describe('withKeyLock', () => {
+    let backend: StorageBackend;
+
+    beforeEach(() => {
+        backend = createMemoryBackend();
+    });
+
+    it('keeps every concurrent add, update and delete', async () => {
+        await backend.setRecords<Item>(COLLECTION, [
+            { id: 'a', value: 1 },
+            { id: 'b', value: 2 },
+            { id: 'c', value: 3 },
+        ]);
+
+        await Promise.all([
+            addItem(backend, { id: 'd', value: 4 }),
+            updateItem(backend, { id: 'a', value: 10 }),
+            deleteItem(backend, 'b'),
+            addItem(backend, { id: 'e', value: 5 }),
+            updateItem(backend, { id: 'c', value: 30 }),
+            addItem(backend, { id: 'f', value: 6 }),
+            deleteItem(backend, 'e'),
+        ]);
+
+        expect(sortById(await backend.getRecords<Item>(COLLECTION))).toEqual([
+            { id: 'a', value: 10 },
+            { id: 'c', value: 30 },
+            { id: 'd', value: 4 },
+            { id: 'f', value: 6 },
+        ]);
+    });
+
+    it('keeps all of many concurrent adds', async () => {
+        const ids = Array.from({ length: 50 }, (_, i) => `item-${i}`);
+
+        await Promise.all(ids.map((id, i) => addItem(backend, { id, value: i })));
+
+        const stored = await backend.getRecords<Item>(COLLECTION);
+        expect(stored.map(item => item.id).sort()).toEqual([...ids].sort());
+    });
+
+    it('applies mutations to the same key in call order', async () => {
+        await backend.setRecords<Item>(COLLECTION, [{ id: 'a', value: 0 }]);
+
+        await Promise.all([1, 2, 3, 4, 5].map(value => updateItem(backend, { id: 'a', value })));
+
+        expect(await backend.getRecords<Item>(COLLECTION)).toEqual([{ id: 'a', value: 5 }]);
+    });
+
+    it('runs later mutations after one fails', async () => {
+        const failing = withKeyLock(COLLECTION, async () => {
+            throw new Error('write failed');
+        });
+        const following = addItem(backend, { id: 'a', value: 1 });
+
+        await expect(failing).rejects.toThrow('write failed');
+        await following;
+        expect(await backend.getRecords<Item>(COLLECTION)).toEqual([{ id: 'a', value: 1 }]);
+    });
+});
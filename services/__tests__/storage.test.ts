@@ -0,0 +1,103 @@
+import { addTransaction, updateTransaction, deleteTransaction, getTransactions, TRANSACTIONS_KEY } from '../storage';
+import { createMemoryBackend } from '../backends/memoryBackend';
+import { StorageBackend, StorageRecord, setStorageBackend } from '../storageBackend';
+import { clearStore } from '../store';
+import { ExpenseTransaction, NewTransaction, Transaction } from '../../types/transaction';
+
+// Native modules behind the backends these tests don't use
+jest.mock('@react-native-async-storage/async-storage', () => require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('expo-sqlite', () => ({}));
+
+/**
+ * Memory backend whose record writes read the whole collection, wait, then write it back,
+ * as the AsyncStorage backend does - so unserialized mutations would lose each other's changes
+ */
+const createSlowBackend = (): StorageBackend => {
+    const inner = createMemoryBackend();
+    const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+    const rewrite = async <T extends StorageRecord>(collection: string, change: (records: T[]) => T[]) => {
+        const records = await inner.getRecords<T>(collection);
+        await tick();
+        await inner.setRecords(collection, change(records));
+    };
+
+    return {
+        ...inner,
+        insertRecord: (collection, record) => rewrite(collection, records => [record, ...records]),
+        updateRecord: async (collection, record) => {
+            const exists = (await inner.getRecords(collection)).some(r => r.id === record.id);
+            if (exists) await rewrite(collection, records => records.map(r => r.id === record.id ? record : r));
+            return exists;
+        },
+        deleteRecord: (collection, id) => rewrite(collection, records => records.filter(r => r.id !== id)),
+    };
+};
+
+const expense = (description: string, minor: number): NewTransaction => ({
+    type: 'expense',
+    amount: { minor, currency: 'USD' },
+    description,
+    date: '2026-01-15T12:00:00.000Z',
+    accountId: 'default',
+    category: 'Food',
+});
+
+const descriptions = (transactions: Transaction[]) => transactions.map(t => t.description).sort();
+
+describe('transaction storage', () => {
+    let backend: StorageBackend;
+
+    beforeEach(() => {
+        backend = createSlowBackend();
+        setStorageBackend(backend);
+        clearStore();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('keeps every concurrent add, update and delete', async () => {
+        const seeded: ExpenseTransaction[] = [
+            { ...(expense('a', 100) as Omit<ExpenseTransaction, 'id'>), id: 'a' },
+            { ...(expense('b', 200) as Omit<ExpenseTransaction, 'id'>), id: 'b' },
+            { ...(expense('c', 300) as Omit<ExpenseTransaction, 'id'>), id: 'c' },
+        ];
+        await backend.setRecords(TRANSACTIONS_KEY, seeded);
+
+        const results = await Promise.all([
+            addTransaction(expense('d', 400)),
+            updateTransaction({ ...seeded[0], description: 'a2' }),
+            deleteTransaction('b'),
+            addTransaction(expense('e', 500)),
+            updateTransaction({ ...seeded[2], description: 'c2' }),
+            addTransaction(expense('f', 600)),
+        ]);
+
+        expect(results.every(result => result.ok)).toBe(true);
+        expect(descriptions(await backend.getRecords<Transaction>(TRANSACTIONS_KEY))).toEqual(['a2', 'c2', 'd', 'e', 'f']);
+        // The cached list matches what was stored
+        const cached = await getTransactions();
+        expect(cached.ok && descriptions(cached.value)).toEqual(['a2', 'c2', 'd', 'e', 'f']);
+    });
+
+    it('keeps all of many concurrent adds', async () => {
+        const names = Array.from({ length: 30 }, (_, i) => `item-${i}`);
+
+        await Promise.all(names.map((name, i) => addTransaction(expense(name, i + 1))));
+
+        const stored = await backend.getRecords<Transaction>(TRANSACTIONS_KEY);
+        expect(descriptions(stored)).toEqual([...names].sort());
+        expect(new Set(stored.map(t => t.id)).size).toBe(names.length);
+    });
+
+    it('reports an update to a missing transaction without touching the rest', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        await addTransaction(expense('kept', 100));
+
+        const result = await updateTransaction({ ...(expense('missing', 200) as Omit<ExpenseTransaction, 'id'>), id: 'missing' });
+
+        expect(!result.ok && result.error.category).toBe('not-found');
+        expect(descriptions(await backend.getRecords<Transaction>(TRANSACTIONS_KEY))).toEqual(['kept']);
+    });
+});
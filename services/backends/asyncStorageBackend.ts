@@ -0,0 +1,51 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StorageBackend, StorageRecord } from '../storageBackend';
+
+/**
+ * Default backend. Each collection is a single JSON array under its key,
+ * which keeps existing installs readable without a data copy.
+ */
+export const createAsyncStorageBackend = (): StorageBackend => {
+    const readCollection = async <T extends StorageRecord>(collection: string): Promise<T[]> => {
+        const jsonValue = await AsyncStorage.getItem(collection);
+        return jsonValue ? JSON.parse(jsonValue) : [];
+    };
+
+    const writeCollection = async <T extends StorageRecord>(collection: string, records: T[]): Promise<void> => {
+        await AsyncStorage.setItem(collection, JSON.stringify(records));
+    };
+
+    return {
+        name: 'async-storage',
+
+        getItem: (key) => AsyncStorage.getItem(key),
+        setItem: (key, value) => AsyncStorage.setItem(key, value),
+        removeItem: (key) => AsyncStorage.removeItem(key),
+
+        getRecords: readCollection,
+        getRawCollection: (collection) => AsyncStorage.getItem(collection),
+        setRecords: writeCollection,
+
+        insertRecord: async (collection, record) => {
+            const records = await readCollection(collection);
+            records.unshift(record);
+            await writeCollection(collection, records);
+        },
+
+        updateRecord: async (collection, record) => {
+            const records = await readCollection(collection);
+            const index = records.findIndex(r => r.id === record.id);
+            if (index === -1) return false;
+            records[index] = record;
+            await writeCollection(collection, records);
+            return true;
+        },
+
+        deleteRecord: async (collection, id) => {
+            const records = await readCollection(collection);
+            await writeCollection(collection, records.filter(r => r.id !== id));
+        },
+
+        clearRecords: (collection) => AsyncStorage.removeItem(collection),
+    };
+};
@@ -0,0 +1,57 @@
+import { StorageBackend, StorageRecord } from '../storageBackend';
+
+/**
+ * Non-persistent backend for tests. Records are copied through JSON on the
+ * way in and out so callers can't mutate stored state by reference.
+ */
+export const createMemoryBackend = (): StorageBackend => {
+    const items = new Map<string, string>();
+    const collections = new Map<string, string[]>();
+
+    const readCollection = <T extends StorageRecord>(collection: string): T[] =>
+        (collections.get(collection) || []).map(value => JSON.parse(value));
+
+    const writeCollection = <T extends StorageRecord>(collection: string, records: T[]): void => {
+        collections.set(collection, records.map(record => JSON.stringify(record)));
+    };
+
+    return {
+        name: 'memory',
+
+        getItem: async (key) => items.get(key) ?? null,
+        setItem: async (key, value) => {
+            items.set(key, value);
+        },
+        removeItem: async (key) => {
+            items.delete(key);
+        },
+
+        getRecords: async (collection) => readCollection(collection),
+        getRawCollection: async (collection) => {
+            const values = collections.get(collection);
+            return values ? JSON.stringify(values) : null;
+        },
+        setRecords: async (collection, records) => writeCollection(collection, records),
+
+        insertRecord: async (collection, record) => {
+            writeCollection(collection, [record, ...readCollection(collection)]);
+        },
+
+        updateRecord: async (collection, record) => {
+            const records = readCollection(collection);
+            const index = records.findIndex(r => r.id === record.id);
+            if (index === -1) return false;
+            records[index] = record;
+            writeCollection(collection, records);
+            return true;
+        },
+
+        deleteRecord: async (collection, id) => {
+            writeCollection(collection, readCollection(collection).filter(r => r.id !== id));
+        },
+
+        clearRecords: async (collection) => {
+            collections.delete(collection);
+        },
+    };
+};
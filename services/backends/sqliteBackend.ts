@@ -0,0 +1,101 @@
+import * as SQLite from 'expo-sqlite';
+import { StorageBackend, StorageRecord } from '../storageBackend';
+
+const DATABASE_NAME = 'expense_tracker.db';
+
+/**
+ * SQLite backend for large histories. Every record is its own row, so adding,
+ * editing or deleting one transaction touches a single row instead of
+ * re-serializing the whole collection.
+ *
+ * `position` keeps the newest-first ordering the AsyncStorage backend gets
+ * from `unshift`: inserts take a position below the current minimum.
+ */
+export const createSQLiteBackend = async (): Promise<StorageBackend> => {
+    const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+
+    await db.execAsync(`
+        PRAGMA journal_mode = WAL;
+        CREATE TABLE IF NOT EXISTS kv (
+            key TEXT PRIMARY KEY NOT NULL,
+            value TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS records (
+            collection TEXT NOT NULL,
+            id TEXT NOT NULL,
+            position INTEGER NOT NULL,
+            data TEXT NOT NULL,
+            PRIMARY KEY (collection, id)
+        );
+        CREATE INDEX IF NOT EXISTS records_by_position ON records (collection, position);
+    `);
+
+    return {
+        name: 'sqlite',
+
+        getItem: async (key) => {
+            const row = await db.getFirstAsync<{ value: string }>('SELECT value FROM kv WHERE key = ?', key);
+            return row ? row.value : null;
+        },
+
+        setItem: async (key, value) => {
+            await db.runAsync('INSERT OR REPLACE INTO kv (key, value) VALUES (?, ?)', key, value);
+        },
+
+        removeItem: async (key) => {
+            await db.runAsync('DELETE FROM kv WHERE key = ?', key);
+        },
+
+        getRecords: async <T extends StorageRecord>(collection: string): Promise<T[]> => {
+            const rows = await db.getAllAsync<{ data: string }>(
+                'SELECT data FROM records WHERE collection = ? ORDER BY position ASC',
+                collection
+            );
+            return rows.map(row => JSON.parse(row.data));
+        },
+
+        getRawCollection: async (collection) => {
+            const rows = await db.getAllAsync<{ data: string }>(
+                'SELECT data FROM records WHERE collection = ? ORDER BY position ASC',
+                collection
+            );
+            return rows.length > 0 ? JSON.stringify(rows.map(row => row.data)) : null;
+        },
+
+        setRecords: async (collection, records) => {
+            await db.withExclusiveTransactionAsync(async (txn) => {
+                await txn.runAsync('DELETE FROM records WHERE collection = ?', collection);
+                for (let i = 0; i < records.length; i++) {
+                    await txn.runAsync(
+                        'INSERT OR REPLACE INTO records (collection, id, position, data) VALUES (?, ?, ?, ?)',
+                        collection, records[i].id, i, JSON.stringify(records[i])
+                    );
+                }
+            });
+        },
+
+        insertRecord: async (collection, record) => {
+            await db.runAsync(
+                `INSERT OR REPLACE INTO records (collection, id, position, data)
+                 VALUES (?, ?, (SELECT COALESCE(MIN(position), 0) - 1 FROM records WHERE collection = ?), ?)`,
+                collection, record.id, collection, JSON.stringify(record)
+            );
+        },
+
+        updateRecord: async (collection, record) => {
+            const result = await db.runAsync(
+                'UPDATE records SET data = ? WHERE collection = ? AND id = ?',
+                JSON.stringify(record), collection, record.id
+            );
+            return result.changes > 0;
+        },
+
+        deleteRecord: async (collection, id) => {
+            await db.runAsync('DELETE FROM records WHERE collection = ? AND id = ?', collection, id);
+        },
+
+        clearRecords: async (collection) => {
+            await db.runAsync('DELETE FROM records WHERE collection = ?', collection);
+        },
+    };
+};
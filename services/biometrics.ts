@@ -0,0 +1,47 @@
+import * as LocalAuthentication from 'expo-local-authentication';
+import { logError } from './diagnostics';
+
+export interface BiometricSupport {
+    available: boolean; // Hardware present and at least one fingerprint/face enrolled
+    label: string; // e.g. "Face ID" or "Fingerprint", for button and setting titles
+}
+
+/**
+ * Check for biometric hardware and enrollment
+ */
+export const getBiometricSupport = async (): Promise<BiometricSupport> => {
+    try {
+        const [hasHardware, isEnrolled, types] = await Promise.all([
+            LocalAuthentication.hasHardwareAsync(),
+            LocalAuthentication.isEnrolledAsync(),
+            LocalAuthentication.supportedAuthenticationTypesAsync(),
+        ]);
+        const label = types.includes(LocalAuthentication.AuthenticationType.FACIAL_RECOGNITION)
+            ? 'Face ID'
+            : types.includes(LocalAuthentication.AuthenticationType.IRIS)
+                ? 'Iris'
+                : 'Fingerprint';
+        return { available: hasHardware && isEnrolled, label };
+    } catch (error) {
+        logError('Error checking biometric support', error);
+        return { available: false, label: 'Biometrics' };
+    }
+};
+
+/**
+ * Show the system biometric prompt. The device passcode is not accepted as a
+ * fallback - the app's own PIN is the fallback.
+ */
+export const authenticateWithBiometrics = async (promptMessage: string): Promise<boolean> => {
+    try {
+        const result = await LocalAuthentication.authenticateAsync({
+            promptMessage,
+            cancelLabel: 'Use PIN',
+            disableDeviceFallback: true,
+        });
+        return result.success;
+    } catch (error) {
+        logError('Error authenticating with biometrics', error);
+        return false;
+    }
+};
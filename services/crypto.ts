@@ -0,0 +1,98 @@
+import * as Crypto from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToHex, hexToBytes, utf8ToBytes, bytesToUtf8, equalBytes } from '@noble/ciphers/utils';
+import { hmac } from '@noble/hashes/hmac';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { SecretHash } from '../types/pin';
+
+export const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const NONCE_LENGTH = 24;
+const CIPHERTEXT_PREFIX = 'x1';
+
+// PBKDF2 here is pure JS, and Hermes runs it without a JIT - a fixed count high enough for
+// fast phones takes many seconds on slow ones. The count is measured on the device instead,
+// to take about this long per derivation. Each wrapped key stores the count it was made with.
+export const KDF_TARGET_MS = 500;
+// Recovery codes carry 40 random bits, so far less stretching keeps them as hard to guess as a PIN
+export const RECOVERY_KDF_TARGET_MS = 50;
+const MIN_KDF_ITERATIONS = 1000;
+const MAX_KDF_ITERATIONS = 600000;
+const CALIBRATION_ITERATIONS = 1000;
+
+export { bytesToHex, hexToBytes };
+
+/**
+ * Random bytes from the platform's secure random source
+ */
+export const randomBytes = (length: number): Uint8Array => Crypto.getRandomBytes(length);
+
+export const generateKey = (): Uint8Array => randomBytes(KEY_LENGTH);
+
+export const generateSalt = (): Uint8Array => randomBytes(SALT_LENGTH);
+
+/**
+ * Stretch a low-entropy secret (PIN, recovery code) into a 256-bit key with PBKDF2-SHA256
+ */
+export const deriveKey = (secret: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+    return pbkdf2Async(sha256, utf8ToBytes(secret), salt, { c: iterations, dkLen: KEY_LENGTH });
+};
+
+// Measured once per launch
+let iterationsPerMs: number | null = null;
+
+/**
+ * PBKDF2 iterations that take about `targetMs` on this device
+ */
+export const calibrateIterations = async (targetMs: number): Promise<number> => {
+    if (iterationsPerMs === null) {
+        const start = Date.now();
+        await deriveKey('calibration', generateSalt(), CALIBRATION_ITERATIONS);
+        iterationsPerMs = CALIBRATION_ITERATIONS / Math.max(1, Date.now() - start);
+    }
+    const iterations = Math.round(iterationsPerMs * targetMs);
+    return Math.min(MAX_KDF_ITERATIONS, Math.max(MIN_KDF_ITERATIONS, iterations));
+};
+
+/**
+ * Mix a second, high-entropy key into a derived key (HMAC-SHA256), so the result needs both
+ */
+export const bindKey = (derivedKey: Uint8Array, bindingKey: Uint8Array): Uint8Array => hmac(sha256, bindingKey, derivedKey);
+
+/**
+ * Authenticated encryption (XChaCha20-Poly1305). Output is `x1:<nonce hex>:<ciphertext hex>`.
+ */
+export const encryptBytes = (key: Uint8Array, plaintext: Uint8Array): string => {
+    const nonce = randomBytes(NONCE_LENGTH);
+    const ciphertext = xchacha20poly1305(key, nonce).encrypt(plaintext);
+    return `${CIPHERTEXT_PREFIX}:${bytesToHex(nonce)}:${bytesToHex(ciphertext)}`;
+};
+
+/**
+ * Reverse of encryptBytes. Throws if the payload was tampered with or the key is wrong.
+ */
+export const decryptBytes = (key: Uint8Array, payload: string): Uint8Array => {
+    const [prefix, nonceHex, ciphertextHex] = payload.split(':');
+    if (prefix !== CIPHERTEXT_PREFIX || !nonceHex || !ciphertextHex) {
+        throw new Error('Unrecognized ciphertext format');
+    }
+    return xchacha20poly1305(key, hexToBytes(nonceHex)).decrypt(hexToBytes(ciphertextHex));
+};
+
+export const encryptString = (key: Uint8Array, plaintext: string): string => encryptBytes(key, utf8ToBytes(plaintext));
+
+export const decryptString = (key: Uint8Array, payload: string): string => bytesToUtf8(decryptBytes(key, payload));
+
+/**
+ * Compare without returning early on the first differing byte
+ */
+export const constantTimeEqual = (a: string, b: string): boolean => equalBytes(utf8ToBytes(a), utf8ToBytes(b));
+
+/**
+ * Check a secret against a hash stored by an install from before encryption
+ */
+export const verifySecret = async (secret: string, stored: SecretHash): Promise<boolean> => {
+    const hash = await deriveKey(secret, hexToBytes(stored.salt), stored.iterations);
+    return equalBytes(hash, hexToBytes(stored.hash));
+};
@@ -0,0 +1,110 @@
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import { getStorageBackend } from './storageBackend';
+import { generateId } from './id';
+import { DiagnosticEntry, DiagnosticLevel, DIAGNOSTIC_LEVEL_LABELS, redactDiagnosticText } from '../types/diagnostics';
+
+// Device-wide rather than per profile, so it covers the profile picker and locked screens too
+const DIAGNOSTICS_KEY = '@expense_tracker_diagnostics';
+
+const MAX_DIAGNOSTIC_ENTRIES = 200;
+
+// Entries are appended in the order they were logged, one write at a time
+let pendingWrite: Promise<void> = Promise.resolve();
+
+// ============ LOGGING ============
+
+const describeError = (error: unknown): string => {
+    if (error instanceof Error) return `${error.name}: ${error.message}`;
+    return String(error);
+};
+
+/**
+ * Add an entry to the diagnostics log. Messages and error details are redacted
+ * before they're stored - the log sits in plain storage so it can be read while locked.
+ * Never throws and never needs awaiting; a log write must not break what it's logging.
+ */
+const record = (level: DiagnosticLevel, message: string, error?: unknown): void => {
+    const entry: DiagnosticEntry = {
+        id: generateId(),
+        level,
+        timestamp: new Date().toISOString(),
+        message: redactDiagnosticText(message),
+        ...(error !== undefined ? { detail: redactDiagnosticText(describeError(error)) } : {}),
+    };
+
+    pendingWrite = pendingWrite.then(async () => {
+        try {
+            // Ring buffer: the oldest entries drop off once it's full
+            const updated = [entry, ...(await getDiagnostics())].slice(0, MAX_DIAGNOSTIC_ENTRIES);
+            await getStorageBackend().setItem(DIAGNOSTICS_KEY, JSON.stringify(updated));
+        } catch (writeError) {
+            console.error('Error writing diagnostics log:', writeError);
+        }
+    });
+};
+
+/**
+ * Log a failure, e.g. `logError('Error adding expense', error)`
+ */
+export const logError = (message: string, error?: unknown): void => {
+    if (error === undefined) console.error(message);
+    else console.error(`${message}:`, error);
+    record('error', message, error);
+};
+
+export const logWarning = (message: string, error?: unknown): void => {
+    if (error === undefined) console.warn(message);
+    else console.warn(`${message}:`, error);
+    record('warn', message, error);
+};
+
+export const logInfo = (message: string): void => {
+    record('info', message);
+};
+
+// ============ READING & EXPORT ============
+
+/**
+ * Diagnostic entries, newest first
+ */
+export const getDiagnostics = async (): Promise<DiagnosticEntry[]> => {
+    try {
+        const jsonValue = await getStorageBackend().getItem(DIAGNOSTICS_KEY);
+        return jsonValue ? JSON.parse(jsonValue) : [];
+    } catch (error) {
+        console.error('Error getting diagnostics log:', error);
+        return [];
+    }
+};
+
+export const clearDiagnostics = async (): Promise<void> => {
+    await pendingWrite;
+    await getStorageBackend().removeItem(DIAGNOSTICS_KEY);
+};
+
+/**
+ * Plain-text bundle to attach to a bug report: app and device details followed
+ * by every entry. Holds no amounts, descriptions, PINs or profile names.
+ */
+export const buildDiagnosticsReport = async (): Promise<string> => {
+    await pendingWrite;
+    const entries = await getDiagnostics();
+
+    const header = [
+        'Expense Tracker diagnostics',
+        `Generated: ${new Date().toISOString()}`,
+        `App version: ${Constants.expoConfig?.version ?? 'unknown'}`,
+        `Platform: ${Platform.OS} ${Platform.Version}`,
+        `Storage backend: ${getStorageBackend().name}`,
+        `Entries: ${entries.length}`,
+    ];
+
+    // Oldest first reads more naturally as a timeline
+    const lines = [...entries].reverse().map((entry) => {
+        const line = `${entry.timestamp} [${DIAGNOSTIC_LEVEL_LABELS[entry.level].toUpperCase()}] ${entry.message}`;
+        return entry.detail ? `${line} - ${entry.detail}` : line;
+    });
+
+    return [...header, '', ...lines].join('\n');
+};
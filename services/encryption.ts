@@ -0,0 +1,445 @@
+import * as SecureStore from 'expo-secure-store';
+import { StorageBackend, StorageRecord } from './storageBackend';
+import { getProfileBackend, scopeKey } from './profiles';
+import { withKeyLock } from './keyLock';
+import { logWarning } from './diagnostics';
+import {
+    KDF_TARGET_MS,
+    RECOVERY_KDF_TARGET_MS,
+    calibrateIterations,
+    generateKey,
+    generateSalt,
+    deriveKey,
+    bindKey,
+    encryptBytes,
+    decryptBytes,
+    encryptString,
+    decryptString,
+    bytesToHex,
+    hexToBytes,
+} from './crypto';
+
+const KEY_ENVELOPE_KEY = '@expense_tracker_key_envelope';
+const KEYCHAIN_DATA_KEY = 'expense_tracker_data_key'; // SecureStore keys can't contain '@'
+const DEVICE_SECRET_KEY = 'expense_tracker_device_secret';
+
+/**
+ * Which secret a copy of the data key is wrapped with. `recovery` is the single code
+ * from older installs; `recovery-<n>` are the one-time codes.
+ */
+export type KeySlot = 'pin' | 'recovery' | `recovery-${number}`;
+
+interface WrappedKey {
+    salt: string; // hex
+    iterations: number;
+    wrappedKey: string; // data key encrypted with the key derived from the secret
+    deviceBound?: boolean; // Wrapping key also needs the device secret; unset on slots from older installs
+}
+
+/**
+ * The random data key that encrypts every record, stored once per secret that can unlock it
+ */
+interface KeyEnvelope {
+    version: 1;
+    slots: Partial<Record<KeySlot, WrappedKey>>;
+}
+
+/**
+ * Stored form of an encrypted record. The id stays readable so backends can
+ * still update and delete single records.
+ */
+interface EncryptedRecord extends StorageRecord {
+    enc: string;
+}
+
+export class StorageLockedError extends Error {
+    constructor() {
+        super('Storage is locked - unlock with your PIN first');
+        this.name = 'StorageLockedError';
+    }
+}
+
+export class DeviceSecretMissingError extends Error {
+    constructor() {
+        super('The device secret for this data is missing - it can only be unlocked on the device that created it');
+        this.name = 'DeviceSecretMissingError';
+    }
+}
+
+// Only ever held in memory; cleared by lockStorage()
+let dataKey: Uint8Array | null = null;
+
+// ============ KEY MANAGEMENT ============
+
+const getEnvelope = async (): Promise<KeyEnvelope | null> => {
+    const jsonValue = await getProfileBackend().getItem(KEY_ENVELOPE_KEY);
+    return jsonValue ? JSON.parse(jsonValue) : null;
+};
+
+const saveEnvelope = async (envelope: KeyEnvelope): Promise<void> => {
+    await getProfileBackend().setItem(KEY_ENVELOPE_KEY, JSON.stringify(envelope));
+};
+
+/**
+ * Random secret kept only in the platform keychain, never in storage or backups.
+ * Every wrapping key mixes it in, so a copied envelope can't be opened by guessing
+ * the PIN or a recovery code offline - only on this device. Created on first use.
+ *
+ * The trade-off: data restored from a backup onto another device, or kept after the
+ * keychain is reset, can't be unlocked even with the right PIN or recovery code.
+ * Unlocking then fails with DeviceSecretMissingError, and the only way on is to erase it.
+ */
+const getDeviceSecret = (): Promise<Uint8Array> => withKeyLock(DEVICE_SECRET_KEY, async () => {
+    const stored = await SecureStore.getItemAsync(scopeKey(DEVICE_SECRET_KEY));
+    if (stored) return hexToBytes(stored);
+
+    const secret = generateKey();
+    await SecureStore.setItemAsync(scopeKey(DEVICE_SECRET_KEY), bytesToHex(secret), {
+        keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+    });
+    return secret;
+});
+
+/**
+ * Whether the data key is bound to a device secret this device doesn't have
+ */
+export const isDeviceSecretMissing = async (): Promise<boolean> => {
+    const envelope = await getEnvelope();
+    const bound = envelope !== null && Object.values(envelope.slots).some(wrapped => wrapped?.deviceBound);
+    return bound && (await SecureStore.getItemAsync(scopeKey(DEVICE_SECRET_KEY))) === null;
+};
+
+const readDeviceSecret = async (): Promise<Uint8Array> => {
+    const stored = await SecureStore.getItemAsync(scopeKey(DEVICE_SECRET_KEY));
+    if (!stored) throw new DeviceSecretMissingError();
+    return hexToBytes(stored);
+};
+
+const isRecoverySlot = (slot: string): boolean => slot === 'recovery' || slot.startsWith('recovery-');
+
+/**
+ * Iterations for a new wrapped key, measured so one derivation stays quick on this device
+ */
+const iterationsFor = (slot: KeySlot): Promise<number> => {
+    return calibrateIterations(isRecoverySlot(slot) ? RECOVERY_KDF_TARGET_MS : KDF_TARGET_MS);
+};
+
+const wrapKey = async (
+    key: Uint8Array,
+    secret: string,
+    iterations: number,
+    salt: Uint8Array = generateSalt()
+): Promise<WrappedKey> => {
+    const wrappingKey = bindKey(await deriveKey(secret, salt, iterations), await getDeviceSecret());
+    return {
+        salt: bytesToHex(salt),
+        iterations,
+        wrappedKey: encryptBytes(wrappingKey, key),
+        deviceBound: true,
+    };
+};
+
+/**
+ * Unwrap one slot's copy of the data key, or null if the secret doesn't open it.
+ * `derivedKeys` caches derivations by salt, for trying one secret on several slots.
+ * A slot from before device binding, or stretched far longer than this device needs,
+ * is rewrapped once it has opened.
+ */
+const openSlot = async (
+    envelope: KeyEnvelope,
+    slot: KeySlot,
+    secret: string,
+    derivedKeys: Map<string, Uint8Array> = new Map()
+): Promise<Uint8Array | null> => {
+    const wrapped = envelope.slots[slot];
+    if (!wrapped) return null;
+
+    const cacheKey = `${wrapped.salt}:${wrapped.iterations}`;
+    let derivedKey = derivedKeys.get(cacheKey);
+    if (!derivedKey) {
+        derivedKey = await deriveKey(secret, hexToBytes(wrapped.salt), wrapped.iterations);
+        derivedKeys.set(cacheKey, derivedKey);
+    }
+    const wrappingKey = wrapped.deviceBound ? bindKey(derivedKey, await readDeviceSecret()) : derivedKey;
+    let key: Uint8Array;
+    try {
+        key = decryptBytes(wrappingKey, wrapped.wrappedKey);
+    } catch {
+        return null;
+    }
+
+    const iterations = await iterationsFor(slot);
+    if (!wrapped.deviceBound || wrapped.iterations > iterations * 2) {
+        await saveEnvelope({
+            ...envelope,
+            slots: { ...envelope.slots, [slot]: await wrapKey(key, secret, iterations) },
+        });
+    }
+    return key;
+};
+
+// A missing slot is not a wrong secret, so it must not count as a failed attempt
+const openRequiredSlot = async (slot: KeySlot, secret: string): Promise<Uint8Array | null> => {
+    const envelope = await getEnvelope();
+    if (!envelope) throw new Error('Encryption has not been set up');
+    if (!envelope.slots[slot]) throw new Error(`No ${slot} key slot`);
+    return openSlot(envelope, slot, secret);
+};
+
+/**
+ * Whether data at rest is encrypted (a data key has been created)
+ */
+export const isEncryptionSetUp = async (): Promise<boolean> => {
+    return (await getEnvelope()) !== null;
+};
+
+/**
+ * Whether the data key has a copy wrapped with the given secret's slot
+ */
+export const hasKeySlot = async (slot: KeySlot): Promise<boolean> => {
+    return (await getEnvelope())?.slots[slot] !== undefined;
+};
+
+/**
+ * Number of recovery codes that can still unwrap the data key
+ */
+export const countRecoverySlots = async (): Promise<number> => {
+    const envelope = await getEnvelope();
+    return envelope ? Object.keys(envelope.slots).filter(isRecoverySlot).length : 0;
+};
+
+export const isStorageUnlocked = (): boolean => dataKey !== null;
+
+/**
+ * Forget the data key. Records can't be read again until the next unlock.
+ */
+export const lockStorage = (): void => {
+    dataKey = null;
+};
+
+/**
+ * Generate a fresh data key wrapped with each given secret, and unlock with it
+ */
+export const createDataKey = async (secrets: Partial<Record<KeySlot, string>>): Promise<void> => {
+    const key = generateKey();
+    const slots: KeyEnvelope['slots'] = {};
+    for (const [slot, secret] of Object.entries(secrets) as [KeySlot, string][]) {
+        slots[slot] = await wrapKey(key, secret, await iterationsFor(slot));
+    }
+    await saveEnvelope({ version: 1, slots });
+    dataKey = key;
+};
+
+/**
+ * Derive the wrapping key from a secret and unwrap the data key with it. The wrapped
+ * key is the only verifier of the secret: resolves false only if it doesn't open the slot,
+ * and throws if there is no such slot.
+ */
+export const unlockWithSecret = async (slot: KeySlot, secret: string): Promise<boolean> => {
+    const key = await openRequiredSlot(slot, secret);
+    if (!key) return false;
+    dataKey = key;
+    return true;
+};
+
+/**
+ * Check a secret against its slot without changing whether storage is unlocked
+ */
+export const checkSecret = async (slot: KeySlot, secret: string): Promise<boolean> => {
+    return (await openRequiredSlot(slot, secret)) !== null;
+};
+
+/**
+ * Try a recovery code on every recovery slot and unlock with the one it opens.
+ * Resolves that slot, or null if the code opens none.
+ */
+export const unlockWithRecoverySecret = async (secret: string): Promise<KeySlot | null> => {
+    const envelope = await getEnvelope();
+    if (!envelope) throw new Error('Encryption has not been set up');
+
+    // Codes made together share a salt, so this usually costs a single derivation
+    const derivedKeys = new Map<string, Uint8Array>();
+    for (const slot of Object.keys(envelope.slots).filter(isRecoverySlot) as KeySlot[]) {
+        const key = await openSlot(envelope, slot, secret, derivedKeys);
+        if (key) {
+            dataKey = key;
+            return slot;
+        }
+    }
+    return null;
+};
+
+/**
+ * Re-encrypt the data key for a new PIN or recovery code. Requires unlocked storage.
+ */
+export const rewrapDataKey = async (slot: KeySlot, secret: string): Promise<void> => {
+    if (!dataKey) throw new StorageLockedError();
+    const envelope = await getEnvelope();
+    if (!envelope) throw new Error('Encryption has not been set up');
+
+    await saveEnvelope({
+        ...envelope,
+        slots: { ...envelope.slots, [slot]: await wrapKey(dataKey, secret, await iterationsFor(slot)) },
+    });
+};
+
+/**
+ * Replace every recovery slot with one per code, all under one salt. Requires unlocked storage.
+ */
+export const replaceRecoverySlots = async (codes: string[]): Promise<void> => {
+    if (!dataKey) throw new StorageLockedError();
+    const envelope = await getEnvelope();
+    if (!envelope) throw new Error('Encryption has not been set up');
+
+    const salt = generateSalt();
+    const iterations = await calibrateIterations(RECOVERY_KDF_TARGET_MS);
+    const slots: KeyEnvelope['slots'] = {};
+    if (envelope.slots.pin) slots.pin = envelope.slots.pin;
+    for (let i = 0; i < codes.length; i++) {
+        slots[`recovery-${i}`] = await wrapKey(dataKey, codes[i], iterations, salt);
+    }
+    await saveEnvelope({ ...envelope, slots });
+};
+
+/**
+ * Drop one wrapped copy of the data key, e.g. for a used recovery code
+ */
+export const removeKeySlot = async (slot: KeySlot): Promise<void> => {
+    const envelope = await getEnvelope();
+    if (!envelope?.slots[slot]) return;
+    const { [slot]: _removed, ...slots } = envelope.slots;
+    await saveEnvelope({ ...envelope, slots });
+};
+
+/**
+ * Keep a copy of the data key in the platform keychain (iOS Keychain / Android Keystore),
+ * so biometric unlock can restore it without the PIN. The OS only releases it after a
+ * fingerprint or face check, and drops it when the enrolled biometrics change.
+ * Requires unlocked storage.
+ */
+export const storeDataKeyInKeychain = async (): Promise<void> => {
+    if (!dataKey) throw new StorageLockedError();
+    if (!SecureStore.canUseBiometricAuthentication()) {
+        throw new Error('Biometric unlock needs a fingerprint or face set up on this device');
+    }
+    // iOS asks for biometrics to overwrite a protected item, but not to create one
+    await removeDataKeyFromKeychain();
+    await SecureStore.setItemAsync(scopeKey(KEYCHAIN_DATA_KEY), bytesToHex(dataKey), {
+        keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+        requireAuthentication: true,
+    });
+};
+
+export const removeDataKeyFromKeychain = async (): Promise<void> => {
+    await SecureStore.deleteItemAsync(scopeKey(KEYCHAIN_DATA_KEY));
+};
+
+/**
+ * Unlock with the keychain copy of the data key, which shows the system biometric prompt.
+ * 'not-authenticated' if the prompt was cancelled or failed; 'missing' if there is no copy,
+ * or the OS dropped it because the enrolled biometrics changed.
+ */
+export const unlockFromKeychain = async (authenticationPrompt: string): Promise<'unlocked' | 'not-authenticated' | 'missing'> => {
+    let keyHex: string | null;
+    try {
+        keyHex = await SecureStore.getItemAsync(scopeKey(KEYCHAIN_DATA_KEY), {
+            requireAuthentication: true,
+            authenticationPrompt,
+        });
+    } catch (error) {
+        logWarning('Keychain read was not authenticated', error);
+        return 'not-authenticated';
+    }
+    if (!keyHex) return 'missing';
+    dataKey = hexToBytes(keyHex);
+    return 'unlocked';
+};
+
+/**
+ * Delete the data key and the device secret. Anything still encrypted with it becomes unreadable.
+ */
+export const destroyDataKey = async (): Promise<void> => {
+    dataKey = null;
+    await getProfileBackend().removeItem(KEY_ENVELOPE_KEY);
+    await removeDataKeyFromKeychain();
+    await SecureStore.deleteItemAsync(scopeKey(DEVICE_SECRET_KEY));
+};
+
+// ============ ENCRYPTED BACKEND ============
+
+const isEncryptedRecord = (record: StorageRecord): record is EncryptedRecord => {
+    return typeof (record as EncryptedRecord).enc === 'string';
+};
+
+/**
+ * Wrap a backend so every collection record is encrypted with the data key.
+ * Plain key/value items pass through untouched - they hold PIN and app settings,
+ * which must be readable before unlock.
+ *
+ * Records written before encryption was set up are still read as plaintext, so
+ * existing data stays readable until the encryption migration rewrites it.
+ */
+export const createEncryptedBackend = (inner: StorageBackend): StorageBackend => {
+    const decode = <T extends StorageRecord>(record: StorageRecord): T => {
+        if (!isEncryptedRecord(record)) return record as T;
+        if (!dataKey) throw new StorageLockedError();
+        return JSON.parse(decryptString(dataKey, record.enc));
+    };
+
+    const encode = async <T extends StorageRecord>(record: T): Promise<StorageRecord> => {
+        if (dataKey) {
+            return { id: record.id, enc: encryptString(dataKey, JSON.stringify(record)) } as EncryptedRecord;
+        }
+        // Never write plaintext once a data key exists
+        if (await isEncryptionSetUp()) throw new StorageLockedError();
+        return record;
+    };
+
+    return {
+        name: inner.name,
+
+        getItem: (key) => inner.getItem(key),
+        setItem: (key, value) => inner.setItem(key, value),
+        removeItem: (key) => inner.removeItem(key),
+
+        getRecords: async <T extends StorageRecord>(collection: string): Promise<T[]> => {
+            const records = await inner.getRecords(collection);
+            return records.map(record => decode<T>(record));
+        },
+
+        // Stays encrypted - a backup of unreadable data must not leak it
+        getRawCollection: (collection) => inner.getRawCollection(collection),
+
+        setRecords: async (collection, records) => {
+            const encoded: StorageRecord[] = [];
+            for (const record of records) {
+                encoded.push(await encode(record));
+            }
+            await inner.setRecords(collection, encoded);
+        },
+
+        insertRecord: async (collection, record) => {
+            await inner.insertRecord(collection, await encode(record));
+        },
+
+        updateRecord: async (collection, record) => {
+            return inner.updateRecord(collection, await encode(record));
+        },
+
+        deleteRecord: (collection, id) => inner.deleteRecord(collection, id),
+        clearRecords: (collection) => inner.clearRecords(collection),
+    };
+};
+
+let encryptedBackend: { inner: StorageBackend; outer: StorageBackend } | null = null;
+
+/**
+ * The active profile's backend wrapped for encryption - use for all collection reads and writes
+ */
+export const getEncryptedBackend = (): StorageBackend => {
+    const inner = getProfileBackend();
+    if (!encryptedBackend || encryptedBackend.inner !== inner) {
+        encryptedBackend = { inner, outer: createEncryptedBackend(inner) };
+    }
+    return encryptedBackend.outer;
+};
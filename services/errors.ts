@@ -0,0 +1,33 @@
+import { StorageLockedError, DeviceSecretMissingError } from './encryption';
+import { CorruptDataError, WritesBlockedError } from './integrity';
+import { logError } from './diagnostics';
+import { Result, StorageErrorCategory, ok, fail } from '../types/result';
+
+export class RecordNotFoundError extends Error {
+    constructor(collection: string, id: string) {
+        super(`No record ${id} in ${collection}`);
+        this.name = 'RecordNotFoundError';
+    }
+}
+
+export const categorizeError = (error: unknown): StorageErrorCategory => {
+    if (error instanceof StorageLockedError) return 'locked';
+    if (error instanceof DeviceSecretMissingError) return 'other-device';
+    if (error instanceof CorruptDataError) return 'corrupt';
+    if (error instanceof WritesBlockedError) return 'write-blocked';
+    if (error instanceof RecordNotFoundError) return 'not-found';
+    return 'unknown';
+};
+
+/**
+ * Run a storage operation and turn whatever it throws into a categorized failure.
+ * The one place storage errors are logged; `action` completes "Error ...".
+ */
+export const attempt = async <T>(action: string, operation: () => Promise<T>): Promise<Result<T>> => {
+    try {
+        return ok(await operation());
+    } catch (error) {
+        logError(`Error ${action}`, error);
+        return fail(categorizeError(error));
+    }
+};
@@ -0,0 +1,73 @@
+import * as Crypto from 'expo-crypto';
+
+// Crockford base32, as used by ULID (no I, L, O, U)
+const ENCODING = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const TIME_LENGTH = 10;
+const RANDOM_LENGTH = 16;
+
+let lastTime = -1;
+let lastRandom: number[] = [];
+
+const encodeTime = (time: number): string => {
+    let value = time;
+    let encoded = '';
+    for (let i = 0; i < TIME_LENGTH; i++) {
+        encoded = ENCODING.charAt(value % 32) + encoded;
+        value = Math.floor(value / 32);
+    }
+    return encoded;
+};
+
+const randomDigits = (): number[] => {
+    const bytes = Crypto.getRandomBytes(RANDOM_LENGTH);
+    return Array.from(bytes, byte => byte % 32);
+};
+
+/**
+ * Add one to the random part so ids created within the same millisecond still sort in creation order
+ */
+const incrementDigits = (digits: number[]): number[] => {
+    const next = [...digits];
+    for (let i = next.length - 1; i >= 0; i--) {
+        if (next[i] < 31) {
+            next[i] += 1;
+            return next;
+        }
+        next[i] = 0;
+    }
+    // 80 bits exhausted within one millisecond - practically impossible, start over
+    return randomDigits();
+};
+
+/**
+ * Generate a unique, lexicographically sortable id (ULID format).
+ * The first 10 characters encode the creation time in milliseconds.
+ */
+export const generateId = (now: number = Date.now()): string => {
+    if (now <= lastTime) {
+        lastRandom = incrementDigits(lastRandom);
+    } else {
+        lastTime = now;
+        lastRandom = randomDigits();
+    }
+    return encodeTime(lastTime) + lastRandom.map(digit => ENCODING.charAt(digit)).join('');
+};
+
+/**
+ * Give every record an id no earlier record in the list already uses.
+ * Returns the records (re-keyed where needed) and how many were changed.
+ */
+export const rekeyDuplicateIds = <T extends { id: string }>(records: T[], seen: Set<string> = new Set()): { records: T[]; changed: number } => {
+    let changed = 0;
+    const rekeyed = records.map(record => {
+        if (record.id && !seen.has(record.id)) {
+            seen.add(record.id);
+            return record;
+        }
+        changed++;
+        const id = generateId();
+        seen.add(id);
+        return { ...record, id };
+    });
+    return { records: rekeyed, changed };
+};
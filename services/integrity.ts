@@ -0,0 +1,195 @@
+import { StorageBackend, StorageRecord } from './storageBackend';
+import { getProfileBackend } from './profiles';
+import { getEncryptedBackend, StorageLockedError } from './encryption';
+import { logError, logWarning } from './diagnostics';
+import { notifyStoreChanged } from './store';
+import { withKeyLock } from './keyLock';
+import { QuarantineEntry } from '../types/quarantine';
+
+const QUARANTINE_KEY = '@expense_tracker_quarantine';
+
+export class CorruptDataError extends Error {
+    constructor(public readonly collection: string) {
+        super(`Stored data in ${collection} could not be read`);
+        this.name = 'CorruptDataError';
+    }
+}
+
+export class WritesBlockedError extends Error {
+    constructor(public readonly collection: string) {
+        super(`Writes to ${collection} are blocked until its unreadable data is repaired`);
+        this.name = 'WritesBlockedError';
+    }
+}
+
+// Screens load several collections at once; make sure each is only backed up once
+const pendingQuarantines = new Map<string, Promise<void>>();
+
+// ============ QUARANTINE ============
+
+/**
+ * Collections of the active profile that couldn't be read, oldest first
+ */
+export const getQuarantine = async (): Promise<QuarantineEntry[]> => {
+    const jsonValue = await getProfileBackend().getItem(QUARANTINE_KEY);
+    return jsonValue ? JSON.parse(jsonValue) : [];
+};
+
+const saveQuarantine = async (entries: QuarantineEntry[]): Promise<void> => {
+    if (entries.length === 0) {
+        await getProfileBackend().removeItem(QUARANTINE_KEY);
+    } else {
+        await getProfileBackend().setItem(QUARANTINE_KEY, JSON.stringify(entries));
+    }
+};
+
+const isQuarantined = async (collection: string): Promise<boolean> => {
+    return (await getQuarantine()).some(entry => entry.collection === collection);
+};
+
+/**
+ * Copy a collection's stored contents to a backup key as-is and block writes to it
+ */
+const quarantineCollection = async (collection: string, reason: string): Promise<void> => {
+    if (await isQuarantined(collection)) return;
+
+    const backend = getProfileBackend();
+    const backupKey = `${collection}_unreadable_${Date.now()}`;
+    const raw = await backend.getRawCollection(collection);
+    if (raw !== null) {
+        await backend.setItem(backupKey, raw);
+    }
+
+    const entry: QuarantineEntry = { collection, backupKey, detectedAt: new Date().toISOString(), reason };
+    // Several collections can fail at once; each must land in the list
+    await withKeyLock(QUARANTINE_KEY, async () => {
+        await saveQuarantine([...(await getQuarantine()), entry]);
+    });
+    logWarning(`Quarantined unreadable collection ${collection} (backup in ${backupKey}): ${reason}`);
+};
+
+const releaseQuarantine = async (collection: string): Promise<void> => {
+    await withKeyLock(QUARANTINE_KEY, async () => {
+        await saveQuarantine((await getQuarantine()).filter(entry => entry.collection !== collection));
+    });
+};
+
+/**
+ * Read a quarantined collection again, e.g. after an app update fixed the cause.
+ * Lifts the quarantine and resolves true if it reads cleanly now.
+ */
+export const retryQuarantinedCollection = async (collection: string): Promise<boolean> => {
+    try {
+        await getEncryptedBackend().getRecords(collection);
+    } catch (error) {
+        logError(`Error re-reading ${collection}`, error);
+        return false;
+    }
+    await releaseQuarantine(collection);
+    notifyStoreChanged();
+    return true;
+};
+
+/**
+ * Give up on a quarantined collection and start it empty. The backup copy is kept.
+ */
+export const resetQuarantinedCollection = async (collection: string): Promise<void> => {
+    await getEncryptedBackend().clearRecords(collection);
+    await releaseQuarantine(collection);
+    notifyStoreChanged();
+};
+
+/**
+ * Delete every backup and quarantine entry, e.g. when all data is wiped
+ */
+export const clearQuarantine = async (): Promise<void> => {
+    await withKeyLock(QUARANTINE_KEY, async () => {
+        const backend = getProfileBackend();
+        for (const entry of await getQuarantine()) {
+            await backend.removeItem(entry.backupKey);
+        }
+        await backend.removeItem(QUARANTINE_KEY);
+    });
+};
+
+// ============ FAIL-SAFE BACKEND ============
+
+/**
+ * Wrap a backend so an unreadable collection is never mistaken for an empty one.
+ * A read that fails for any reason other than locked storage quarantines the
+ * collection and throws CorruptDataError; writes to it then throw WritesBlockedError,
+ * so a read-modify-write can't replace the user's history with a fresh list.
+ */
+export const createFailSafeBackend = (inner: StorageBackend): StorageBackend => {
+    const assertWritable = async (collection: string): Promise<void> => {
+        if (await isQuarantined(collection)) throw new WritesBlockedError(collection);
+    };
+
+    return {
+        name: inner.name,
+
+        getItem: (key) => inner.getItem(key),
+        setItem: (key, value) => inner.setItem(key, value),
+        removeItem: (key) => inner.removeItem(key),
+
+        getRecords: async <T extends StorageRecord>(collection: string): Promise<T[]> => {
+            if (await isQuarantined(collection)) throw new CorruptDataError(collection);
+            try {
+                return await inner.getRecords<T>(collection);
+            } catch (error) {
+                if (error instanceof StorageLockedError) throw error;
+
+                const reason = error instanceof Error ? error.message : String(error);
+                let pending = pendingQuarantines.get(collection);
+                if (!pending) {
+                    pending = quarantineCollection(collection, reason)
+                        .finally(() => pendingQuarantines.delete(collection));
+                    pendingQuarantines.set(collection, pending);
+                }
+                await pending;
+                throw new CorruptDataError(collection);
+            }
+        },
+
+        getRawCollection: (collection) => inner.getRawCollection(collection),
+
+        setRecords: async (collection, records) => {
+            await assertWritable(collection);
+            await inner.setRecords(collection, records);
+        },
+
+        insertRecord: async (collection, record) => {
+            await assertWritable(collection);
+            await inner.insertRecord(collection, record);
+        },
+
+        updateRecord: async (collection, record) => {
+            await assertWritable(collection);
+            return inner.updateRecord(collection, record);
+        },
+
+        deleteRecord: async (collection, id) => {
+            await assertWritable(collection);
+            await inner.deleteRecord(collection, id);
+        },
+
+        clearRecords: async (collection) => {
+            await assertWritable(collection);
+            await inner.clearRecords(collection);
+        },
+    };
+};
+
+let failSafeBackend: { inner: StorageBackend; outer: StorageBackend } | null = null;
+
+/**
+ * The encrypted backend with unreadable collections quarantined - use for all
+ * collection reads and writes in services/storage.ts
+ */
+export const getFailSafeBackend = (): StorageBackend => {
+    const inner = getEncryptedBackend();
+    if (!failSafeBackend || failSafeBackend.inner !== inner) {
+        failSafeBackend = { inner, outer: createFailSafeBackend(inner) };
+    }
+    return failSafeBackend.outer;
+};
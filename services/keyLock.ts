@@ -0,0 +1,20 @@
+// Kept apart from services/storage.ts so lower layers, like the quarantine list, can share the queue
+const pendingMutations = new Map<string, Promise<unknown>>();
+
+/**
+ * Run a mutation once every mutation queued earlier for the same key has settled.
+ * Read-modify-write updates to a key therefore apply one at a time, in call order,
+ * and a failed mutation does not block the ones queued after it.
+ */
+export const withKeyLock = <T>(key: string, mutation: () => Promise<T>): Promise<T> => {
+    const previous = pendingMutations.get(key) || Promise.resolve();
+    const result = previous.then(mutation);
+    const settled = result.then(() => undefined, () => undefined);
+    pendingMutations.set(key, settled);
+    settled.then(() => {
+        if (pendingMutations.get(key) === settled) {
+            pendingMutations.delete(key);
+        }
+    });
+    return result;
+};
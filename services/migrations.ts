@@ -0,0 +1,248 @@
+import { MonthPeriod, formatPeriodName } from '../types/monthPeriod';
+import { Expense } from '../types/expense';
+import { Income } from '../types/income';
+import { Transaction, ExpenseTransaction, IncomeTransaction, getCategoryLines } from '../types/transaction';
+import { Account, createDefaultAccount } from '../types/account';
+import { ExpenseCategory, createDefaultCategories } from '../types/category';
+import { isMoney, fromMajorUnits } from '../types/money';
+import {
+    TRANSACTIONS_KEY,
+    ACCOUNTS_KEY,
+    CATEGORIES_KEY,
+    STORAGE_KEY,
+    INCOME_STORAGE_KEY,
+    PERIODS_KEY,
+    MONTH_PERIOD_KEY,
+    getHomeCurrency,
+} from './storage';
+import { getProfileBackend } from './profiles';
+import { isStorageUnlocked } from './encryption';
+import { getFailSafeBackend } from './integrity';
+import { generateId, rekeyDuplicateIds } from './id';
+import { logError, logWarning, logInfo } from './diagnostics';
+import { clearStore } from './store';
+
+const SCHEMA_VERSION_KEY = '@expense_tracker_schema_version';
+
+// Transactions as migration 5 stored them, before they had an account
+type UnassignedTransaction = Omit<ExpenseTransaction, 'accountId'> | Omit<IncomeTransaction, 'accountId'>;
+
+export interface Migration {
+    version: number;
+    description: string;
+    /** Needs the data key, so it waits until the user has unlocked with their PIN */
+    requiresUnlock?: boolean;
+    migrate: () => Promise<void>;
+}
+
+// ============ MIGRATIONS ============
+
+/**
+ * Ordered list of schema migrations. Each entry upgrades stored data from
+ * `version - 1` to `version`. Never edit or reorder a migration once it has
+ * shipped - add a new one instead.
+ *
+ * Collections go through the fail-safe backend, so one that can't be read is
+ * quarantined for the repair screen, and its migration fails until it's repaired.
+ */
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Fold legacy single month period into the periods list',
+        migrate: async () => {
+            const backend = getFailSafeBackend();
+            const legacyValue = await backend.getItem(MONTH_PERIOD_KEY);
+            if (legacyValue === null) return;
+
+            const periods = await backend.getRecords<MonthPeriod>(PERIODS_KEY);
+
+            if (periods.length === 0) {
+                const legacy: Partial<MonthPeriod> = JSON.parse(legacyValue);
+                if (legacy && legacy.startDate && legacy.endDate) {
+                    periods.push({
+                        id: legacy.id || new Date(legacy.startDate).getTime().toString(),
+                        startDate: legacy.startDate,
+                        endDate: legacy.endDate,
+                        name: legacy.name || formatPeriodName(new Date(legacy.startDate), new Date(legacy.endDate)),
+                        isActive: true,
+                    });
+                    await backend.setRecords(PERIODS_KEY, periods);
+                }
+            }
+
+            await backend.removeItem(MONTH_PERIOD_KEY);
+        },
+    },
+    {
+        version: 2,
+        description: 'Re-key transactions and periods that share an id',
+        migrate: async () => {
+            const backend = getFailSafeBackend();
+
+            // Expenses and income were both keyed by Date.now(), so check them against each other too
+            const transactionIds = new Set<string>();
+            const expenses = rekeyDuplicateIds(await backend.getRecords<Expense>(STORAGE_KEY), transactionIds);
+            const income = rekeyDuplicateIds(await backend.getRecords<Income>(INCOME_STORAGE_KEY), transactionIds);
+            const periods = rekeyDuplicateIds(await backend.getRecords<MonthPeriod>(PERIODS_KEY));
+
+            if (expenses.changed > 0) {
+                await backend.setRecords(STORAGE_KEY, expenses.records);
+            }
+            if (income.changed > 0) {
+                await backend.setRecords(INCOME_STORAGE_KEY, income.records);
+            }
+            if (periods.changed > 0) {
+                await backend.setRecords(PERIODS_KEY, periods.records);
+            }
+        },
+    },
+    {
+        version: 3,
+        description: 'Store transaction amounts as integer minor units with a currency',
+        migrate: async () => {
+            const backend = getFailSafeBackend();
+
+            // Stored amounts are plain floats before this version
+            const toMoney = <T extends { amount: unknown }>(record: T): T => {
+                if (isMoney(record.amount)) return record;
+                const amount = typeof record.amount === 'number' ? record.amount : parseFloat(String(record.amount));
+                return { ...record, amount: fromMajorUnits(isNaN(amount) ? 0 : amount) };
+            };
+
+            const expenses = await backend.getRecords<Expense>(STORAGE_KEY);
+            await backend.setRecords(STORAGE_KEY, expenses.map(toMoney));
+
+            const income = await backend.getRecords<Income>(INCOME_STORAGE_KEY);
+            await backend.setRecords(INCOME_STORAGE_KEY, income.map(toMoney));
+        },
+    },
+    {
+        version: 4,
+        description: 'Encrypt existing plaintext transactions and periods',
+        requiresUnlock: true,
+        migrate: async () => {
+            // Plaintext records are read as-is and written back encrypted
+            const backend = getFailSafeBackend();
+            for (const collection of [STORAGE_KEY, INCOME_STORAGE_KEY, PERIODS_KEY]) {
+                const records = await backend.getRecords(collection);
+                if (records.length > 0) {
+                    await backend.setRecords(collection, records);
+                }
+            }
+        },
+    },
+    {
+        version: 5,
+        description: 'Merge expenses and income into a single transactions collection',
+        requiresUnlock: true,
+        migrate: async () => {
+            const backend = getFailSafeBackend();
+            const existing = await backend.getRecords<UnassignedTransaction>(TRANSACTIONS_KEY);
+            const expenses = await backend.getRecords<Expense>(STORAGE_KEY);
+            const income = await backend.getRecords<Income>(INCOME_STORAGE_KEY);
+            if (expenses.length === 0 && income.length === 0) return;
+
+            // Skip records a previous, interrupted run already copied over
+            const copiedIds = new Set(existing.map(t => t.id));
+            const merged: UnassignedTransaction[] = [
+                ...existing,
+                ...expenses.filter(e => !copiedIds.has(e.id)).map(e => ({ ...e, type: 'expense' as const })),
+                ...income.filter(i => !copiedIds.has(i.id)).map(i => ({ ...i, type: 'income' as const })),
+            ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+            await backend.setRecords(TRANSACTIONS_KEY, rekeyDuplicateIds(merged).records);
+            // Only cleared once the merged copy is saved
+            await backend.clearRecords(STORAGE_KEY);
+            await backend.clearRecords(INCOME_STORAGE_KEY);
+        },
+    },
+    {
+        version: 6,
+        description: 'Add a default account and assign every transaction to it',
+        requiresUnlock: true,
+        migrate: async () => {
+            const backend = getFailSafeBackend();
+            let accounts = await backend.getRecords<Account>(ACCOUNTS_KEY);
+            if (accounts.length === 0) {
+                const homeCurrency = await getHomeCurrency();
+                if (!homeCurrency.ok) throw new Error(homeCurrency.error.message);
+                accounts = [createDefaultAccount(generateId(), homeCurrency.value)];
+                await backend.setRecords(ACCOUNTS_KEY, accounts);
+            }
+
+            const transactions = await backend.getRecords<UnassignedTransaction & { accountId?: string }>(TRANSACTIONS_KEY);
+            if (transactions.every(t => t.accountId)) return;
+            const assigned: Transaction[] = transactions.map(t => ({ ...t, accountId: t.accountId || accounts[0].id }));
+            await backend.setRecords(TRANSACTIONS_KEY, assigned);
+        },
+    },
+    {
+        version: 7,
+        description: 'Create editable categories from the built-in ones and those already on expenses',
+        requiresUnlock: true,
+        migrate: async () => {
+            const backend = getFailSafeBackend();
+            const existing = await backend.getRecords<ExpenseCategory>(CATEGORIES_KEY);
+            if (existing.length > 0) return;
+
+            const transactions = await backend.getRecords<Transaction>(TRANSACTIONS_KEY);
+            const usedNames = transactions.flatMap(t =>
+                t.type === 'expense' ? getCategoryLines(t).map(line => line.category) : []
+            );
+            await backend.setRecords(CATEGORIES_KEY, createDefaultCategories(generateId, usedNames));
+        },
+    },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length === 0 ? 0 : MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// ============ RUNNER ============
+
+/**
+ * Get the schema version the stored data is currently at (0 = never migrated)
+ */
+export const getSchemaVersion = async (): Promise<number> => {
+    const value = await getProfileBackend().getItem(SCHEMA_VERSION_KEY);
+    const version = value ? parseInt(value, 10) : 0;
+    return isNaN(version) ? 0 : version;
+};
+
+/**
+ * Run every pending migration in order on the active profile's data. The stored version is bumped after
+ * each successful step, so a failure leaves data at the last completed version
+ * and the remaining steps are retried on the next launch.
+ *
+ * While storage is locked the run stops before the first migration that
+ * requires unlock; call again after unlocking to finish.
+ */
+export const runMigrations = async (): Promise<number> => {
+    const currentVersion = await getSchemaVersion();
+
+    if (currentVersion > SCHEMA_VERSION) {
+        logWarning(`Stored schema version ${currentVersion} is newer than this app (${SCHEMA_VERSION})`);
+        return currentVersion;
+    }
+
+    const pending = MIGRATIONS
+        .filter(m => m.version > currentVersion)
+        .sort((a, b) => a.version - b.version);
+
+    let version = currentVersion;
+    for (const migration of pending) {
+        if (migration.requiresUnlock && !isStorageUnlocked()) break;
+        try {
+            await migration.migrate();
+        } catch (error) {
+            logError(`Error running migration ${migration.version} (${migration.description})`, error);
+            throw error;
+        }
+        version = migration.version;
+        await getProfileBackend().setItem(SCHEMA_VERSION_KEY, version.toString());
+        logInfo(`Ran migration ${migration.version} (${migration.description})`);
+    }
+
+    // Migrations write to storage directly, so anything cached before them is stale
+    if (version !== currentVersion) clearStore();
+
+    return version;
+};
@@ -0,0 +1,61 @@
+import { StorageBackend, getStorageBackend } from './storageBackend';
+import { DEFAULT_PROFILE_ID } from '../types/profile';
+
+// Whose data the storage functions read and write; chosen in the profile picker
+let activeProfileId = DEFAULT_PROFILE_ID;
+
+export const getActiveProfileId = (): string => activeProfileId;
+
+/**
+ * Point every storage function at another profile's data. Lock storage first -
+ * the data key in memory belongs to the previous profile.
+ */
+export const setActiveProfileId = (profileId: string): void => {
+    activeProfileId = profileId;
+};
+
+/**
+ * Namespace a key or collection name for a profile. The default profile keeps the
+ * bare key, so data from before profiles stays where it was.
+ * Only letters, digits and `_` are added, which keychain keys also allow.
+ */
+export const scopeKey = (key: string, profileId: string = activeProfileId): string => {
+    return profileId === DEFAULT_PROFILE_ID ? key : `${key}_${profileId}`;
+};
+
+/**
+ * Wrap a backend so every key and collection is namespaced to one profile
+ */
+export const createProfileBackend = (inner: StorageBackend, profileId: string): StorageBackend => {
+    const scope = (key: string) => scopeKey(key, profileId);
+
+    return {
+        name: inner.name,
+
+        getItem: (key) => inner.getItem(scope(key)),
+        setItem: (key, value) => inner.setItem(scope(key), value),
+        removeItem: (key) => inner.removeItem(scope(key)),
+
+        getRecords: (collection) => inner.getRecords(scope(collection)),
+        getRawCollection: (collection) => inner.getRawCollection(scope(collection)),
+        setRecords: (collection, records) => inner.setRecords(scope(collection), records),
+        insertRecord: (collection, record) => inner.insertRecord(scope(collection), record),
+        updateRecord: (collection, record) => inner.updateRecord(scope(collection), record),
+        deleteRecord: (collection, id) => inner.deleteRecord(scope(collection), id),
+        clearRecords: (collection) => inner.clearRecords(scope(collection)),
+    };
+};
+
+let profileBackend: { inner: StorageBackend; profileId: string; outer: StorageBackend } | null = null;
+
+/**
+ * The active backend scoped to the active profile - use for everything except the
+ * profile list itself, which is shared by all profiles
+ */
+export const getProfileBackend = (): StorageBackend => {
+    const inner = getStorageBackend();
+    if (!profileBackend || profileBackend.inner !== inner || profileBackend.profileId !== activeProfileId) {
+        profileBackend = { inner, profileId: activeProfileId, outer: createProfileBackend(inner, activeProfileId) };
+    }
+    return profileBackend.outer;
+};
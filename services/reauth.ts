@@ -0,0 +1,15 @@
+// How long one confirmation covers further sensitive actions
+const REAUTH_GRACE_MS = 2 * 60 * 1000;
+
+// Only ever held in memory; cleared when the app locks
+let lastReauthAt = 0;
+
+export const isWithinReauthGrace = (): boolean => Date.now() - lastReauthAt < REAUTH_GRACE_MS;
+
+export const markReauthenticated = (): void => {
+    lastReauthAt = Date.now();
+};
+
+export const clearReauthGrace = (): void => {
+    lastReauthAt = 0;
+};
@@ -1,227 +1,344 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Expense } from '../types/expense';
-import { Income } from '../types/income';
-import { MonthPeriod, createMonthPeriod, isPeriodExpired, isDateInPeriod } from '../types/monthPeriod';
-import { PINData } from '../types/pin';
-
-const STORAGE_KEY = '@expense_tracker_expenses';
-const INCOME_STORAGE_KEY = '@expense_tracker_income';
-const PERIODS_KEY = '@expense_tracker_periods'; // Changed to plural to store array
-const MONTH_PERIOD_KEY = '@expense_tracker_month_period'; // Legacy key kept for safety
+import { getStorageBackend } from './storageBackend';
+import { withKeyLock } from './keyLock';
+import { getProfileBackend, getActiveProfileId } from './profiles';
+import {
+    isEncryptionSetUp,
+    isDeviceSecretMissing,
+    isStorageUnlocked,
+    lockStorage,
+    createDataKey,
+    unlockWithSecret,
+    unlockWithRecoverySecret,
+    checkSecret,
+    hasKeySlot,
+    countRecoverySlots,
+    rewrapDataKey,
+    destroyDataKey,
+    storeDataKeyInKeychain,
+    removeDataKeyFromKeychain,
+    unlockFromKeychain,
+    replaceRecoverySlots,
+    removeKeySlot,
+    KeySlot,
+    StorageLockedError,
+} from './encryption';
+import { getFailSafeBackend, clearQuarantine } from './integrity';
+import { attempt, RecordNotFoundError } from './errors';
+import { authenticateWithBiometrics } from './biometrics';
+import { logError, logWarning } from './diagnostics';
+import { readThrough, writeThrough, updateCached, invalidateCached, clearStore } from './store';
+import { generateId } from './id';
+import { Transaction, NewTransaction, getCategoryLines } from '../types/transaction';
+import { Account, AccountLedger, LedgerEntry, createDefaultAccount } from '../types/account';
+import { ExpenseCategory, createCategory, createDefaultCategories } from '../types/category';
+import { MonthPeriod, PeriodStats, createMonthPeriod, isPeriodExpired, isDateInPeriod } from '../types/monthPeriod';
+import { Money, CurrencyCode, DEFAULT_CURRENCY, createMoney, zeroMoney, addMoney, sumMoney, subtractMoney } from '../types/money';
+import { ExchangeRateTable, convertMoney, createExchangeRateTable } from '../types/exchangeRate';
+import {
+    SecretHash,
+    RecoveryCodeSet,
+    LockoutState,
+    UnlockResult,
+    PINCheckResult,
+    RECOVERY_CODE_COUNT,
+    DEFAULT_AUTO_LOCK_MINUTES,
+    getLockoutDuration,
+} from '../types/pin';
+import { SecurityEvent, SecurityEventType } from '../types/securityEvent';
+import { PINMode, DEFAULT_PIN_MODE } from '../types/pinPolicy';
+import { Profile, createDefaultProfile } from '../types/profile';
+import { Result } from '../types/result';
+import {
+    verifySecret,
+    constantTimeEqual,
+    deriveKey,
+    randomBytes,
+    bytesToHex,
+    hexToBytes,
+} from './crypto';
+
+export const TRANSACTIONS_KEY = '@expense_tracker_transactions';
+export const ACCOUNTS_KEY = '@expense_tracker_accounts';
+export const CATEGORIES_KEY = '@expense_tracker_categories';
+export const STORAGE_KEY = '@expense_tracker_expenses'; // Legacy expenses, merged into TRANSACTIONS_KEY by migration 5
+export const INCOME_STORAGE_KEY = '@expense_tracker_income'; // Legacy income, merged into TRANSACTIONS_KEY by migration 5
+export const PERIODS_KEY = '@expense_tracker_periods'; // Changed to plural to store array
+export const MONTH_PERIOD_KEY = '@expense_tracker_month_period'; // Legacy key, folded into PERIODS_KEY by migration 1
+const HOME_CURRENCY_KEY = '@expense_tracker_home_currency';
+const EXCHANGE_RATES_KEY = '@expense_tracker_exchange_rates';
+// The PIN and recovery code hashes only verify secrets until the data key exists; from then
+// on the wrapped copies of the data key are the only verifier
 const PIN_STORAGE_KEY = '@expense_tracker_pin';
-const RECOVERY_CODE_KEY = '@expense_tracker_recovery_code';
+const PIN_MODE_KEY = '@expense_tracker_pin_mode';
+const RECOVERY_CODE_KEY = '@expense_tracker_recovery_code'; // Legacy single code, replaced by RECOVERY_CODES_KEY
+const RECOVERY_CODES_KEY = '@expense_tracker_recovery_codes';
+const BIOMETRIC_KEY = '@expense_tracker_biometric_enabled';
+const LOCKOUT_KEY = '@expense_tracker_lockout';
+const WIPE_AFTER_KEY = '@expense_tracker_wipe_after';
+const AUTO_LOCK_KEY = '@expense_tracker_auto_lock';
+const SECURITY_LOG_KEY = '@expense_tracker_security_log';
+const SECURITY_LOG_BACKUP_KEY = '@expense_tracker_security_log_unreadable'; // Logs that couldn't be read, kept as stored
+const PROFILES_KEY = '@expense_tracker_profiles'; // Shared by all profiles; every other key is per profile
 
-// ============ EXPENSE FUNCTIONS ============
+const MAX_SECURITY_EVENTS = 500;
 
-export const getExpenses = async (): Promise<Expense[]> => {
-    try {
-        const jsonValue = await AsyncStorage.getItem(STORAGE_KEY);
-        return jsonValue ? JSON.parse(jsonValue) : [];
-    } catch (error) {
-        console.error('Error getting expenses:', error);
-        return [];
-    }
-};
+// ============ TRANSACTION FUNCTIONS ============
 
-export const addExpense = async (expense: Omit<Expense, 'id'>): Promise<void> => {
-    try {
-        const expenses = await getExpenses();
-        const newExpense: Expense = {
-            ...expense,
-            id: Date.now().toString(),
-        };
-        expenses.unshift(newExpense); // Add to beginning
-        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(expenses));
-    } catch (error) {
-        console.error('Error adding expense:', error);
-        throw error;
-    }
+// Readers throw, so callers can tell an unreadable collection from an empty one.
+// Collections are cached after the first read; writes update the cache in place.
+const readTransactions = async (): Promise<Transaction[]> => {
+    const transactions = await readThrough(TRANSACTIONS_KEY, () => getFailSafeBackend().getRecords<Transaction>(TRANSACTIONS_KEY));
+    // Newest first; copy so the cached list isn't reordered
+    return [...transactions].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 };
 
-export const updateExpense = async (updatedExpense: Expense): Promise<void> => {
-    try {
-        const expenses = await getExpenses();
-        const index = expenses.findIndex(e => e.id === updatedExpense.id);
-        if (index !== -1) {
-            expenses[index] = updatedExpense;
-            await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(expenses));
-        }
-    } catch (error) {
-        console.error('Error updating expense:', error);
-        throw error;
-    }
-};
+/**
+ * Get every expense, income and transfer entry, newest first
+ */
+export const getTransactions = (): Promise<Result<Transaction[]>> => attempt('getting transactions', readTransactions);
 
-export const deleteExpense = async (id: string): Promise<void> => {
-    try {
-        const expenses = await getExpenses();
-        const filteredExpenses = expenses.filter(e => e.id !== id);
-        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(filteredExpenses));
-    } catch (error) {
-        console.error('Error deleting expense:', error);
-        throw error;
-    }
-};
+export const addTransaction = (transaction: NewTransaction): Promise<Result<void>> => attempt(`adding ${transaction.type}`, async () => {
+    const newTransaction: Transaction = {
+        ...transaction,
+        id: generateId(),
+    };
+    // Periods are created manually by the user, never as a side effect of adding a transaction
+    await withKeyLock(TRANSACTIONS_KEY, () => getFailSafeBackend().insertRecord(TRANSACTIONS_KEY, newTransaction));
+    updateCached<Transaction[]>(TRANSACTIONS_KEY, transactions => [newTransaction, ...transactions]);
+});
 
-export const clearExpenses = async (): Promise<void> => {
-    try {
-        await AsyncStorage.removeItem(STORAGE_KEY);
-    } catch (error) {
-        console.error('Error clearing expenses:', error);
-    }
-};
+export const updateTransaction = (updatedTransaction: Transaction): Promise<Result<void>> => attempt(`updating ${updatedTransaction.type}`, async () => {
+    const found = await withKeyLock(TRANSACTIONS_KEY, () => getFailSafeBackend().updateRecord(TRANSACTIONS_KEY, updatedTransaction));
+    if (!found) throw new RecordNotFoundError(TRANSACTIONS_KEY, updatedTransaction.id);
+    updateCached<Transaction[]>(TRANSACTIONS_KEY, transactions =>
+        transactions.map(t => t.id === updatedTransaction.id ? updatedTransaction : t)
+    );
+});
 
-// ============ INCOME FUNCTIONS ============
+export const deleteTransaction = (id: string): Promise<Result<void>> => attempt('deleting transaction', async () => {
+    await withKeyLock(TRANSACTIONS_KEY, () => getFailSafeBackend().deleteRecord(TRANSACTIONS_KEY, id));
+    updateCached<Transaction[]>(TRANSACTIONS_KEY, transactions => transactions.filter(t => t.id !== id));
+});
 
-export const getIncome = async (): Promise<Income[]> => {
-    try {
-        const jsonValue = await AsyncStorage.getItem(INCOME_STORAGE_KEY);
-        return jsonValue ? JSON.parse(jsonValue) : [];
-    } catch (error) {
-        console.error('Error getting income:', error);
-        return [];
-    }
+export const clearTransactions = (): Promise<Result<void>> => attempt('clearing transactions', async () => {
+    await withKeyLock(TRANSACTIONS_KEY, () => getFailSafeBackend().clearRecords(TRANSACTIONS_KEY));
+    writeThrough<Transaction[]>(TRANSACTIONS_KEY, []);
+});
+
+// ============ ACCOUNT FUNCTIONS ============
+
+const readAccounts = async (): Promise<Account[]> => {
+    const accounts = await readThrough(ACCOUNTS_KEY, () => getFailSafeBackend().getRecords<Account>(ACCOUNTS_KEY));
+    // Oldest first, so the default account leads
+    return [...accounts].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
 };
 
-export const addIncome = async (income: Omit<Income, 'id'>): Promise<void> => {
-    try {
-        const allIncome = await getIncome();
-        const newIncome: Income = {
-            ...income,
-            id: Date.now().toString(),
-        };
+export const getAccounts = (): Promise<Result<Account[]>> => attempt('getting accounts', readAccounts);
 
-        // Check if we need to create a new month period
-        // REMOVED: Auto-creation logic. User now manually creates periods.
-        /*
-        const currentPeriod = await getCurrentMonthPeriod();
-        if (!currentPeriod) {
-            // First income ever - create new month period
-            await createNewMonthPeriod(new Date());
-        } else if (isPeriodExpired(currentPeriod)) {
-            // Period expired - create new month period
-            await createNewMonthPeriod(new Date());
-        }
-        */
+export const addAccount = (account: Omit<Account, 'id' | 'createdAt'>): Promise<Result<Account>> => attempt('adding account', async () => {
+    const newAccount: Account = {
+        ...account,
+        name: account.name.trim(),
+        id: generateId(),
+        createdAt: new Date().toISOString(),
+    };
+    await withKeyLock(ACCOUNTS_KEY, () => getFailSafeBackend().insertRecord(ACCOUNTS_KEY, newAccount));
+    updateCached<Account[]>(ACCOUNTS_KEY, accounts => [...accounts, newAccount]);
+    return newAccount;
+});
 
-        allIncome.unshift(newIncome); // Add to beginning
-        await AsyncStorage.setItem(INCOME_STORAGE_KEY, JSON.stringify(allIncome));
-    } catch (error) {
-        console.error('Error adding income:', error);
-        throw error;
-    }
-};
+export const updateAccount = (updatedAccount: Account): Promise<Result<void>> => attempt('updating account', async () => {
+    const account = { ...updatedAccount, name: updatedAccount.name.trim() };
+    const found = await withKeyLock(ACCOUNTS_KEY, () => getFailSafeBackend().updateRecord(ACCOUNTS_KEY, account));
+    if (!found) throw new RecordNotFoundError(ACCOUNTS_KEY, account.id);
+    updateCached<Account[]>(ACCOUNTS_KEY, accounts => accounts.map(a => a.id === account.id ? account : a));
+});
 
-export const updateIncome = async (updatedIncome: Income): Promise<void> => {
-    try {
-        const allIncome = await getIncome();
-        const index = allIncome.findIndex(i => i.id === updatedIncome.id);
-        if (index !== -1) {
-            allIncome[index] = updatedIncome;
-            await AsyncStorage.setItem(INCOME_STORAGE_KEY, JSON.stringify(allIncome));
-        }
-    } catch (error) {
-        console.error('Error updating income:', error);
-        throw error;
-    }
+/**
+ * Delete an account. Callers make sure no transactions still belong to it.
+ */
+export const deleteAccount = (id: string): Promise<Result<void>> => attempt('deleting account', async () => {
+    await withKeyLock(ACCOUNTS_KEY, () => getFailSafeBackend().deleteRecord(ACCOUNTS_KEY, id));
+    updateCached<Account[]>(ACCOUNTS_KEY, accounts => accounts.filter(a => a.id !== id));
+});
+
+/**
+ * Every ledger needs an account to add transactions to
+ */
+const ensureDefaultAccount = async (): Promise<void> => {
+    await withKeyLock(ACCOUNTS_KEY, async () => {
+        if ((await readAccounts()).length > 0) return;
+        const account = createDefaultAccount(generateId(), await readHomeCurrency());
+        await getFailSafeBackend().setRecords(ACCOUNTS_KEY, [account]);
+        writeThrough(ACCOUNTS_KEY, [account]);
+    });
 };
 
-export const deleteIncome = async (id: string): Promise<void> => {
-    try {
-        const allIncome = await getIncome();
-        const filteredIncome = allIncome.filter(i => i.id !== id);
-        await AsyncStorage.setItem(INCOME_STORAGE_KEY, JSON.stringify(filteredIncome));
-    } catch (error) {
-        console.error('Error deleting income:', error);
-        throw error;
-    }
+// ============ CATEGORY FUNCTIONS ============
+
+/**
+ * Every category, archived ones included, in picker order
+ */
+const readCategories = async (): Promise<ExpenseCategory[]> => {
+    const categories = await readThrough(CATEGORIES_KEY, () => getFailSafeBackend().getRecords<ExpenseCategory>(CATEGORIES_KEY));
+    return [...categories].sort((a, b) => a.order - b.order);
 };
 
-export const clearIncome = async (): Promise<void> => {
-    try {
-        await AsyncStorage.removeItem(INCOME_STORAGE_KEY);
-    } catch (error) {
-        console.error('Error clearing income:', error);
-    }
+export const getCategories = (): Promise<Result<ExpenseCategory[]>> => attempt('getting categories', readCategories);
+
+export const addCategory = (details: Pick<ExpenseCategory, 'name' | 'color' | 'icon'>): Promise<Result<ExpenseCategory>> => attempt('adding category', () => {
+    return withKeyLock(CATEGORIES_KEY, async () => {
+        const categories = await readCategories();
+        const newCategory = createCategory(generateId(), details, Math.max(-1, ...categories.map(c => c.order)) + 1);
+        await getFailSafeBackend().insertRecord(CATEGORIES_KEY, newCategory);
+        updateCached<ExpenseCategory[]>(CATEGORIES_KEY, cached => [...cached, newCategory]);
+        return newCategory;
+    });
+});
+
+/**
+ * Save a category's color, icon or archived flag. Use renameCategory to change its name.
+ */
+export const updateCategory = (updatedCategory: ExpenseCategory): Promise<Result<void>> => attempt('updating category', async () => {
+    const found = await withKeyLock(CATEGORIES_KEY, () => getFailSafeBackend().updateRecord(CATEGORIES_KEY, updatedCategory));
+    if (!found) throw new RecordNotFoundError(CATEGORIES_KEY, updatedCategory.id);
+    updateCached<ExpenseCategory[]>(CATEGORIES_KEY, categories =>
+        categories.map(c => c.id === updatedCategory.id ? updatedCategory : c)
+    );
+});
+
+/**
+ * Rename a category and every expense (and split line) filed under it.
+ * Expenses are renamed first, so retrying after a failure finishes the job.
+ */
+export const renameCategory = (id: string, name: string): Promise<Result<void>> => attempt('renaming category', () => {
+    return withKeyLock(CATEGORIES_KEY, async () => {
+        const category = (await readCategories()).find(c => c.id === id);
+        if (!category) throw new RecordNotFoundError(CATEGORIES_KEY, id);
+        const oldName = category.name;
+        const newName = name.trim();
+        if (oldName === newName) return;
+
+        await withKeyLock(TRANSACTIONS_KEY, async () => {
+            const rename = (current: string) => current === oldName ? newName : current;
+            const transactions = await readTransactions();
+            const affected = transactions.some(t =>
+                t.type === 'expense' && getCategoryLines(t).some(line => line.category === oldName)
+            );
+            if (!affected) return;
+
+            const updated = transactions.map((t): Transaction => t.type === 'expense'
+                ? { ...t, category: rename(t.category), splits: t.splits?.map(s => ({ ...s, category: rename(s.category) })) }
+                : t);
+            await getFailSafeBackend().setRecords(TRANSACTIONS_KEY, updated);
+            writeThrough(TRANSACTIONS_KEY, updated);
+        });
+
+        const renamed = { ...category, name: newName };
+        await getFailSafeBackend().updateRecord(CATEGORIES_KEY, renamed);
+        updateCached<ExpenseCategory[]>(CATEGORIES_KEY, categories => categories.map(c => c.id === id ? renamed : c));
+    });
+});
+
+/**
+ * Put categories in the order of `orderedIds`
+ */
+export const reorderCategories = (orderedIds: string[]): Promise<Result<void>> => attempt('reordering categories', () => {
+    return withKeyLock(CATEGORIES_KEY, async () => {
+        const categories = await readCategories();
+        const position = (category: ExpenseCategory) => {
+            const index = orderedIds.indexOf(category.id);
+            return index === -1 ? orderedIds.length + category.order : index;
+        };
+        const reordered = categories.map(c => ({ ...c, order: position(c) }));
+        await getFailSafeBackend().setRecords(CATEGORIES_KEY, reordered);
+        writeThrough(CATEGORIES_KEY, reordered);
+    });
+});
+
+/**
+ * New ledgers start with the default categories
+ */
+const ensureDefaultCategories = async (): Promise<void> => {
+    await withKeyLock(CATEGORIES_KEY, async () => {
+        if ((await readCategories()).length > 0) return;
+        const categories = createDefaultCategories(generateId);
+        await getFailSafeBackend().setRecords(CATEGORIES_KEY, categories);
+        writeThrough(CATEGORIES_KEY, categories);
+    });
 };
 
 // ============ MONTH PERIOD FUNCTIONS ============
 
 /**
- * Get all periods sorted by start date (newest first)
+ * Periods sorted by start date (newest first). Throws if they can't be read, so
+ * read-modify-write updates never save over periods they couldn't load.
  */
-export const getAllPeriods = async (): Promise<MonthPeriod[]> => {
-    try {
-        const jsonValue = await AsyncStorage.getItem(PERIODS_KEY);
-        const periods = jsonValue ? JSON.parse(jsonValue) : [];
-        // Sort by start date descending (newest first)
-        return periods.sort((a: MonthPeriod, b: MonthPeriod) =>
-            new Date(b.startDate).getTime() - new Date(a.startDate).getTime()
-        );
-    } catch (error) {
-        console.error('Error getting periods:', error);
-        return [];
-    }
+const readPeriods = async (): Promise<MonthPeriod[]> => {
+    const periods = await readThrough(PERIODS_KEY, () => getFailSafeBackend().getRecords<MonthPeriod>(PERIODS_KEY));
+    // Sort by start date descending (newest first); copy so the cached list isn't reordered
+    return [...periods].sort((a: MonthPeriod, b: MonthPeriod) =>
+        new Date(b.startDate).getTime() - new Date(a.startDate).getTime()
+    );
+};
+
+const readActivePeriod = async (): Promise<MonthPeriod | null> => {
+    const periods = await readPeriods();
+    return periods.find(p => p.isActive) || null;
 };
 
+/**
+ * Get all periods sorted by start date (newest first)
+ */
+export const getAllPeriods = (): Promise<Result<MonthPeriod[]>> => attempt('getting periods', readPeriods);
+
 /**
  * Get the currently active period
  */
-export const getActivePeriod = async (): Promise<MonthPeriod | null> => {
-    try {
-        const periods = await getAllPeriods();
-        return periods.find(p => p.isActive) || null;
-    } catch (error) {
-        console.error('Error getting active period:', error);
-        return null;
-    }
-};
+export const getActivePeriod = (): Promise<Result<MonthPeriod | null>> => attempt('getting active period', readActivePeriod);
 
 /**
  * Set a period as active (deactivates all others)
  */
-export const setActivePeriod = async (periodId: string): Promise<void> => {
-    try {
-        const periods = await getAllPeriods();
+export const setActivePeriod = (periodId: string): Promise<Result<void>> => attempt('setting active period', async () => {
+    await withKeyLock(PERIODS_KEY, async () => {
+        const periods = await readPeriods();
+        if (!periods.some(p => p.id === periodId)) throw new RecordNotFoundError(PERIODS_KEY, periodId);
         const updatedPeriods = periods.map(p => ({
             ...p,
             isActive: p.id === periodId,
         }));
-        await AsyncStorage.setItem(PERIODS_KEY, JSON.stringify(updatedPeriods));
-    } catch (error) {
-        console.error('Error setting active period:', error);
-        throw error;
-    }
-};
+        await getFailSafeBackend().setRecords(PERIODS_KEY, updatedPeriods);
+        writeThrough(PERIODS_KEY, updatedPeriods);
+    });
+});
 
 /**
  * Create a new custom period with specified start date
  */
-export const createCustomPeriod = async (startDate: Date, customName?: string): Promise<MonthPeriod> => {
-    try {
-        const periods = await getAllPeriods();
+export const createCustomPeriod = (startDate: Date, customName?: string): Promise<Result<MonthPeriod>> => attempt('creating custom period', () => {
+    return withKeyLock(PERIODS_KEY, async () => {
+        const periods = await readPeriods();
 
         // Deactivate all existing periods
         const updatedPeriods = periods.map(p => ({ ...p, isActive: false }));
 
         // Create new period as active
-        const newPeriod = createMonthPeriod(startDate, customName, true);
+        const newPeriod = createMonthPeriod(generateId(), startDate, customName, true);
         updatedPeriods.unshift(newPeriod);
 
-        await AsyncStorage.setItem(PERIODS_KEY, JSON.stringify(updatedPeriods));
+        await getFailSafeBackend().setRecords(PERIODS_KEY, updatedPeriods);
+        writeThrough(PERIODS_KEY, updatedPeriods);
         return newPeriod;
-    } catch (error) {
-        console.error('Error creating custom period:', error);
-        throw error;
-    }
-};
+    });
+});
 
 /**
  * Delete a period by ID
  */
-export const deletePeriod = async (periodId: string): Promise<void> => {
-    try {
-        const periods = await getAllPeriods();
+export const deletePeriod = (periodId: string): Promise<Result<void>> => attempt('deleting period', async () => {
+    await withKeyLock(PERIODS_KEY, async () => {
+        const periods = await readPeriods();
         const filteredPeriods = periods.filter(p => p.id !== periodId);
 
         // If we deleted the active period and there are others, activate the most recent one
@@ -230,18 +347,16 @@ export const deletePeriod = async (periodId: string): Promise<void> => {
             filteredPeriods[0].isActive = true;
         }
 
-        await AsyncStorage.setItem(PERIODS_KEY, JSON.stringify(filteredPeriods));
-    } catch (error) {
-        console.error('Error deleting period:', error);
-        throw error;
-    }
-};
+        await getFailSafeBackend().setRecords(PERIODS_KEY, filteredPeriods);
+        writeThrough(PERIODS_KEY, filteredPeriods);
+    });
+});
 
 /**
  * Legacy function for backward compatibility - gets active period
  * @deprecated Use getActivePeriod instead
  */
-export const getCurrentMonthPeriod = async (): Promise<MonthPeriod | null> => {
+export const getCurrentMonthPeriod = (): Promise<Result<MonthPeriod | null>> => {
     return getActivePeriod();
 };
 
@@ -249,283 +364,792 @@ export const getCurrentMonthPeriod = async (): Promise<MonthPeriod | null> => {
  * Legacy function for backward compatibility - creates new period
  * @deprecated Use createCustomPeriod instead
  */
-export const createNewMonthPeriod = async (startDate: Date): Promise<MonthPeriod> => {
+export const createNewMonthPeriod = (startDate: Date): Promise<Result<MonthPeriod>> => {
     return createCustomPeriod(startDate);
 };
 
 // ============ FILTERED DATA FUNCTIONS ============
 
-export const getExpensesForCurrentMonth = async (): Promise<Expense[]> => {
-    try {
-        const period = await getActivePeriod();
-        if (!period) return [];
+const readTransactionsInPeriod = async (period: MonthPeriod | null | undefined): Promise<Transaction[]> => {
+    if (!period) return [];
+    const transactions = await readTransactions();
+    return transactions.filter(transaction => isDateInPeriod(transaction.date, period));
+};
 
-        const allExpenses = await getExpenses();
-        return allExpenses.filter(expense => isDateInPeriod(expense.date, period));
-    } catch (error) {
-        console.error('Error getting expenses for current month:', error);
-        return [];
-    }
+const readPeriod = async (periodId: string): Promise<MonthPeriod | undefined> => {
+    return (await readPeriods()).find(p => p.id === periodId);
 };
 
-export const getIncomeForCurrentMonth = async (): Promise<Income[]> => {
-    try {
-        const period = await getActivePeriod();
-        if (!period) return [];
+/**
+ * Get transactions in the active period, newest first
+ */
+export const getTransactionsForCurrentMonth = (): Promise<Result<Transaction[]>> => attempt('getting transactions for current month', async () => {
+    return readTransactionsInPeriod(await readActivePeriod());
+});
 
-        const allIncome = await getIncome();
-        return allIncome.filter(income => isDateInPeriod(income.date, period));
-    } catch (error) {
-        console.error('Error getting income for current month:', error);
-        return [];
-    }
-};
+/**
+ * Get transactions in a specific period, newest first
+ */
+export const getTransactionsForPeriod = (periodId: string): Promise<Result<Transaction[]>> => attempt('getting transactions for period', async () => {
+    return readTransactionsInPeriod(await readPeriod(periodId));
+});
+
+// ============ CURRENCY FUNCTIONS ============
+
+// Settings readers throw too, so a failed read is never mistaken for the default
+// and saved back over the stored value
+const readHomeCurrency = (): Promise<CurrencyCode> => readThrough(HOME_CURRENCY_KEY, async () => {
+    const currency = await getProfileBackend().getItem(HOME_CURRENCY_KEY);
+    return currency || DEFAULT_CURRENCY;
+});
 
 /**
- * Get expenses for a specific period
+ * Get the currency totals are reported in
  */
-export const getExpensesForPeriod = async (periodId: string): Promise<Expense[]> => {
-    try {
-        const periods = await getAllPeriods();
-        const period = periods.find(p => p.id === periodId);
-        if (!period) return [];
+export const getHomeCurrency = (): Promise<Result<CurrencyCode>> => attempt('getting home currency', readHomeCurrency);
 
-        const allExpenses = await getExpenses();
-        return allExpenses.filter(expense => isDateInPeriod(expense.date, period));
-    } catch (error) {
-        console.error('Error getting expenses for period:', error);
-        return [];
-    }
-};
+export const setHomeCurrency = (currency: CurrencyCode): Promise<Result<void>> => attempt('setting home currency', async () => {
+    await withKeyLock(HOME_CURRENCY_KEY, () => getProfileBackend().setItem(HOME_CURRENCY_KEY, currency));
+    writeThrough(HOME_CURRENCY_KEY, currency);
+    // An unsaved rate table defaults to the home currency as its base
+    invalidateCached(EXCHANGE_RATES_KEY);
+});
+
+const readExchangeRates = (): Promise<ExchangeRateTable> => readThrough(EXCHANGE_RATES_KEY, async () => {
+    const jsonValue = await getProfileBackend().getItem(EXCHANGE_RATES_KEY);
+    return jsonValue ? JSON.parse(jsonValue) : createExchangeRateTable(await readHomeCurrency());
+});
 
 /**
- * Get income for a specific period
+ * Get the exchange-rate table (based on the home currency if none saved yet)
  */
-export const getIncomeForPeriod = async (periodId: string): Promise<Income[]> => {
-    try {
-        const periods = await getAllPeriods();
-        const period = periods.find(p => p.id === periodId);
-        if (!period) return [];
+export const getExchangeRates = (): Promise<Result<ExchangeRateTable>> => attempt('getting exchange rates', readExchangeRates);
 
-        const allIncome = await getIncome();
-        return allIncome.filter(income => isDateInPeriod(income.date, period));
-    } catch (error) {
-        console.error('Error getting income for period:', error);
-        return [];
-    }
-};
+/**
+ * Add or change a single rate, expressed against the table's base currency
+ */
+export const setExchangeRate = (currency: CurrencyCode, rate: number): Promise<Result<void>> => attempt('setting exchange rate', async () => {
+    await withKeyLock(EXCHANGE_RATES_KEY, async () => {
+        const table = await readExchangeRates();
+        const updatedTable: ExchangeRateTable = {
+            ...table,
+            rates: { ...table.rates, [currency]: rate },
+            updatedAt: new Date().toISOString(),
+        };
+        await getProfileBackend().setItem(EXCHANGE_RATES_KEY, JSON.stringify(updatedTable));
+        writeThrough(EXCHANGE_RATES_KEY, updatedTable);
+    });
+});
+
+export const removeExchangeRate = (currency: CurrencyCode): Promise<Result<void>> => attempt('removing exchange rate', async () => {
+    await withKeyLock(EXCHANGE_RATES_KEY, async () => {
+        const table = await readExchangeRates();
+        if (currency === table.base) return;
+        const { [currency]: _removed, ...rates } = table.rates;
+        const updatedTable: ExchangeRateTable = { ...table, rates, updatedAt: new Date().toISOString() };
+        await getProfileBackend().setItem(EXCHANGE_RATES_KEY, JSON.stringify(updatedTable));
+        writeThrough(EXCHANGE_RATES_KEY, updatedTable);
+    });
+});
+
+/**
+ * Replace the exchange-rate table with one read from an imported file (see parseExchangeRateFile)
+ */
+export const importExchangeRates = (table: ExchangeRateTable): Promise<Result<void>> => attempt('importing exchange rates', async () => {
+    await withKeyLock(EXCHANGE_RATES_KEY, () => getProfileBackend().setItem(EXCHANGE_RATES_KEY, JSON.stringify(table)));
+    writeThrough(EXCHANGE_RATES_KEY, table);
+});
 
 // ============ CALCULATION FUNCTIONS ============
 
-export const calculateMonthlyTotals = async () => {
-    try {
-        const income = await getIncomeForCurrentMonth();
-        const expenses = await getExpensesForCurrentMonth();
-
-        const totalIncome = income.reduce((sum, item) => sum + item.amount, 0);
-        const totalExpenses = expenses.reduce((sum, item) => sum + item.amount, 0);
-        const balance = totalIncome - totalExpenses;
-
-        return {
-            totalIncome,
-            totalExpenses,
-            balance,
-            incomeCount: income.length,
-            expenseCount: expenses.length,
-        };
-    } catch (error) {
-        console.error('Error calculating monthly totals:', error);
-        return {
-            totalIncome: 0,
-            totalExpenses: 0,
-            balance: 0,
-            incomeCount: 0,
-            expenseCount: 0,
-        };
-    }
+/**
+ * Sum amounts in the home currency, in integer minor units so totals never drift.
+ * Amounts in a currency without an exchange rate are left out and reported in `missingRates`.
+ * Transfers only move money between accounts, so they count as neither income nor expense.
+ */
+const summarizeTransactions = (
+    transactions: Transaction[],
+    homeCurrency: CurrencyCode,
+    rates: ExchangeRateTable
+): PeriodStats => {
+    const income = transactions.filter(t => t.type === 'income');
+    const expenses = transactions.filter(t => t.type === 'expense');
+    const missingRates = new Set<CurrencyCode>();
+    const toHome = (amount: Money): Money[] => {
+        const converted = convertMoney(amount, homeCurrency, rates);
+        if (!converted) {
+            missingRates.add(amount.currency);
+            return [];
+        }
+        return [converted];
+    };
+
+    // Each split line is converted on its own, so category totals always add up to the expense total
+    const categoryTotals = new Map<string, Money>();
+    const expenseAmounts = expenses.flatMap(expense => getCategoryLines(expense).flatMap((line) => {
+        const converted = toHome(line.amount);
+        converted.forEach((amount) => {
+            categoryTotals.set(line.category, addMoney(categoryTotals.get(line.category) ?? zeroMoney(homeCurrency), amount));
+        });
+        return converted;
+    }));
+
+    const totalIncome = sumMoney(income.flatMap(item => toHome(item.amount)), homeCurrency);
+    const totalExpenses = sumMoney(expenseAmounts, homeCurrency);
+
+    return {
+        totalIncome,
+        totalExpenses,
+        balance: subtractMoney(totalIncome, totalExpenses),
+        incomeCount: income.length,
+        expenseCount: expenses.length,
+        categoryTotals: Array.from(categoryTotals, ([category, total]) => ({ category, total }))
+            .sort((a, b) => b.total.minor - a.total.minor),
+        missingRates: Array.from(missingRates),
+    };
+};
+
+const readStats = async (period: MonthPeriod | null | undefined): Promise<PeriodStats> => {
+    const [transactions, homeCurrency, rates] = await Promise.all([
+        readTransactionsInPeriod(period),
+        readHomeCurrency(),
+        readExchangeRates(),
+    ]);
+    return summarizeTransactions(transactions, homeCurrency, rates);
 };
 
 /**
- * Calculate stats for a specific period
+ * Walk an account's transactions oldest first, keeping a running balance in the account's currency
  */
-export const calculateStatsForPeriod = async (periodId: string) => {
-    try {
-        const income = await getIncomeForPeriod(periodId);
-        const expenses = await getExpensesForPeriod(periodId);
-
-        const totalIncome = income.reduce((sum, item) => sum + item.amount, 0);
-        const totalExpenses = expenses.reduce((sum, item) => sum + item.amount, 0);
-        const balance = totalIncome - totalExpenses;
-
-        return {
-            totalIncome,
-            totalExpenses,
-            balance,
-            incomeCount: income.length,
-            expenseCount: expenses.length,
-        };
-    } catch (error) {
-        console.error('Error calculating stats for period:', error);
-        return {
-            totalIncome: 0,
-            totalExpenses: 0,
-            balance: 0,
-            incomeCount: 0,
-            expenseCount: 0,
-        };
-    }
+const buildLedger = (account: Account, transactions: Transaction[], rates: ExchangeRateTable): AccountLedger => {
+    const currency = account.openingBalance.currency;
+    const missingRates = new Set<CurrencyCode>();
+    let balance = account.openingBalance;
+
+    const entries = transactions
+        .filter(t => t.accountId === account.id || (t.type === 'transfer' && t.toAccountId === account.id))
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+        .map((transaction): LedgerEntry => {
+            const converted = convertMoney(transaction.amount, currency, rates);
+            if (!converted) {
+                missingRates.add(transaction.amount.currency);
+                return { transaction, change: null, runningBalance: balance };
+            }
+            const incoming = transaction.type === 'income'
+                || (transaction.type === 'transfer' && transaction.toAccountId === account.id);
+            const change = incoming ? converted : createMoney(-converted.minor, currency);
+            balance = addMoney(balance, change);
+            return { transaction, change, runningBalance: balance };
+        });
+
+    return { account, entries: entries.reverse(), balance, missingRates: Array.from(missingRates) };
 };
 
+/**
+ * Every account with its current balance and transactions
+ */
+export const getAccountLedgers = (): Promise<Result<AccountLedger[]>> => attempt('calculating account balances', async () => {
+    const [accounts, transactions, rates] = await Promise.all([readAccounts(), readTransactions(), readExchangeRates()]);
+    return accounts.map(account => buildLedger(account, transactions, rates));
+});
+
+export const getAccountLedger = (accountId: string): Promise<Result<AccountLedger>> => attempt('getting account ledger', async () => {
+    const [accounts, transactions, rates] = await Promise.all([readAccounts(), readTransactions(), readExchangeRates()]);
+    const account = accounts.find(a => a.id === accountId);
+    if (!account) throw new RecordNotFoundError(ACCOUNTS_KEY, accountId);
+    return buildLedger(account, transactions, rates);
+});
+
+export const calculateMonthlyTotals = (): Promise<Result<PeriodStats>> => attempt('calculating monthly totals', async () => {
+    return readStats(await readActivePeriod());
+});
+
+/**
+ * Calculate stats for a specific period
+ */
+export const calculateStatsForPeriod = (periodId: string): Promise<Result<PeriodStats>> => attempt('calculating stats for period', async () => {
+    return readStats(await readPeriod(periodId));
+});
+
 // ============ PIN MANAGEMENT FUNCTIONS ============
 
 /**
- * Generate a random 8-character recovery code
+ * Generate a random 8-character recovery code from the secure random source
  */
 const generateRecoveryCode = (): string => {
     const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Exclude ambiguous characters
-    let code = '';
-    for (let i = 0; i < 8; i++) {
-        code += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
+    // 32 characters divide 256 evenly, so masking each byte keeps every character equally likely
+    const code = Array.from(randomBytes(8), byte => chars.charAt(byte & 31)).join('');
     // Format as XXXX-XXXX for readability
     return `${code.slice(0, 4)}-${code.slice(4)}`;
 };
 
 /**
- * Check if user has completed PIN setup
+ * Case-insensitive, ignoring spaces and dashes
  */
-export const hasPINSetup = async (): Promise<boolean> => {
+const normalizeRecoveryCode = (code: string): string => code.toUpperCase().replace(/[\s-]/g, '');
+
+/**
+ * Read a PIN or recovery code stored by an install from before encryption. Installs
+ * from before hashing hold the plaintext secret, returned as a string.
+ */
+const getStoredSecret = async (key: string): Promise<SecretHash | string | null> => {
+    const value = await getProfileBackend().getItem(key);
+    if (value === null) return null;
     try {
-        const pin = await AsyncStorage.getItem(PIN_STORAGE_KEY);
-        return pin !== null;
-    } catch (error) {
-        console.error('Error checking PIN setup:', error);
-        return false;
+        const parsed = JSON.parse(value);
+        if (parsed && parsed.algorithm === 'pbkdf2-sha256') return parsed as SecretHash;
+    } catch {
+        // Not JSON - a legacy plaintext value
     }
+    return value;
+};
+
+const matchesStoredSecret = async (secret: string, stored: SecretHash | string): Promise<boolean> => {
+    return typeof stored === 'string'
+        ? constantTimeEqual(secret, stored)
+        : verifySecret(secret, stored);
 };
 
 /**
- * Get stored PIN
+ * Check if user has completed PIN setup. A failure means it couldn't be checked -
+ * first-time setup must not be offered then, as it would replace the data key.
  */
-export const getPIN = async (): Promise<string | null> => {
-    try {
-        return await AsyncStorage.getItem(PIN_STORAGE_KEY);
-    } catch (error) {
-        console.error('Error getting PIN:', error);
-        return null;
-    }
+export const hasPINSetup = (): Promise<Result<boolean>> => attempt('checking PIN setup', async () => {
+    if (await hasKeySlot('pin')) return true;
+    return (await getProfileBackend().getItem(PIN_STORAGE_KEY)) !== null;
+});
+
+/**
+ * Whether the PIN is digits only or a passphrase, so the unlock screen can show the right keyboard
+ */
+export const getPINMode = (): Promise<Result<PINMode>> => attempt('getting PIN mode', async () => {
+    const mode = await getProfileBackend().getItem(PIN_MODE_KEY);
+    return mode === 'passphrase' ? 'passphrase' : DEFAULT_PIN_MODE;
+});
+
+const storePINMode = async (mode: PINMode): Promise<void> => {
+    await withKeyLock(PIN_MODE_KEY, () => getProfileBackend().setItem(PIN_MODE_KEY, mode));
+};
+
+const savePIN = async (pin: string, mode: PINMode): Promise<void> => {
+    if (!isStorageUnlocked()) throw new StorageLockedError();
+    await rewrapDataKey('pin', pin);
+    await storePINMode(mode);
+    await logSecurityEvent('pin-change', true);
 };
 
 /**
- * Set/Update PIN
+ * Set/Update PIN by re-encrypting the data key for it - nothing else about the PIN is stored.
+ * Requires unlocked storage. Callers check the new PIN with validatePIN first.
  */
-export const setPIN = async (pin: string): Promise<void> => {
-    try {
-        await AsyncStorage.setItem(PIN_STORAGE_KEY, pin);
-    } catch (error) {
-        console.error('Error setting PIN:', error);
-        throw error;
+export const setPIN = (pin: string, mode: PINMode): Promise<Result<void>> => attempt('setting PIN', () => savePIN(pin, mode));
+
+const getRecoveryCodeSet = async (): Promise<RecoveryCodeSet | null> => {
+    const jsonValue = await getProfileBackend().getItem(RECOVERY_CODES_KEY);
+    return jsonValue ? JSON.parse(jsonValue) : null;
+};
+
+const hashRecoveryCode = async (code: string, salt: string, iterations: number): Promise<string> => {
+    return bytesToHex(await deriveKey(normalizeRecoveryCode(code), hexToBytes(salt), iterations));
+};
+
+const createRecoveryCodes = async (): Promise<string[]> => {
+    if (!isStorageUnlocked()) throw new StorageLockedError();
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    await replaceRecoverySlots(codes.map(normalizeRecoveryCode));
+    await removeLegacySecrets();
+    await logSecurityEvent('recovery-codes-regenerated', true);
+    return codes;
+};
+
+/**
+ * Replace all recovery codes with a fresh set of one-time codes and return them.
+ * Only copies of the data key wrapped with each code are stored, so this is the one
+ * chance to show the codes to the user. Requires unlocked storage.
+ */
+export const regenerateRecoveryCodes = (): Promise<Result<string[]>> => attempt('generating recovery codes', createRecoveryCodes);
+
+/**
+ * Number of recovery codes that haven't been used yet
+ */
+export const getRemainingRecoveryCodes = (): Promise<Result<number>> => attempt('counting recovery codes', async () => {
+    if (await isEncryptionSetUp()) return countRecoverySlots();
+    const codeSet = await getRecoveryCodeSet();
+    if (codeSet) return codeSet.hashes.filter(hash => hash !== null).length;
+    return (await getStoredSecret(RECOVERY_CODE_KEY)) !== null ? 1 : 0;
+});
+
+/**
+ * Setup PIN and recovery codes (first-time setup), creating the data encryption key.
+ * Every step can be retried: a setup that failed part way left its data key unlocked,
+ * so it is reused under the PIN entered now. Otherwise refuses once a data key exists -
+ * replacing it would leave every record unreadable.
+ */
+export const setupPIN = (pin: string, mode: PINMode = DEFAULT_PIN_MODE): Promise<Result<string[]>> => attempt('setting up PIN', async () => {
+    if (!(await isEncryptionSetUp())) {
+        await createDataKey({ pin });
+    } else if (isStorageUnlocked()) {
+        await rewrapDataKey('pin', pin);
+    } else {
+        throw new Error('Encryption is already set up');
     }
+    await storePINMode(mode);
+    await ensureDefaultAccount();
+    await ensureDefaultCategories();
+    await logSecurityEvent('pin-setup', true);
+    return createRecoveryCodes();
+});
+
+const checkLegacyPIN = async (pin: string): Promise<boolean> => {
+    const stored = await getStoredSecret(PIN_STORAGE_KEY);
+    if (stored === null) return false;
+    return matchesStoredSecret(pin, stored);
 };
 
 /**
- * Get recovery code
+ * Whether the PIN opens the data key - or, before encryption, matches the stored hash
  */
-export const getRecoveryCode = async (): Promise<string | null> => {
-    try {
-        return await AsyncStorage.getItem(RECOVERY_CODE_KEY);
-    } catch (error) {
-        console.error('Error getting recovery code:', error);
-        return null;
+const checkPIN = async (pin: string): Promise<boolean> => {
+    return (await isEncryptionSetUp()) ? checkSecret('pin', pin) : checkLegacyPIN(pin);
+};
+
+/**
+ * Verify PIN re-entered inside the app (e.g. before changing it). Logged as a PIN confirmation.
+ * Shares the unlock lockout: refused while locked out, and a wrong PIN counts towards it.
+ * A failure means the PIN couldn't be checked at all.
+ */
+const confirmPIN = async (pin: string): Promise<PINCheckResult> => {
+    if (await isLockedOut()) return 'locked-out';
+    if (!(await checkPIN(pin))) return await recordFailedAttempt('pin-check');
+
+    await resetFailedAttempts();
+    await logSecurityEvent('pin-check', true);
+    return 'confirmed';
+};
+
+export const verifyPIN = (pin: string): Promise<Result<PINCheckResult>> => attempt('verifying PIN', () => confirmPIN(pin));
+
+/**
+ * Find the slot of an unused recovery code matching the input in the hashes stored
+ * before encryption, or null
+ */
+const findLegacyRecoveryCode = async (code: string): Promise<KeySlot | null> => {
+    const codeSet = await getRecoveryCodeSet();
+    if (codeSet) {
+        const hash = await hashRecoveryCode(code, codeSet.salt, codeSet.iterations);
+        const index = codeSet.hashes.findIndex(stored => stored !== null && constantTimeEqual(hash, stored));
+        return index === -1 ? null : `recovery-${index}`;
     }
+
+    // Installs from before one-time codes keep their single code until codes are regenerated
+    const stored = await getStoredSecret(RECOVERY_CODE_KEY);
+    if (stored === null) return null;
+    const matches = await matchesStoredSecret(
+        normalizeRecoveryCode(code),
+        typeof stored === 'string' ? normalizeRecoveryCode(stored) : stored
+    );
+    return matches ? 'recovery' : null;
 };
 
 /**
- * Set recovery code (or generate if not provided)
+ * Drop the PIN and recovery code hashes once the data key exists. Hashed recovery codes
+ * have no wrapped copy of the key, so they couldn't unlock anything anyway.
  */
-export const setRecoveryCode = async (code?: string): Promise<string> => {
-    try {
-        const recoveryCode = code || generateRecoveryCode();
-        await AsyncStorage.setItem(RECOVERY_CODE_KEY, recoveryCode);
-        return recoveryCode;
-    } catch (error) {
-        console.error('Error setting recovery code:', error);
-        throw error;
+const removeLegacySecrets = async (): Promise<void> => {
+    for (const key of [PIN_STORAGE_KEY, RECOVERY_CODE_KEY, RECOVERY_CODES_KEY]) {
+        await withKeyLock(key, () => getProfileBackend().removeItem(key));
     }
 };
 
 /**
- * Setup PIN and recovery code (first-time setup)
+ * Verify the PIN and unlock encrypted storage with it. Refused while locked out;
+ * a wrong PIN counts towards the lockout.
+ * Installs from before encryption get their data key created here, on first unlock.
  */
-export const setupPIN = async (pin: string): Promise<string> => {
-    try {
-        await setPIN(pin);
-        const recoveryCode = await setRecoveryCode();
-        return recoveryCode;
-    } catch (error) {
-        console.error('Error setting up PIN:', error);
-        throw error;
+export const unlockWithPIN = (pin: string): Promise<Result<UnlockResult>> => attempt('unlocking with PIN', async () => {
+    if (await isLockedOut()) return 'locked-out';
+
+    if (await isEncryptionSetUp()) {
+        if (!(await unlockWithSecret('pin', pin))) return await recordFailedAttempt('pin-unlock');
+    } else {
+        if (!(await checkLegacyPIN(pin))) return await recordFailedAttempt('pin-unlock');
+        // A plaintext recovery code can still be wrapped; hashed ones are replaced when next regenerated
+        const recoveryCode = await getStoredSecret(RECOVERY_CODE_KEY);
+        await createDataKey(typeof recoveryCode === 'string'
+            ? { pin, recovery: normalizeRecoveryCode(recoveryCode) }
+            : { pin });
+    }
+
+    await removeLegacySecrets();
+    await resetFailedAttempts();
+    await logSecurityEvent('pin-unlock', true);
+    return 'unlocked';
+});
+
+// The recovery code that was verified for a PIN reset, spent by resetPIN
+let pendingRecoverySlot: KeySlot | null = null;
+
+/**
+ * Verify a recovery code and unlock encrypted storage with it, so resetPIN can set a new PIN.
+ * Each code works once, but is only spent when the reset completes.
+ * Shares the PIN's failed-attempt counter and lockout.
+ */
+export const unlockWithRecoveryCode = (code: string): Promise<Result<UnlockResult>> => attempt('unlocking with recovery code', async () => {
+    if (await isLockedOut()) return 'locked-out';
+
+    let slot: KeySlot | null;
+    if (await isEncryptionSetUp()) {
+        slot = await unlockWithRecoverySecret(normalizeRecoveryCode(code));
+    } else {
+        // The data key is created by resetPIN, once there is a PIN to wrap it with - a key
+        // wrapped only for the code would lock out the old PIN if the reset is abandoned
+        slot = await findLegacyRecoveryCode(code);
     }
+    if (slot === null) return await recordFailedAttempt('recovery-unlock');
+
+    pendingRecoverySlot = slot;
+    await resetFailedAttempts();
+    await logSecurityEvent('recovery-unlock', true);
+    return 'unlocked';
+});
+
+/**
+ * Set a new PIN after unlockWithRecoveryCode, then spend the code that was used
+ */
+export const resetPIN = (pin: string, mode: PINMode): Promise<Result<void>> => attempt('resetting PIN', async () => {
+    if (pendingRecoverySlot === null) throw new StorageLockedError();
+    if (await isEncryptionSetUp()) {
+        await savePIN(pin, mode);
+        await removeKeySlot(pendingRecoverySlot);
+    } else {
+        await createDataKey({ pin });
+        await storePINMode(mode);
+        // Spends the code along with the other hashed ones, which can't unwrap the new key
+        await removeLegacySecrets();
+        await logSecurityEvent('pin-change', true);
+    }
+    pendingRecoverySlot = null;
+});
+
+/**
+ * Abandon a PIN reset: lock storage again and leave the recovery code usable
+ */
+export const cancelPINReset = (): void => {
+    pendingRecoverySlot = null;
+    lockStorage();
 };
 
 /**
- * Verify PIN
+ * Whether biometric unlock is turned on. Kept alongside the PIN data rather than
+ * in it, so changing or resetting the PIN leaves biometric unlock working.
  */
-export const verifyPIN = async (pin: string): Promise<boolean> => {
-    try {
-        const storedPIN = await getPIN();
-        return storedPIN === pin;
-    } catch (error) {
-        console.error('Error verifying PIN:', error);
-        return false;
+const readBiometricUnlockEnabled = async (): Promise<boolean> => {
+    return (await getProfileBackend().getItem(BIOMETRIC_KEY)) === 'true';
+};
+
+export const isBiometricUnlockEnabled = (): Promise<Result<boolean>> => attempt('checking biometric unlock', readBiometricUnlockEnabled);
+
+/**
+ * Turn biometric unlock on or off. Turning it on stores a copy of the data key in
+ * the platform keychain, so it requires unlocked storage.
+ */
+export const setBiometricUnlockEnabled = (enabled: boolean): Promise<Result<void>> => attempt('setting biometric unlock', async () => {
+    if (enabled) {
+        await storeDataKeyInKeychain();
+        await withKeyLock(BIOMETRIC_KEY, () => getProfileBackend().setItem(BIOMETRIC_KEY, 'true'));
+    } else {
+        await withKeyLock(BIOMETRIC_KEY, () => getProfileBackend().removeItem(BIOMETRIC_KEY));
+        await removeDataKeyFromKeychain();
+    }
+});
+
+/**
+ * Prompt for fingerprint/face and unlock storage with the keychain copy of the data key.
+ * A cancelled or failed prompt resolves 'invalid' without counting towards the lockout -
+ * the system prompt rate-limits itself.
+ */
+export const unlockWithBiometrics = (): Promise<Result<UnlockResult>> => attempt('unlocking with biometrics', async () => {
+    if (!(await readBiometricUnlockEnabled())) return 'invalid';
+    // The keychain shows the prompt itself, so the key can't be read without it
+    const unlocked = await unlockFromKeychain('Unlock Expense Tracker');
+    if (unlocked !== 'unlocked') {
+        const reason = unlocked === 'missing' ? 'Key missing from keychain' : 'Not recognized or cancelled';
+        await logSecurityEvent('biometric-unlock', false, reason);
+        return 'invalid';
     }
+
+    await resetFailedAttempts();
+    await logSecurityEvent('biometric-unlock', true);
+    return 'unlocked';
+});
+
+/**
+ * Confirm the user with fingerprint/face inside the app, without touching storage.
+ * `ok(false)` if biometric unlock is off, or the prompt fails or is cancelled.
+ */
+export const verifyBiometrics = (promptMessage: string): Promise<Result<boolean>> => attempt('verifying biometrics', async () => {
+    if (!(await readBiometricUnlockEnabled())) return false;
+    const isValid = await authenticateWithBiometrics(promptMessage);
+    await logSecurityEvent('biometric-check', isValid);
+    return isValid;
+});
+
+/**
+ * Clear all PIN data (use with caution - for complete reset).
+ * Also deletes the data key, so encrypted records can no longer be read.
+ */
+const clearPINData = async (): Promise<void> => {
+    await destroyDataKey();
+    await withKeyLock(PIN_STORAGE_KEY, () => getProfileBackend().removeItem(PIN_STORAGE_KEY));
+    await withKeyLock(PIN_MODE_KEY, () => getProfileBackend().removeItem(PIN_MODE_KEY));
+    await withKeyLock(RECOVERY_CODE_KEY, () => getProfileBackend().removeItem(RECOVERY_CODE_KEY));
+    await withKeyLock(RECOVERY_CODES_KEY, () => getProfileBackend().removeItem(RECOVERY_CODES_KEY));
+    await withKeyLock(BIOMETRIC_KEY, () => getProfileBackend().removeItem(BIOMETRIC_KEY));
+};
+
+// ============ LOCKOUT FUNCTIONS ============
+
+// Throws if unreadable, so a failed read can't count attempts from zero again
+const readLockoutState = async (): Promise<LockoutState> => {
+    const jsonValue = await getProfileBackend().getItem(LOCKOUT_KEY);
+    return jsonValue ? JSON.parse(jsonValue) : { failedAttempts: 0, lockedUntil: null };
 };
 
 /**
- * Verify recovery code
+ * Consecutive failed unlock attempts and when the current lockout ends
  */
-export const verifyRecoveryCode = async (code: string): Promise<boolean> => {
-    try {
-        const storedCode = await getRecoveryCode();
-        // Case-insensitive comparison, remove any spaces/dashes
-        const normalizedInput = code.toUpperCase().replace(/[\s-]/g, '');
-        const normalizedStored = storedCode?.toUpperCase().replace(/[\s-]/g, '') || '';
-        return normalizedInput === normalizedStored;
-    } catch (error) {
-        console.error('Error verifying recovery code:', error);
-        return false;
+export const getLockoutState = (): Promise<Result<LockoutState>> => attempt('getting lockout state', readLockoutState);
+
+const isLockedOut = async (): Promise<boolean> => {
+    const { lockedUntil } = await readLockoutState();
+    return lockedUntil !== null && new Date(lockedUntil).getTime() > Date.now();
+};
+
+/**
+ * Log and count a wrong PIN or recovery code, starting the next lockout window -
+ * or erasing everything once the configured wipe threshold is reached
+ */
+const recordFailedAttempt = async (type: SecurityEventType): Promise<'invalid' | 'wiped'> => {
+    await logSecurityEvent(type, false);
+    const wipeAfter = await readWipeAfterFailures();
+    const failedAttempts = await withKeyLock(LOCKOUT_KEY, async () => {
+        const state = await readLockoutState();
+        const attempts = state.failedAttempts + 1;
+        const duration = getLockoutDuration(attempts);
+        const updated: LockoutState = {
+            failedAttempts: attempts,
+            lockedUntil: duration > 0 ? new Date(Date.now() + duration).toISOString() : null,
+        };
+        await getProfileBackend().setItem(LOCKOUT_KEY, JSON.stringify(updated));
+        return attempts;
+    });
+
+    if (wipeAfter !== null && failedAttempts >= wipeAfter) {
+        await eraseAllData();
+        await logSecurityEvent('data-wiped', true, `After ${failedAttempts} failed attempts`);
+        return 'wiped';
+    }
+
+    const duration = getLockoutDuration(failedAttempts);
+    if (duration > 0) {
+        const length = duration >= 60 * 1000 ? `${duration / (60 * 1000)} min` : `${duration / 1000} s`;
+        await logSecurityEvent('lockout', true, `Locked for ${length} after ${failedAttempts} failed attempts`);
     }
+    return 'invalid';
+};
+
+const resetFailedAttempts = async (): Promise<void> => {
+    await withKeyLock(LOCKOUT_KEY, () => getProfileBackend().removeItem(LOCKOUT_KEY));
+};
+
+const readWipeAfterFailures = async (): Promise<number | null> => {
+    const value = await getProfileBackend().getItem(WIPE_AFTER_KEY);
+    return value ? parseInt(value, 10) : null;
 };
 
 /**
- * Reset PIN using recovery code
+ * Number of consecutive failures after which all data is erased, or null if disabled
  */
-export const resetPINWithRecoveryCode = async (recoveryCode: string, newPIN: string): Promise<boolean> => {
-    try {
-        const isValid = await verifyRecoveryCode(recoveryCode);
-        if (isValid) {
-            await setPIN(newPIN);
-            // Generate new recovery code after reset
-            await setRecoveryCode();
-            return true;
-        }
-        return false;
-    } catch (error) {
-        console.error('Error resetting PIN:', error);
-        return false;
+export const getWipeAfterFailures = (): Promise<Result<number | null>> => attempt('getting wipe setting', readWipeAfterFailures);
+
+export const setWipeAfterFailures = (attempts: number | null): Promise<Result<void>> => attempt('setting wipe setting', async () => {
+    await withKeyLock(WIPE_AFTER_KEY, () => attempts === null
+        ? getProfileBackend().removeItem(WIPE_AFTER_KEY)
+        : getProfileBackend().setItem(WIPE_AFTER_KEY, attempts.toString()));
+});
+
+/**
+ * Minutes the app may sit in the background or untouched before it locks
+ */
+export const getAutoLockMinutes = (): Promise<Result<number>> => attempt('getting auto-lock setting', async () => {
+    const value = await getProfileBackend().getItem(AUTO_LOCK_KEY);
+    return value !== null ? parseInt(value, 10) : DEFAULT_AUTO_LOCK_MINUTES;
+});
+
+export const setAutoLockMinutes = (minutes: number): Promise<Result<void>> => attempt('setting auto-lock setting', async () => {
+    await withKeyLock(AUTO_LOCK_KEY, () => getProfileBackend().setItem(AUTO_LOCK_KEY, minutes.toString()));
+});
+
+const eraseAllData = async (): Promise<void> => {
+    const backend = getProfileBackend();
+    for (const collection of [TRANSACTIONS_KEY, ACCOUNTS_KEY, CATEGORIES_KEY, STORAGE_KEY, INCOME_STORAGE_KEY, PERIODS_KEY]) {
+        await withKeyLock(collection, () => backend.clearRecords(collection));
+    }
+    clearStore();
+    for (const key of [MONTH_PERIOD_KEY, HOME_CURRENCY_KEY, EXCHANGE_RATES_KEY, LOCKOUT_KEY, WIPE_AFTER_KEY, AUTO_LOCK_KEY]) {
+        await withKeyLock(key, () => backend.removeItem(key));
     }
+    await clearQuarantine();
+    await clearPINData();
 };
 
 /**
- * Clear all PIN data (use with caution - for complete reset)
+ * Erase every transaction, period and setting along with the PIN and data key,
+ * returning the app to first-time setup. The security log is kept, so the wipe stays on record.
+ */
+export const wipeAllData = (): Promise<Result<void>> => attempt('wiping data', eraseAllData);
+
+/**
+ * Erase a profile whose data key is bound to another device's keychain, so it can be set up
+ * again. Skips the PIN - it couldn't open the data anyway - so it refuses unless the
+ * device secret really is missing.
+ */
+export const eraseDataFromOtherDevice = (): Promise<Result<void>> => attempt('erasing data from another device', async () => {
+    if (!(await isDeviceSecretMissing())) throw new Error('The data key can still be opened on this device');
+    await eraseAllData();
+    await logSecurityEvent('data-wiped', true, 'Locked on another device');
+});
+
+// ============ SECURITY LOG FUNCTIONS ============
+
+/**
+ * Append an event to the security log. The log is kept in plain storage so failed
+ * attempts can be recorded while locked; it never holds PINs or transaction data.
+ * Failures are swallowed - a log write must never block unlocking.
  */
-export const clearPINData = async (): Promise<void> => {
+const logSecurityEvent = async (type: SecurityEventType, success: boolean, detail?: string): Promise<void> => {
     try {
-        await AsyncStorage.removeItem(PIN_STORAGE_KEY);
-        await AsyncStorage.removeItem(RECOVERY_CODE_KEY);
+        const event: SecurityEvent = {
+            id: generateId(),
+            type,
+            success,
+            timestamp: new Date().toISOString(),
+            ...(detail ? { detail } : {}),
+        };
+        await withKeyLock(SECURITY_LOG_KEY, async () => {
+            // A failed read throws here, so the append fails rather than replacing the log
+            const jsonValue = await getProfileBackend().getItem(SECURITY_LOG_KEY);
+            let events: SecurityEvent[];
+            try {
+                events = jsonValue ? JSON.parse(jsonValue) : [];
+            } catch (error) {
+                events = [await setAsideSecurityLog(jsonValue as string, error)];
+            }
+            // Append-only; the oldest events drop off once the log is full
+            const updated = [event, ...events].slice(0, MAX_SECURITY_EVENTS);
+            await getProfileBackend().setItem(SECURITY_LOG_KEY, JSON.stringify(updated));
+        });
     } catch (error) {
-        console.error('Error clearing PIN data:', error);
-        throw error;
+        logError('Error writing security log', error);
     }
 };
 
+const readSecurityLog = async (): Promise<SecurityEvent[]> => {
+    const jsonValue = await getProfileBackend().getItem(SECURITY_LOG_KEY);
+    return jsonValue ? JSON.parse(jsonValue) : [];
+};
+
+/**
+ * Copy a log that can't be parsed to the backup key as-is, so appending starts a
+ * fresh log instead of replacing it. Returns the event that opens the fresh log.
+ */
+const setAsideSecurityLog = async (raw: string, error: unknown): Promise<SecurityEvent> => {
+    const backend = getProfileBackend();
+    const previous = await backend.getItem(SECURITY_LOG_BACKUP_KEY);
+    await backend.setItem(SECURITY_LOG_BACKUP_KEY, previous ? `${previous}\n${raw}` : raw);
+    logWarning(`Security log could not be read (kept in ${SECURITY_LOG_BACKUP_KEY})`, error);
+    return {
+        id: generateId(),
+        type: 'log-unreadable',
+        success: true,
+        timestamp: new Date().toISOString(),
+    };
+};
+
+/**
+ * Security events, newest first
+ */
+export const getSecurityLog = (): Promise<Result<SecurityEvent[]>> => attempt('getting security log', readSecurityLog);
+
+// ============ PROFILE FUNCTIONS ============
+
+// Throws if the list can't be read, so a failed read is never saved back over every profile
+const readProfiles = async (): Promise<Profile[]> => {
+    const jsonValue = await getStorageBackend().getItem(PROFILES_KEY);
+    // Installs from before profiles have one profile, holding the existing data
+    return jsonValue ? JSON.parse(jsonValue) : [createDefaultProfile()];
+};
+
+/**
+ * Everyone with a ledger on this device, oldest first
+ */
+export const getProfiles = (): Promise<Result<Profile[]>> => attempt('getting profiles', readProfiles);
+
+const saveProfiles = async (profiles: Profile[]): Promise<void> => {
+    await getStorageBackend().setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+/**
+ * The profile storage is currently pointed at
+ */
+export const getActiveProfile = (): Promise<Result<Profile | null>> => attempt('getting active profile', async () => {
+    const profiles = await readProfiles();
+    return profiles.find(profile => profile.id === getActiveProfileId()) || null;
+});
+
+/**
+ * Add an empty profile. Its PIN is set up the first time it's picked.
+ */
+export const addProfile = (name: string): Promise<Result<Profile>> => attempt('adding profile', async () => {
+    const newProfile: Profile = {
+        id: generateId(),
+        name: name.trim(),
+        createdAt: new Date().toISOString(),
+    };
+    await withKeyLock(PROFILES_KEY, async () => {
+        const profiles = await readProfiles();
+        await saveProfiles([...profiles, newProfile]);
+    });
+    return newProfile;
+});
+
+export const renameProfile = (id: string, name: string): Promise<Result<void>> => attempt('renaming profile', async () => {
+    await withKeyLock(PROFILES_KEY, async () => {
+        const profiles = await readProfiles();
+        await saveProfiles(profiles.map(profile =>
+            profile.id === id ? { ...profile, name: name.trim() } : profile
+        ));
+    });
+});
+
+/**
+ * Delete the active profile and everything in it, security log included.
+ * Deletes nothing unless the PIN check resolves 'confirmed'.
+ */
+export const deleteActiveProfile = (pin: string): Promise<Result<PINCheckResult>> => attempt('deleting profile', async () => {
+    const verified = await confirmPIN(pin);
+    if (verified !== 'confirmed') return verified;
+
+    const id = getActiveProfileId();
+    await eraseAllData();
+    await withKeyLock(SECURITY_LOG_KEY, async () => {
+        await getProfileBackend().removeItem(SECURITY_LOG_KEY);
+        await getProfileBackend().removeItem(SECURITY_LOG_BACKUP_KEY);
+    });
+    await withKeyLock(PROFILES_KEY, async () => {
+        const profiles = await readProfiles();
+        await saveProfiles(profiles.filter(profile => profile.id !== id));
+    });
+    return 'confirmed';
+});
@@ -0,0 +1,97 @@
+import Constants from 'expo-constants';
+import { createAsyncStorageBackend } from './backends/asyncStorageBackend';
+import { createMemoryBackend } from './backends/memoryBackend';
+import { createSQLiteBackend } from './backends/sqliteBackend';
+
+export type StorageBackendName = 'async-storage' | 'memory' | 'sqlite';
+
+/**
+ * Anything persisted as part of a collection (expenses, income, periods)
+ */
+export interface StorageRecord {
+    id: string;
+}
+
+/**
+ * Persistence primitives used by services/storage.ts.
+ *
+ * Plain key/value items hold small settings (PIN, schema version); collections
+ * hold lists of records ordered newest first, so backends that can update a
+ * single row don't have to rewrite the whole list on every change.
+ */
+export interface StorageBackend {
+    readonly name: StorageBackendName;
+
+    getItem(key: string): Promise<string | null>;
+    setItem(key: string, value: string): Promise<void>;
+    removeItem(key: string): Promise<void>;
+
+    getRecords<T extends StorageRecord>(collection: string): Promise<T[]>;
+    /** The collection exactly as stored, without parsing - for backing up data that can't be read */
+    getRawCollection(collection: string): Promise<string | null>;
+    /** Replace the whole collection, keeping the given order */
+    setRecords<T extends StorageRecord>(collection: string, records: T[]): Promise<void>;
+    /** Add a record to the beginning of the collection */
+    insertRecord<T extends StorageRecord>(collection: string, record: T): Promise<void>;
+    /** Replace the record with the same id; resolves false if there is none */
+    updateRecord<T extends StorageRecord>(collection: string, record: T): Promise<boolean>;
+    deleteRecord(collection: string, id: string): Promise<void>;
+    clearRecords(collection: string): Promise<void>;
+}
+
+const DEFAULT_BACKEND: StorageBackendName = 'async-storage';
+
+let activeBackend: StorageBackend | null = null;
+
+/**
+ * Get the backend all storage functions go through. Throws until a backend has been
+ * opened, so a failed initStorageBackend() can't quietly fall back to another one.
+ */
+export const getStorageBackend = (): StorageBackend => {
+    if (!activeBackend) {
+        throw new Error('Storage has not been opened - call initStorageBackend() first');
+    }
+    return activeBackend;
+};
+
+/**
+ * Swap the active backend (e.g. an in-memory backend in tests)
+ */
+export const setStorageBackend = (backend: StorageBackend): void => {
+    activeBackend = backend;
+};
+
+/**
+ * Backend chosen in app.json under `expo.extra.storageBackend`.
+ * Pick it before the first release: an existing install that switches backends
+ * starts out empty, as nothing is copied from the previous one.
+ */
+export const getConfiguredBackendName = (): StorageBackendName => {
+    const configured = Constants.expoConfig?.extra?.storageBackend;
+    if (configured === 'async-storage' || configured === 'memory' || configured === 'sqlite') {
+        return configured;
+    }
+    return DEFAULT_BACKEND;
+};
+
+/**
+ * Open the configured backend. Must run on app start before any other storage call.
+ * Switching backends does not copy data between them, so only fresh installs should switch.
+ */
+export const initStorageBackend = async (name: StorageBackendName = getConfiguredBackendName()): Promise<StorageBackend> => {
+    if (activeBackend?.name === name) {
+        return activeBackend;
+    }
+
+    switch (name) {
+        case 'sqlite':
+            activeBackend = await createSQLiteBackend();
+            break;
+        case 'memory':
+            activeBackend = createMemoryBackend();
+            break;
+        default:
+            activeBackend = createAsyncStorageBackend();
+    }
+    return activeBackend;
+};
@@ -0,0 +1,124 @@
+import { StorageBackend } from './storageBackend';
+import { getProfileBackend } from './profiles';
+import { isStorageUnlocked } from './encryption';
+
+type StoreListener = () => void | Promise<void>;
+
+const listeners = new Set<StoreListener>();
+const cache = new Map<string, unknown>();
+const pendingLoads = new Map<string, Promise<unknown>>();
+
+// The profile backend the cache was filled from; a new one means another profile or backend
+let cacheOwner: StorageBackend | null = null;
+
+// Bumped by every write and clear, so a load that started earlier can't cache what it read
+let generation = 0;
+
+/**
+ * Drop the cache if it belongs to another profile or storage has been locked since it was filled
+ */
+const checkCacheOwner = (): void => {
+    const owner = getProfileBackend();
+    if (cacheOwner !== owner || !isStorageUnlocked()) {
+        cache.clear();
+        pendingLoads.clear();
+        cacheOwner = owner;
+        generation++;
+    }
+};
+
+// ============ READS ============
+
+/**
+ * Return the cached value for a key, loading it once if it isn't cached yet.
+ * Concurrent reads of the same key share one load. Failed loads aren't cached.
+ */
+export const readThrough = async <T>(key: string, load: () => Promise<T>): Promise<T> => {
+    checkCacheOwner();
+    if (cache.has(key)) return cache.get(key) as T;
+
+    let pending = pendingLoads.get(key);
+    if (!pending) {
+        const loadGeneration = generation;
+        pending = load()
+            .then((value) => {
+                if (generation === loadGeneration) cache.set(key, value);
+                return value;
+            })
+            .finally(() => pendingLoads.delete(key));
+        pendingLoads.set(key, pending);
+    }
+    return pending as Promise<T>;
+};
+
+// ============ WRITES ============
+// Call these only after the write to storage succeeded
+
+/**
+ * Replace a key's cached value and tell subscribers
+ */
+export const writeThrough = <T>(key: string, value: T): void => {
+    checkCacheOwner();
+    generation++;
+    cache.set(key, value);
+    notifyStoreChanged();
+};
+
+/**
+ * Apply a change to a key's cached value, if it's cached, and tell subscribers
+ */
+export const updateCached = <T>(key: string, update: (value: T) => T): void => {
+    checkCacheOwner();
+    generation++;
+    if (cache.has(key)) {
+        cache.set(key, update(cache.get(key) as T));
+    }
+    notifyStoreChanged();
+};
+
+/**
+ * Forget a key so the next read loads it from storage, and tell subscribers
+ */
+export const invalidateCached = (key: string): void => {
+    generation++;
+    cache.delete(key);
+    pendingLoads.delete(key);
+    notifyStoreChanged();
+};
+
+/**
+ * Forget everything, e.g. on lock so decrypted data doesn't outlive the data key
+ */
+export const clearStore = (): void => {
+    generation++;
+    cache.clear();
+    pendingLoads.clear();
+};
+
+// ============ SUBSCRIPTIONS ============
+
+/**
+ * Call `listener` whenever cached data changes. Returns an unsubscribe function.
+ */
+export const subscribeToStore = (listener: StoreListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+/**
+ * Tell subscribers to re-read, e.g. after data was changed without going through the cache
+ */
+export const notifyStoreChanged = (): void => {
+    listeners.forEach(listener => listener());
+};
+
+/**
+ * Re-read everything from storage (pull-to-refresh, retry after an error).
+ * Resolves once every subscriber has reloaded.
+ */
+export const reloadStore = async (): Promise<void> => {
+    clearStore();
+    await Promise.all(Array.from(listeners, listener => listener()));
+};
@@ -0,0 +1,74 @@
+import { Money, CurrencyCode, zeroMoney } from './money';
+import { Transaction, TransferTransaction } from './transaction';
+
+export type AccountKind = 'cash' | 'checking' | 'savings' | 'credit-card';
+
+export const ACCOUNT_KINDS: AccountKind[] = ['cash', 'checking', 'savings', 'credit-card'];
+
+export const ACCOUNT_KIND_LABELS: Record<AccountKind, string> = {
+    cash: 'Cash',
+    checking: 'Checking',
+    savings: 'Savings',
+    'credit-card': 'Credit Card',
+};
+
+/**
+ * Where money is kept. Balances are tracked in the opening balance's currency.
+ */
+export interface Account {
+    id: string;
+    name: string;
+    kind: AccountKind;
+    openingBalance: Money; // Negative for money owed, e.g. a credit card carrying a balance
+    createdAt: string; // ISO string format
+}
+
+export const MAX_ACCOUNT_NAME_LENGTH = 30;
+
+/**
+ * The account every ledger starts with; transactions from before accounts belong to it
+ */
+export const createDefaultAccount = (id: string, currency: CurrencyCode): Account => ({
+    id,
+    name: 'Cash',
+    kind: 'cash',
+    openingBalance: zeroMoney(currency),
+    createdAt: new Date().toISOString(),
+});
+
+/**
+ * Returns an error message for an unusable account name, or null if it's fine
+ */
+export const validateAccountName = (name: string, existing: Account[], ignoreId?: string): string | null => {
+    const trimmed = name.trim();
+    if (!trimmed) return 'Enter a name';
+    if (trimmed.length > MAX_ACCOUNT_NAME_LENGTH) return `Use at most ${MAX_ACCOUNT_NAME_LENGTH} characters`;
+    const taken = existing.some(account =>
+        account.id !== ignoreId && account.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    return taken ? 'An account with this name already exists' : null;
+};
+
+/**
+ * "Checking → Savings", for showing a transfer in transaction lists
+ */
+export const describeTransfer = (transfer: TransferTransaction, accounts: Account[]): string => {
+    const nameOf = (id: string) => accounts.find(account => account.id === id)?.name ?? 'Unknown account';
+    return `${nameOf(transfer.accountId)} → ${nameOf(transfer.toAccountId)}`;
+};
+
+export interface LedgerEntry {
+    transaction: Transaction;
+    change: Money | null; // Signed, in the account's currency; null if there's no exchange rate
+    runningBalance: Money; // Balance after this transaction
+}
+
+/**
+ * An account's transactions with the balance after each one, newest first
+ */
+export interface AccountLedger {
+    account: Account;
+    entries: LedgerEntry[];
+    balance: Money;
+    missingRates: CurrencyCode[]; // Left out of the balance until a rate is added
+}
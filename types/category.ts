@@ -0,0 +1,75 @@
+/**
+ * A user-managed expense category. Expenses refer to categories by name,
+ * so renaming one also renames it on every expense.
+ */
+export interface ExpenseCategory {
+    id: string;
+    name: string;
+    color: string; // Hex color from CATEGORY_COLORS
+    icon: string; // Ionicons name from CATEGORY_ICONS
+    order: number; // Position in pickers, lowest first
+    archived: boolean; // Hidden from pickers; expenses keep it
+    createdAt: string; // ISO string format
+}
+
+export const MAX_CATEGORY_NAME_LENGTH = 24;
+
+export const CATEGORY_COLORS = [
+    '#ef4444', '#f97316', '#f59e0b', '#10b981', '#14b8a6',
+    '#3b82f6', '#6366f1', '#8b5cf6', '#ec4899', '#6b7280',
+];
+
+export const CATEGORY_ICONS = [
+    'fast-food-outline', 'car-outline', 'bag-outline', 'receipt-outline', 'film-outline',
+    'home-outline', 'medkit-outline', 'school-outline', 'airplane-outline', 'gift-outline',
+    'paw-outline', 'barbell-outline', 'cafe-outline', 'shirt-outline', 'pricetag-outline',
+];
+
+// The categories the app shipped with before they could be edited
+const DEFAULT_CATEGORIES: Pick<ExpenseCategory, 'name' | 'color' | 'icon'>[] = [
+    { name: 'Food', color: '#f97316', icon: 'fast-food-outline' },
+    { name: 'Transport', color: '#3b82f6', icon: 'car-outline' },
+    { name: 'Shopping', color: '#ec4899', icon: 'bag-outline' },
+    { name: 'Bills', color: '#f59e0b', icon: 'receipt-outline' },
+    { name: 'Entertainment', color: '#8b5cf6', icon: 'film-outline' },
+    { name: 'Other', color: '#6b7280', icon: 'pricetag-outline' },
+];
+
+export const createCategory = (
+    id: string,
+    details: Pick<ExpenseCategory, 'name' | 'color' | 'icon'>,
+    order: number
+): ExpenseCategory => ({
+    ...details,
+    id,
+    name: details.name.trim(),
+    order,
+    archived: false,
+    createdAt: new Date().toISOString(),
+});
+
+/**
+ * The starting categories, followed by any other names already used on `existingNames`
+ * so older expenses stay editable. `newId` is called once per category.
+ */
+export const createDefaultCategories = (newId: () => string, existingNames: string[] = []): ExpenseCategory[] => {
+    const defaults = DEFAULT_CATEGORIES.map((category, index) => createCategory(newId(), category, index));
+    const known = new Set(defaults.map(category => category.name.toLowerCase()));
+    const extras = Array.from(new Set(existingNames.map(name => name.trim())))
+        .filter(name => name && !known.has(name.toLowerCase()))
+        .map((name, index) => createCategory(newId(), { name, color: '#6b7280', icon: 'pricetag-outline' }, defaults.length + index));
+    return [...defaults, ...extras];
+};
+
+/**
+ * Returns an error message for an unusable category name, or null if it's fine
+ */
+export const validateCategoryName = (name: string, existing: ExpenseCategory[], ignoreId?: string): string | null => {
+    const trimmed = name.trim();
+    if (!trimmed) return 'Enter a name';
+    if (trimmed.length > MAX_CATEGORY_NAME_LENGTH) return `Use at most ${MAX_CATEGORY_NAME_LENGTH} characters`;
+    const taken = existing.some(category =>
+        category.id !== ignoreId && category.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    return taken ? 'A category with this name already exists' : null;
+};
@@ -0,0 +1,25 @@
+export type DiagnosticLevel = 'info' | 'warn' | 'error';
+
+export interface DiagnosticEntry {
+    id: string;
+    level: DiagnosticLevel;
+    timestamp: string; // ISO string format
+    message: string; // What the app was doing, e.g. "Error adding expense"
+    detail?: string; // Error name and message, redacted
+}
+
+export const DIAGNOSTIC_LEVEL_LABELS: Record<DiagnosticLevel, string> = {
+    info: 'Info',
+    warn: 'Warning',
+    error: 'Error',
+};
+
+/**
+ * Strip anything that could be the user's money or words from a log line.
+ * Numbers of three or more digits (amounts are stored in minor units) and quoted
+ * text (parse errors echo the data they choked on) are replaced.
+ */
+export const redactDiagnosticText = (text: string): string =>
+    text
+        .replace(/(["'`]).*?\1/g, '[redacted]')
+        .replace(/\d+[.,]\d+|\d{3,}/g, '#');
@@ -0,0 +1,85 @@
+import { Money, CurrencyCode, createMoney, getMinorUnitDigits } from './money';
+
+/**
+ * User-maintained exchange rates. `rates[code]` is how many units of `code`
+ * one unit of `base` buys, so `rates[base]` is always 1.
+ */
+export interface ExchangeRateTable {
+    base: CurrencyCode;
+    rates: Record<CurrencyCode, number>;
+    updatedAt: string; // ISO string format
+}
+
+export const createExchangeRateTable = (base: CurrencyCode): ExchangeRateTable => ({
+    base,
+    rates: { [base]: 1 },
+    updatedAt: new Date().toISOString(),
+});
+
+export const isValidCurrencyCode = (code: string): boolean => /^[A-Z]{3}$/.test(code);
+
+/**
+ * Convert an amount into another currency using the table.
+ * Returns null if either currency has no rate.
+ */
+export const convertMoney = (money: Money, to: CurrencyCode, table: ExchangeRateTable): Money | null => {
+    if (money.currency === to) return money;
+
+    const fromRate = money.currency === table.base ? 1 : table.rates[money.currency];
+    const toRate = to === table.base ? 1 : table.rates[to];
+    if (!fromRate || !toRate) return null;
+
+    const major = money.minor / Math.pow(10, getMinorUnitDigits(money.currency));
+    const converted = (major / fromRate) * toRate;
+    return createMoney(Math.round(converted * Math.pow(10, getMinorUnitDigits(to))), to);
+};
+
+/**
+ * Parse an exchange-rate file. Accepts either JSON
+ * (`{ "base": "USD", "rates": { "EUR": 0.92 } }`) or CSV lines of `CODE,rate`
+ * with an optional `base,USD` line. Throws with a user-facing message if invalid.
+ */
+export const parseExchangeRateFile = (contents: string, fallbackBase: CurrencyCode): ExchangeRateTable => {
+    const trimmed = contents.trim();
+    let base = fallbackBase;
+    const rates: Record<CurrencyCode, number> = {};
+
+    if (trimmed.startsWith('{')) {
+        const parsed = JSON.parse(trimmed);
+        if (typeof parsed.base === 'string') base = parsed.base.toUpperCase();
+        if (typeof parsed.rates !== 'object' || parsed.rates === null) {
+            throw new Error('File has no "rates" object');
+        }
+        Object.entries(parsed.rates).forEach(([code, rate]) => {
+            rates[code.toUpperCase()] = Number(rate);
+        });
+    } else {
+        trimmed.split(/\r?\n/).forEach((line) => {
+            const [rawCode, rawValue] = line.split(/[,;\t]/).map(part => part.trim());
+            if (!rawCode || rawValue === undefined) return;
+            if (rawCode.toLowerCase() === 'base') {
+                base = rawValue.toUpperCase();
+            } else if (rawCode.toLowerCase() !== 'currency') { // Skip header row
+                rates[rawCode.toUpperCase()] = Number(rawValue);
+            }
+        });
+    }
+
+    if (!isValidCurrencyCode(base)) {
+        throw new Error(`Invalid base currency "${base}"`);
+    }
+    Object.entries(rates).forEach(([code, rate]) => {
+        if (!isValidCurrencyCode(code) || !isFinite(rate) || rate <= 0) {
+            throw new Error(`Invalid rate for "${code}"`);
+        }
+    });
+    if (Object.keys(rates).length === 0) {
+        throw new Error('No exchange rates found in file');
+    }
+
+    return {
+        base,
+        rates: { ...rates, [base]: 1 },
+        updatedAt: new Date().toISOString(),
+    };
+};
@@ -1,6 +1,12 @@
+import { Money } from './money';
+
+/**
+ * A record in the legacy expenses collection, merged into transactions by migration 5.
+ * Transactions have since gained an account (migration 6).
+ */
 export interface Expense {
   id: string;
-  amount: number;
+  amount: Money;
   description: string;
   category: string;
   date: string; // ISO string format
@@ -1,10 +1,13 @@
+import { Money } from './money';
+
+/**
+ * A record in the legacy income collection, merged into transactions by migration 5.
+ * Transactions have since gained an account (migration 6).
+ */
 export interface Income {
     id: string;
-    amount: number;
+    amount: Money;
     description: string;
     source: string;
     date: string; // ISO string format
 }
-
-export const INCOME_SOURCES = ['Salary', 'Side Hustle', 'Gig', 'Freelance', 'Other'] as const;
-export type IncomeSource = typeof INCOME_SOURCES[number];
@@ -0,0 +1,106 @@
+export type CurrencyCode = string; // ISO 4217, e.g. "USD"
+
+/**
+ * An amount of money in integer minor units (cents for USD), so sums never drift
+ */
+export interface Money {
+    minor: number;
+    currency: CurrencyCode;
+}
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+// Currencies without cents; everything else is assumed to have 2 decimal places
+const ZERO_DECIMAL_CURRENCIES = ['JPY', 'KRW', 'VND', 'CLP', 'ISK', 'UGX'];
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+    USD: '$',
+    EUR: '€',
+    GBP: '£',
+    JPY: '¥',
+    ZAR: 'R',
+    INR: '₹',
+};
+
+/**
+ * Number of decimal places the currency's minor unit represents
+ */
+export const getMinorUnitDigits = (currency: CurrencyCode): number => {
+    return ZERO_DECIMAL_CURRENCIES.includes(currency) ? 0 : 2;
+};
+
+export const createMoney = (minor: number, currency: CurrencyCode = DEFAULT_CURRENCY): Money => ({
+    minor,
+    currency,
+});
+
+export const zeroMoney = (currency: CurrencyCode = DEFAULT_CURRENCY): Money => createMoney(0, currency);
+
+/**
+ * Parse user input like "12", "12.5" or "1,234.56" without going through a float.
+ * Returns null if the input isn't a plain positive or zero decimal number
+ * or has more decimals than the currency allows.
+ */
+export const parseMoney = (input: string, currency: CurrencyCode = DEFAULT_CURRENCY): Money | null => {
+    const cleaned = input.trim().replace(/,/g, '');
+    const match = /^(\d*)(?:\.(\d*))?$/.exec(cleaned);
+    if (!match || (match[1] === '' && !match[2])) return null;
+
+    const digits = getMinorUnitDigits(currency);
+    const fraction = match[2] || '';
+    if (fraction.length > digits) return null;
+
+    const whole = parseInt(match[1] || '0', 10);
+    const minor = whole * Math.pow(10, digits) + parseInt(fraction.padEnd(digits, '0') || '0', 10);
+    if (!Number.isSafeInteger(minor)) return null;
+
+    return createMoney(minor, currency);
+};
+
+/**
+ * Convert a legacy floating-point amount (e.g. 12.3) to minor units
+ */
+export const fromMajorUnits = (amount: number, currency: CurrencyCode = DEFAULT_CURRENCY): Money => {
+    return createMoney(Math.round(amount * Math.pow(10, getMinorUnitDigits(currency))), currency);
+};
+
+/**
+ * Plain decimal string suitable for prefilling an amount input, e.g. "12.50"
+ */
+export const formatMoneyInput = (money: Money): string => {
+    const digits = getMinorUnitDigits(money.currency);
+    const absolute = Math.abs(money.minor).toString().padStart(digits + 1, '0');
+    const whole = absolute.slice(0, absolute.length - digits);
+    const fraction = absolute.slice(absolute.length - digits);
+    const sign = money.minor < 0 ? '-' : '';
+    return digits > 0 ? `${sign}${whole}.${fraction}` : `${sign}${whole}`;
+};
+
+/**
+ * Display string with currency symbol, e.g. "$12.50" or "-$3.00"
+ */
+export const formatMoney = (money: Money): string => {
+    const symbol = CURRENCY_SYMBOLS[money.currency];
+    const absolute = formatMoneyInput({ ...money, minor: Math.abs(money.minor) });
+    const sign = money.minor < 0 ? '-' : '';
+    return symbol ? `${sign}${symbol}${absolute}` : `${sign}${absolute} ${money.currency}`;
+};
+
+export const addMoney = (a: Money, b: Money): Money => {
+    if (a.currency !== b.currency) {
+        throw new Error(`Cannot add ${a.currency} and ${b.currency} amounts`);
+    }
+    return createMoney(a.minor + b.minor, a.currency);
+};
+
+export const subtractMoney = (a: Money, b: Money): Money => addMoney(a, createMoney(-b.minor, b.currency));
+
+export const sumMoney = (amounts: Money[], currency: CurrencyCode = DEFAULT_CURRENCY): Money => {
+    return amounts.reduce((sum, amount) => addMoney(sum, amount), zeroMoney(currency));
+};
+
+export const isMoney = (value: unknown): value is Money => {
+    return typeof value === 'object' && value !== null
+        && typeof (value as Money).minor === 'number'
+        && typeof (value as Money).currency === 'string';
+};
@@ -1,3 +1,5 @@
+import { Money, DEFAULT_CURRENCY, zeroMoney } from './money';
+
 export interface MonthPeriod {
     id: string;
     startDate: string; // ISO string format
@@ -6,6 +8,34 @@ export interface MonthPeriod {
     isActive: boolean; // Whether this is the currently active period
 }
 
+export interface CategoryTotal {
+    category: string;
+    total: Money;
+}
+
+export interface PeriodStats {
+    totalIncome: Money;
+    totalExpenses: Money;
+    balance: Money;
+    incomeCount: number;
+    expenseCount: number;
+    categoryTotals: CategoryTotal[]; // Expenses by category, split lines counted separately, largest first
+    missingRates: string[]; // Currencies left out of the totals for lack of an exchange rate
+}
+
+/**
+ * Stats for a period with no transactions
+ */
+export const createEmptyStats = (currency: string = DEFAULT_CURRENCY): PeriodStats => ({
+    totalIncome: zeroMoney(currency),
+    totalExpenses: zeroMoney(currency),
+    balance: zeroMoney(currency),
+    incomeCount: 0,
+    expenseCount: 0,
+    categoryTotals: [],
+    missingRates: [],
+});
+
 /**
  * Check if a date falls within a month period
  */
@@ -19,7 +49,7 @@ export const isDateInPeriod = (date: string, period: MonthPeriod): boolean => {
 /**
  * Create a new month period starting from a given date
  */
-export const createMonthPeriod = (startDate: Date, customName?: string, isActive: boolean = false): MonthPeriod => {
+export const createMonthPeriod = (id: string, startDate: Date, customName?: string, isActive: boolean = false): MonthPeriod => {
     const endDate = new Date(startDate);
     endDate.setDate(endDate.getDate() + 30);
 
@@ -27,7 +57,7 @@ export const createMonthPeriod = (startDate: Date, customName?: string, isActive
     const name = customName || formatPeriodName(startDate, endDate);
 
     return {
-        id: startDate.getTime().toString(),
+        id,
         startDate: startDate.toISOString(),
         endDate: endDate.toISOString(),
         name,
@@ -3,3 +3,68 @@ export interface PINData {
     recoveryCode: string;
     createdAt: string;
 }
+
+/**
+ * Salted, slow hash of a PIN or recovery code, as stored by installs from before encryption
+ */
+export interface SecretHash {
+    algorithm: 'pbkdf2-sha256';
+    salt: string; // hex
+    iterations: number;
+    hash: string; // hex
+}
+
+/**
+ * Failed unlock attempts, shared by the PIN and recovery-code screens so
+ * switching screens doesn't reset the count
+ */
+export interface LockoutState {
+    failedAttempts: number;
+    lockedUntil: string | null; // ISO string format
+}
+
+export type UnlockResult = 'unlocked' | 'invalid' | 'locked-out' | 'wiped';
+
+/**
+ * Outcome of re-entering the PIN inside the app, which shares the unlock lockout
+ */
+export type PINCheckResult = 'confirmed' | Exclude<UnlockResult, 'unlocked'>;
+
+export const FREE_ATTEMPTS = 4;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+export const WIPE_AFTER_OPTIONS = [10, 15, 20];
+
+/**
+ * How long to lock unlocking after this many consecutive failures:
+ * nothing for the first few, then 30s doubling up to an hour
+ */
+export const getLockoutDuration = (failedAttempts: number): number => {
+    if (failedAttempts <= FREE_ATTEMPTS) return 0;
+    return Math.min(BASE_LOCKOUT_MS * Math.pow(2, failedAttempts - FREE_ATTEMPTS - 1), MAX_LOCKOUT_MS);
+};
+
+/**
+ * Minutes away or idle before the app locks again. 0 locks as soon as the app is backgrounded.
+ */
+export const AUTO_LOCK_OPTIONS = [0, 1, 5, 15];
+export const DEFAULT_AUTO_LOCK_MINUTES = 1;
+
+export const formatAutoLock = (minutes: number): string => {
+    if (minutes === 0) return 'Immediately';
+    return minutes === 1 ? 'After 1 minute' : `After ${minutes} minutes`;
+};
+
+/**
+ * One-time recovery codes as hashed by installs from before encryption. They share a salt,
+ * so checking a guess costs one derivation however many codes are left. Used codes are set to null.
+ */
+export interface RecoveryCodeSet {
+    algorithm: 'pbkdf2-sha256';
+    salt: string; // hex
+    iterations: number;
+    hashes: (string | null)[]; // hex
+}
+
+export const RECOVERY_CODE_COUNT = 10;
@@ -0,0 +1,68 @@
+/**
+ * A PIN is either digits only, or a passphrase of any characters
+ */
+export type PINMode = 'numeric' | 'passphrase';
+
+export const DEFAULT_PIN_MODE: PINMode = 'numeric';
+
+const PIN_LENGTH = { min: 4, max: 12 };
+const PASSPHRASE_LENGTH = { min: 6, max: 64 };
+
+// Most common 4-digit PINs that aren't already caught as repeats or sequences
+const COMMON_PINS = ['2580', '0852', '1004', '2000', '6969', '1998', '1999', '2001', '1313', '5683', '1379', '7777'];
+const COMMON_PASSPHRASES = ['password', 'passw0rd', 'qwerty', 'qwertyuiop', 'letmein', 'iloveyou', 'welcome', 'monkey', 'dragon', 'abc123'];
+
+export const getPINLengthLimits = (mode: PINMode): { min: number; max: number } => {
+    return mode === 'numeric' ? PIN_LENGTH : PASSPHRASE_LENGTH;
+};
+
+export const getPINKeyboardType = (mode: PINMode): 'number-pad' | 'default' => {
+    return mode === 'numeric' ? 'number-pad' : 'default';
+};
+
+/**
+ * Whether the value is a short unit repeated, e.g. "1111", "1212" or "abcabc"
+ */
+const isRepeatedPattern = (value: string): boolean => {
+    for (let unit = 1; unit <= value.length / 2; unit++) {
+        if (value.length % unit === 0 && value.slice(0, unit).repeat(value.length / unit) === value) {
+            return true;
+        }
+    }
+    return false;
+};
+
+/**
+ * Whether each character is one more (or one less) than the last, e.g. "1234", "9876" or "abcd"
+ */
+const isSequence = (value: string): boolean => {
+    const codes = Array.from(value.toLowerCase(), char => char.charCodeAt(0));
+    const step = codes[1] - codes[0];
+    if (Math.abs(step) !== 1) return false;
+    return codes.every((code, i) => i === 0 || code - codes[i - 1] === step);
+};
+
+/**
+ * Check a new PIN or passphrase against the policy. Returns an error message, or null if it's acceptable.
+ * Only used when choosing a PIN - existing PINs keep unlocking even if they'd fail today's policy.
+ */
+export const validatePIN = (pin: string, mode: PINMode): string | null => {
+    const { min, max } = getPINLengthLimits(mode);
+
+    if (mode === 'numeric') {
+        if (!/^\d+$/.test(pin)) return 'PIN must contain digits only';
+        if (pin.length < min || pin.length > max) return `PIN must be ${min} to ${max} digits`;
+    } else {
+        if (pin.length < min || pin.length > max) return `Passphrase must be ${min} to ${max} characters`;
+    }
+
+    if (isRepeatedPattern(pin) || isSequence(pin)) {
+        return mode === 'numeric'
+            ? 'PIN is too easy to guess - avoid repeated digits and sequences like 1234'
+            : 'Passphrase is too easy to guess - avoid repeated characters and sequences';
+    }
+    if ((mode === 'numeric' ? COMMON_PINS : COMMON_PASSPHRASES).includes(pin.toLowerCase())) {
+        return mode === 'numeric' ? 'PIN is too common - choose another' : 'Passphrase is too common - choose another';
+    }
+    return null;
+};
@@ -0,0 +1,32 @@
+/**
+ * One person's ledger on a shared device, with its own PIN and data key
+ */
+export interface Profile {
+    id: string;
+    name: string;
+    createdAt: string; // ISO string format
+}
+
+// Data from before profiles existed belongs to this profile and keeps its unprefixed keys
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const MAX_PROFILE_NAME_LENGTH = 30;
+
+export const createDefaultProfile = (): Profile => ({
+    id: DEFAULT_PROFILE_ID,
+    name: 'Me',
+    createdAt: new Date().toISOString(),
+});
+
+/**
+ * Returns an error message for an unusable profile name, or null if it's fine
+ */
+export const validateProfileName = (name: string, existing: Profile[], ignoreId?: string): string | null => {
+    const trimmed = name.trim();
+    if (!trimmed) return 'Enter a name';
+    if (trimmed.length > MAX_PROFILE_NAME_LENGTH) return `Use at most ${MAX_PROFILE_NAME_LENGTH} characters`;
+    const taken = existing.some(profile =>
+        profile.id !== ignoreId && profile.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    return taken ? 'A profile with this name already exists' : null;
+};
@@ -0,0 +1,10 @@
+/**
+ * A collection that failed to read. Its stored contents were copied to `backupKey`
+ * and writes to it stay blocked until the user picks a recovery option.
+ */
+export interface QuarantineEntry {
+    collection: string;
+    backupKey: string;
+    detectedAt: string; // ISO string format
+    reason: string;
+}
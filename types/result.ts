@@ -0,0 +1,58 @@
+/**
+ * Why a storage call failed, so screens can tell the user what to do about it
+ */
+export type StorageErrorCategory =
+    | 'locked' // The data key is gone, e.g. the app relocked mid-load
+    | 'corrupt' // Stored data can't be read; it has been quarantined
+    | 'write-blocked' // Saving is paused until quarantined data is repaired
+    | 'not-found' // The record was deleted elsewhere
+    | 'other-device' // The data key is bound to another device's keychain; only erasing gets past it
+    | 'unknown';
+
+export interface StorageError {
+    category: StorageErrorCategory;
+    message: string; // User-facing, says what to do next
+}
+
+export type Result<T> = { ok: true; value: T } | { ok: false; error: StorageError };
+
+export const STORAGE_ERROR_MESSAGES: Record<StorageErrorCategory, string> = {
+    locked: 'The app locked before this finished. Unlock and try again.',
+    corrupt: 'Some of your data couldn\'t be read. A copy has been set aside - review it on the repair screen.',
+    'write-blocked': 'Saving is paused until unreadable data is repaired. Open the repair screen to fix it.',
+    'not-found': 'This item no longer exists. It may have been deleted.',
+    'other-device': 'This data was locked on another device, or this device\'s keychain was reset, so it can\'t be unlocked here - not even with the right PIN. Erase it to start over.',
+    unknown: 'Something went wrong reading or saving your data. Please try again.',
+};
+
+export const STORAGE_ERROR_TITLES: Record<StorageErrorCategory, string> = {
+    locked: 'App Locked',
+    corrupt: 'Unreadable Data',
+    'write-blocked': 'Saving Paused',
+    'not-found': 'Not Found',
+    'other-device': 'Can\'t Unlock Here',
+    unknown: 'Something Went Wrong',
+};
+
+export const ok = <T>(value: T): Result<T> => ({ ok: true, value });
+
+export const fail = <T>(category: StorageErrorCategory): Result<T> => ({
+    ok: false,
+    error: { category, message: STORAGE_ERROR_MESSAGES[category] },
+});
+
+/**
+ * The error of the first failed result, or null if they all succeeded
+ */
+export const firstError = (...results: Result<unknown>[]): StorageError | null => {
+    for (const result of results) {
+        if (!result.ok) return result.error;
+    }
+    return null;
+};
+
+/**
+ * Whether the repair screen is where the user can fix this
+ */
+export const needsRepair = (error: StorageError): boolean =>
+    error.category === 'corrupt' || error.category === 'write-blocked';
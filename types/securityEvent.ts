@@ -0,0 +1,40 @@
+export type SecurityEventType =
+    | 'pin-setup'
+    | 'pin-unlock'
+    | 'biometric-unlock'
+    | 'recovery-unlock'
+    | 'pin-check' // PIN re-entered inside the app, e.g. before changing it
+    | 'biometric-check' // Fingerprint/face confirmed inside the app
+    | 'pin-change'
+    | 'recovery-codes-regenerated'
+    | 'lockout'
+    | 'data-wiped'
+    | 'log-unreadable'; // The previous log couldn't be read and was set aside
+
+export interface SecurityEvent {
+    id: string;
+    type: SecurityEventType;
+    success: boolean;
+    timestamp: string; // ISO string format
+    detail?: string;
+}
+
+export const SECURITY_EVENT_LABELS: Record<SecurityEventType, string> = {
+    'pin-setup': 'PIN set up',
+    'pin-unlock': 'Unlock with PIN',
+    'biometric-unlock': 'Biometric unlock',
+    'recovery-unlock': 'Recovery code used',
+    'pin-check': 'PIN confirmation',
+    'biometric-check': 'Biometric confirmation',
+    'pin-change': 'PIN changed',
+    'recovery-codes-regenerated': 'Recovery codes regenerated',
+    'lockout': 'Unlocking paused',
+    'data-wiped': 'All data erased',
+    'log-unreadable': 'Unreadable log set aside',
+};
+
+/**
+ * Events triggered by repeated failures or damaged storage rather than by a user action
+ */
+export const isWarningEvent = (type: SecurityEventType): boolean =>
+    type === 'lockout' || type === 'data-wiped' || type === 'log-unreadable';
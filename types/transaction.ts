@@ -0,0 +1,99 @@
+import { Money, formatMoney, sumMoney } from './money';
+
+interface TransactionBase {
+    id: string;
+    amount: Money;
+    description: string;
+    date: string; // ISO string format
+    accountId: string; // For transfers, the account the money leaves
+}
+
+/**
+ * One category's share of a split expense, in the expense's currency
+ */
+export interface CategorySplit {
+    category: string;
+    amount: Money;
+}
+
+export interface ExpenseTransaction extends TransactionBase {
+    type: 'expense';
+    category: string; // For split expenses, the first line's category
+    splits?: CategorySplit[]; // Two or more lines summing to `amount`; absent when the expense has one category
+}
+
+export interface IncomeTransaction extends TransactionBase {
+    type: 'income';
+    source: string;
+}
+
+/**
+ * Money moved between two of the user's own accounts. Changes both balances
+ * but is neither income nor an expense.
+ */
+export interface TransferTransaction extends TransactionBase {
+    type: 'transfer';
+    toAccountId: string;
+}
+
+/**
+ * Every expense, income and transfer entry, stored together and told apart by `type`
+ */
+export type Transaction = ExpenseTransaction | IncomeTransaction | TransferTransaction;
+
+export type TransactionType = Transaction['type'];
+
+export const INCOME_SOURCES = ['Salary', 'Side Hustle', 'Gig', 'Freelance', 'Other'] as const;
+export type IncomeSource = typeof INCOME_SOURCES[number];
+
+export type NewTransaction =
+    | Omit<ExpenseTransaction, 'id'>
+    | Omit<IncomeTransaction, 'id'>
+    | Omit<TransferTransaction, 'id'>;
+
+/**
+ * Prefix for amounts in transaction lists; transfers don't change the overall balance
+ */
+export const TRANSACTION_SIGNS: Record<TransactionType, string> = {
+    income: '+',
+    expense: '-',
+    transfer: '',
+};
+
+/**
+ * How an expense's amount divides between categories; a single line unless it's split
+ */
+export const getCategoryLines = (expense: ExpenseTransaction | Omit<ExpenseTransaction, 'id'>): CategorySplit[] =>
+    expense.splits && expense.splits.length > 0
+        ? expense.splits
+        : [{ category: expense.category, amount: expense.amount }];
+
+/**
+ * Returns an error message if the lines don't make a valid split of `total`, or null if they do
+ */
+export const validateSplits = (splits: CategorySplit[], total: Money): string | null => {
+    if (splits.length < 2) return 'Split an expense into at least two lines';
+    if (splits.some(split => !split.category.trim())) return 'Give every line a category';
+    if (splits.some(split => split.amount.currency !== total.currency || split.amount.minor <= 0)) {
+        return 'Every line needs an amount above zero';
+    }
+    const assigned = sumMoney(splits.map(split => split.amount), total.currency);
+    if (assigned.minor !== total.minor) {
+        return `Lines add up to ${formatMoney(assigned)}, not ${formatMoney(total)}`;
+    }
+    return null;
+};
+
+/**
+ * The category of an expense (every category if it's split), the source of income, or "Transfer"
+ */
+export const getTransactionLabel = (transaction: Transaction | NewTransaction): string => {
+    switch (transaction.type) {
+        case 'income':
+            return transaction.source;
+        case 'expense':
+            return getCategoryLines(transaction).map(line => line.category).join(', ');
+        case 'transfer':
+            return 'Transfer';
+    }
+};